@@ -0,0 +1,15 @@
+-- Forms created by this worker
+CREATE TABLE forms (
+	form_id TEXT PRIMARY KEY,
+	url TEXT NOT NULL,
+	title TEXT NOT NULL,
+	campaign TEXT,
+	template_form_id TEXT,
+	config TEXT NOT NULL, -- Request config as JSON, without the API key
+	created_by TEXT,
+	created_at TEXT NOT NULL,
+	updated_at TEXT NOT NULL
+);
+
+CREATE INDEX forms_campaign ON forms (campaign);
+CREATE INDEX forms_template_form_id ON forms (template_form_id);
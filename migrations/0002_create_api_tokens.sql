@@ -0,0 +1,10 @@
+-- Bearer tokens for the worker's routes; only the SHA-256 of each token is kept
+CREATE TABLE api_tokens (
+	id TEXT PRIMARY KEY,
+	name TEXT NOT NULL,
+	token_hash TEXT NOT NULL UNIQUE,
+	scopes TEXT NOT NULL, -- Space-separated
+	created_at TEXT NOT NULL,
+	last_used_at TEXT,
+	revoked_at TEXT
+);
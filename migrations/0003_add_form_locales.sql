@@ -0,0 +1,5 @@
+-- Locale variants of one config, created together by /create-form with translations
+ALTER TABLE forms ADD COLUMN locale TEXT;
+ALTER TABLE forms ADD COLUMN translation_group TEXT;
+
+CREATE INDEX forms_translation_group ON forms (translation_group);
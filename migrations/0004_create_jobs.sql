@@ -0,0 +1,24 @@
+-- Background jobs, e.g. creating a campaign's forms; one item per form, processed from the JOBS queue
+CREATE TABLE jobs (
+	id TEXT PRIMARY KEY,
+	type TEXT NOT NULL, -- 'campaign'
+	campaign TEXT,
+	created_by TEXT,
+	created_at TEXT NOT NULL,
+	updated_at TEXT NOT NULL
+);
+
+CREATE TABLE job_items (
+	job_id TEXT NOT NULL REFERENCES jobs (id),
+	item_index INTEGER NOT NULL,
+	status TEXT NOT NULL, -- pending, running, succeeded or failed
+	config TEXT NOT NULL, -- The item's full config as JSON
+	form_id TEXT,
+	form_url TEXT,
+	error TEXT,
+	attempts INTEGER NOT NULL DEFAULT 0,
+	updated_at TEXT NOT NULL,
+	PRIMARY KEY (job_id, item_index)
+);
+
+CREATE INDEX jobs_campaign ON jobs (campaign);
@@ -0,0 +1,12 @@
+-- Claimant records normalized from JotForm's submission webhooks (POST /hooks/jotform/:formId), one per submission
+CREATE TABLE claimants (
+	submission_id TEXT PRIMARY KEY,
+	form_id TEXT NOT NULL,
+	campaign TEXT, -- From the form registry, when the form is in it
+	email TEXT,
+	record TEXT NOT NULL, -- The ClaimantRecord as JSON
+	received_at TEXT NOT NULL
+);
+
+CREATE INDEX claimants_form_id ON claimants (form_id);
+CREATE INDEX claimants_campaign ON claimants (campaign);
@@ -0,0 +1,31 @@
+-- Downstream systems that get each submission to a form, configured with PUT /forms/:id/destinations
+CREATE TABLE destinations (
+	form_id TEXT NOT NULL,
+	name TEXT NOT NULL,
+	url TEXT NOT NULL,
+	secret TEXT NOT NULL, -- HMAC key for the signature header
+	body_template TEXT, -- JSON, or NULL for the default event body
+	created_at TEXT NOT NULL,
+	updated_at TEXT NOT NULL,
+	PRIMARY KEY (form_id, name)
+);
+
+-- One row per submission per destination, sent from the DELIVERIES queue. Dead rows are the dead-letter store.
+CREATE TABLE deliveries (
+	id TEXT PRIMARY KEY,
+	form_id TEXT NOT NULL,
+	submission_id TEXT NOT NULL,
+	destination TEXT NOT NULL,
+	url TEXT NOT NULL,
+	body TEXT NOT NULL, -- Rendered once, so retries and replays send the same thing
+	status TEXT NOT NULL, -- pending, delivered or dead
+	attempts INTEGER NOT NULL DEFAULT 0,
+	response_status INTEGER,
+	last_error TEXT,
+	created_at TEXT NOT NULL,
+	updated_at TEXT NOT NULL,
+	delivered_at TEXT
+);
+
+CREATE INDEX deliveries_form_id ON deliveries (form_id);
+CREATE INDEX deliveries_status ON deliveries (status);
@@ -0,0 +1,24 @@
+-- When registered forms open and close, enforced by the Cron Trigger (see lifecycle.ts)
+CREATE TABLE form_schedules (
+	form_id TEXT PRIMARY KEY,
+	opens_at TEXT,
+	closes_at TEXT,
+	max_submissions INTEGER,
+	closed_message TEXT,
+	state TEXT NOT NULL, -- pending, waiting (disabled until opens_at), open, closed, or manual (status set by hand and left alone)
+	checked_at TEXT, -- Last looked at by a scheduled run
+	updated_at TEXT NOT NULL
+);
+
+CREATE INDEX form_schedules_state ON form_schedules (state, checked_at);
+
+-- Scheduled runs that changed a form or failed to
+CREATE TABLE schedule_runs (
+	id TEXT PRIMARY KEY,
+	ran_at TEXT NOT NULL,
+	changed INTEGER NOT NULL,
+	failed INTEGER NOT NULL,
+	report TEXT NOT NULL -- JSON: each change and failure
+);
+
+CREATE INDEX schedule_runs_ran_at ON schedule_runs (ran_at);
@@ -0,0 +1,25 @@
+-- Each claimant's normalized identifiers, for finding duplicates and bursts within a campaign (see screening.ts)
+CREATE TABLE claimant_keys (
+	submission_id TEXT NOT NULL,
+	scope TEXT NOT NULL, -- The campaign, or form:{formId} for forms without one
+	kind TEXT NOT NULL, -- email, phone, identity (name and address) or ip
+	value TEXT NOT NULL,
+	received_at TEXT NOT NULL,
+	PRIMARY KEY (submission_id, kind)
+);
+
+CREATE INDEX claimant_keys_match ON claimant_keys (scope, kind, value, received_at);
+
+-- Submissions screening found something on, and whether they're flagged in JotForm yet
+CREATE TABLE submission_flags (
+	submission_id TEXT PRIMARY KEY,
+	form_id TEXT NOT NULL,
+	campaign TEXT,
+	signals TEXT NOT NULL, -- JSON: each signal with what it found
+	flagged INTEGER NOT NULL DEFAULT 0, -- 1 once the submission is flagged in JotForm
+	error TEXT, -- Why flagging it in JotForm failed
+	created_at TEXT NOT NULL,
+	updated_at TEXT NOT NULL
+);
+
+CREATE INDEX submission_flags_campaign ON submission_flags (campaign, created_at);
@@ -0,0 +1,5 @@
+-- One delivery per submission per destination, so a webhook JotForm sends again isn't delivered twice. Earlier duplicates
+-- are dropped, keeping the first.
+DELETE FROM deliveries WHERE rowid NOT IN (SELECT MIN(rowid) FROM deliveries GROUP BY submission_id, destination);
+
+CREATE UNIQUE INDEX deliveries_submission_destination ON deliveries (submission_id, destination);
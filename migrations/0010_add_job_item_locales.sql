@@ -0,0 +1,2 @@
+-- Each locale's form for items with translations, as JSON ({"en": "{formId}", "es": "{formId}"}); form_id holds the first
+ALTER TABLE job_items ADD COLUMN locales TEXT;
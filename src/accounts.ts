@@ -0,0 +1,110 @@
+/**
+ * Named JotForm accounts, so callers pick credentials by name instead of passing API keys around.
+ * Accounts come from the JOTFORM_ACCOUNTS secret (JSON) or the ACCOUNTS KV namespace; the secret wins on a name clash.
+ */
+
+import type { HandlerOptions } from './forms';
+import { createJotFormClient, JotFormError, type JotFormRegion } from './jotform-client';
+import type { Env } from './types';
+
+export interface JotFormAccount {
+	name: string;
+	apiKey: string;
+	region?: JotFormRegion;
+	baseUrl?: string;
+	source: 'secret' | 'kv' | 'env';
+}
+
+// The stored shape, in the secret (keyed by name) and as each KV value
+interface AccountCredentials {
+	apiKey: string;
+	region?: JotFormRegion;
+	baseUrl?: string;
+}
+
+// JOTFORM_API_KEY, listed under this name when it's set
+export const defaultAccount = 'default';
+
+function secretAccounts(env: Env): Record<string, AccountCredentials> {
+	if (!env.JOTFORM_ACCOUNTS) return {};
+	try {
+		const parsed = JSON.parse(env.JOTFORM_ACCOUNTS);
+		return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+	} catch {
+		console.error('JOTFORM_ACCOUNTS is not valid JSON; ignoring it');
+		return {};
+	}
+}
+
+function toAccount(name: string, credentials: AccountCredentials | null | undefined, source: JotFormAccount['source']): JotFormAccount | null {
+	if (!credentials || typeof credentials.apiKey !== 'string' || !credentials.apiKey) return null;
+	return { name, apiKey: credentials.apiKey, region: credentials.region, baseUrl: credentials.baseUrl, source };
+}
+
+export async function getAccount(env: Env, name: string): Promise<JotFormAccount | null> {
+	const fromSecret = toAccount(name, secretAccounts(env)[name], 'secret');
+	if (fromSecret) return fromSecret;
+
+	const fromKv = toAccount(name, await env.ACCOUNTS.get<AccountCredentials>(name, 'json'), 'kv');
+	if (fromKv) return fromKv;
+
+	return name === defaultAccount ? envAccount(env) : null;
+}
+
+function envAccount(env: Env): JotFormAccount | null {
+	if (!env.JOTFORM_API_KEY) return null;
+	return { name: defaultAccount, apiKey: env.JOTFORM_API_KEY, region: env.JOTFORM_REGION, baseUrl: env.JOTFORM_BASE_URL, source: 'env' };
+}
+
+// Every configured account, by name
+export async function listAccounts(env: Env): Promise<JotFormAccount[]> {
+	const accounts = new Map<string, JotFormAccount>();
+
+	const fromEnv = envAccount(env);
+	if (fromEnv) accounts.set(defaultAccount, fromEnv);
+
+	let cursor: string | undefined;
+	do {
+		const page = await env.ACCOUNTS.list({ cursor });
+		for (const key of page.keys) {
+			const account = toAccount(key.name, await env.ACCOUNTS.get<AccountCredentials>(key.name, 'json'), 'kv');
+			if (account) accounts.set(key.name, account);
+		}
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+
+	for (const [name, credentials] of Object.entries(secretAccounts(env))) {
+		const account = toAccount(name, credentials, 'secret');
+		if (account) accounts.set(name, account);
+	}
+
+	return [...accounts.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// List the accounts (never their keys) and check each key still works with GET /user
+export async function handleListAccounts(env: Env, options: HandlerOptions = {}) {
+	try {
+		const accounts = await listAccounts(env);
+
+		const results = await Promise.all(
+			accounts.map(async (account) => {
+				const summary = { name: account.name, region: account.region ?? 'us', source: account.source };
+				const client = createJotFormClient({ apiKey: account.apiKey, region: account.region, baseUrl: account.baseUrl, fetch: options.fetch, retries: 0 });
+				try {
+					const user = (await client.getUser()).content;
+					return { ...summary, verified: true, username: user?.username };
+				} catch (error) {
+					if (!(error instanceof JotFormError)) throw error;
+					return { ...summary, verified: false, error: error.message };
+				}
+			})
+		);
+
+		return Response.json({ accounts: results });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
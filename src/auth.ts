@@ -0,0 +1,170 @@
+/**
+ * Bearer-token authentication for the worker's routes.
+ * Tokens are random strings handed out once; only their SHA-256 is stored (see migrations/).
+ */
+
+import { createMiddleware } from 'hono/factory';
+import { sha256 } from './hash';
+import type { Env } from './types';
+
+export const scopes = ['forms:create', 'forms:read', 'forms:update', 'submissions:read', 'accounts:read', 'tokens:manage'] as const;
+
+export type Scope = (typeof scopes)[number];
+
+export interface TokenRecord {
+	id: string;
+	name: string; // The client the token was issued to, recorded as the caller on forms it creates
+	scopes: Scope[];
+	createdAt: string;
+	lastUsedAt: string | null;
+	revokedAt: string | null;
+}
+
+interface TokenRow {
+	id: string;
+	name: string;
+	token_hash: string;
+	scopes: string;
+	created_at: string;
+	last_used_at: string | null;
+	revoked_at: string | null;
+}
+
+export type AuthVariables = { client: string };
+
+// The ADMIN_TOKEN secret stands in for a token with every scope, so the first real tokens can be issued
+const adminClient = 'admin';
+
+export function unauthorized(message: string) {
+	return Response.json({ error: 'Unauthorized', message }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+}
+
+export function forbidden(message: string) {
+	return Response.json({ error: 'Forbidden', message }, { status: 403 });
+}
+
+// Reject the request unless it carries a valid token with the scope; sets the client's name for the handler
+export function requireScope(scope: Scope) {
+	return createMiddleware<{ Bindings: Env; Variables: AuthVariables }>(async (c, next) => {
+		const match = c.req.header('Authorization')?.match(/^Bearer\s+(\S+)$/i);
+		if (!match) {
+			return unauthorized('Missing bearer token');
+		}
+
+		const client = await authenticate(c.env, match[1]);
+		if (!client) {
+			return unauthorized('Invalid or revoked token');
+		}
+		if (!client.scopes.includes(scope)) {
+			return forbidden(`Token lacks the '${scope}' scope`);
+		}
+
+		c.set('client', client.name);
+		if (client.id) {
+			c.executionCtx.waitUntil(markUsed(c.env.DB, client.id).catch(() => undefined));
+		}
+		await next();
+	});
+}
+
+async function authenticate(env: Env, token: string): Promise<{ id?: string; name: string; scopes: readonly Scope[] } | null> {
+	const hash = await sha256(token);
+	if (env.ADMIN_TOKEN && hash === (await sha256(env.ADMIN_TOKEN))) {
+		return { name: adminClient, scopes };
+	}
+
+	const row = await env.DB.prepare('SELECT * FROM api_tokens WHERE token_hash = ? AND revoked_at IS NULL').bind(hash).first<TokenRow>();
+	return row ? { id: row.id, name: row.name, scopes: parseScopes(row.scopes) } : null;
+}
+
+async function markUsed(db: D1Database, id: string): Promise<void> {
+	await db.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?').bind(new Date().toISOString(), id).run();
+}
+
+function parseScopes(value: string): Scope[] {
+	return value.split(' ').filter((scope): scope is Scope => (scopes as readonly string[]).includes(scope));
+}
+
+function toRecord(row: TokenRow): TokenRecord {
+	return {
+		id: row.id,
+		name: row.name,
+		scopes: parseScopes(row.scopes),
+		createdAt: row.created_at,
+		lastUsedAt: row.last_used_at,
+		revokedAt: row.revoked_at
+	};
+}
+
+// Issue a token. The token itself is only ever returned here.
+export async function createToken(db: D1Database, name: string, tokenScopes: Scope[]): Promise<TokenRecord & { token: string }> {
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	const token = `jfm_${[...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+	const row: TokenRow = {
+		id: crypto.randomUUID(),
+		name,
+		token_hash: await sha256(token),
+		scopes: [...new Set(tokenScopes)].join(' '),
+		created_at: new Date().toISOString(),
+		last_used_at: null,
+		revoked_at: null
+	};
+	await db
+		.prepare('INSERT INTO api_tokens (id, name, token_hash, scopes, created_at) VALUES (?, ?, ?, ?, ?)')
+		.bind(row.id, row.name, row.token_hash, row.scopes, row.created_at)
+		.run();
+	return { ...toRecord(row), token };
+}
+
+export async function handleCreateToken(body: { name: string; scopes: Scope[] }, env: Env) {
+	try {
+		const token = await createToken(env.DB, body.name, body.scopes);
+		return Response.json(token, { status: 201 });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+export async function handleListTokens(env: Env) {
+	try {
+		const { results } = await env.DB.prepare('SELECT * FROM api_tokens ORDER BY created_at DESC').all<TokenRow>();
+		return Response.json({ tokens: results.map(toRecord) });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+export async function handleRevokeToken(id: string, env: Env) {
+	try {
+		const result = await env.DB.prepare('UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+			.bind(new Date().toISOString(), id)
+			.run();
+		if (result.meta.changes === 0) {
+			return Response.json({ error: 'Token not found', id }, { status: 404 });
+		}
+		return Response.json({ success: true, id });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// CORS_ORIGINS is a comma-separated allowlist ('*' allows any origin); unset means no cross-origin access
+export function allowedOrigin(origin: string, env: Env): string | null {
+	const allowed = (env.CORS_ORIGINS || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+	if (allowed.includes('*')) return origin || '*';
+	return allowed.includes(origin) ? origin : null;
+}
+
+// Body-supplied JotForm API keys are accepted unless ALLOW_BODY_API_KEY is 'false'
+export function bodyApiKeyAllowed(env: Env): boolean {
+	return env.ALLOW_BODY_API_KEY !== 'false';
+}
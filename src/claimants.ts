@@ -0,0 +1,227 @@
+/**
+ * Claimant records: a submission's answers, in the shape JotForm posts them to the webhook (rawRequest), normalized by
+ * question name into a typed record and stored in D1 (see migrations/).
+ */
+
+import { formFields } from './fields';
+import type { JotFormSubmission } from './jotform-client';
+import { getFormRecord } from './registry';
+import { parseGeoStamp, type GeoStamp } from './submissions';
+import type { Env } from './types';
+
+export interface ClaimantRecord {
+	submissionId: string;
+	formId: string;
+	campaign: string | null;
+	eligibility: Record<string, string>; // Answer per eligibility question name
+	name: { prefix?: string; first?: string; middle?: string; last?: string; suffix?: string } | null;
+	address: { addr_line1?: string; addr_line2?: string; city?: string; state?: string; postal?: string; country?: string } | null;
+	email: string | null;
+	phone: string | null;
+	signatureUrl: string | null;
+	userAgent: string | null;
+	geoStamp: (GeoStamp & { raw: string }) | null;
+	hidden: Record<string, string>;
+	answers: Record<string, unknown>; // Every other answer, by question name
+	ip: string | null;
+	receivedAt: string;
+}
+
+// A submission in the webhook's shape; the webhook and screening both build it from the API's copy (see claimantSubmission)
+export interface ClaimantSubmission {
+	submissionId: string;
+	formId: string;
+	ip: string | null;
+	rawRequest: Record<string, unknown>;
+	receivedAt?: string; // Default now
+}
+
+// Which question names hold what. From the form's config when it's in the registry, else the builder's default names.
+interface ClaimantNames {
+	eligibility: (name: string) => boolean;
+	name: string;
+	address: string;
+	email: string;
+	phone: string;
+	signatures: string[];
+	userAgent: string[];
+	geoStamp: string[];
+	hidden: string[];
+}
+
+const defaultNames: ClaimantNames = {
+	eligibility: (name) => /^eligibility_question_\d+$/.test(name),
+	name: 'name',
+	address: 'address',
+	email: 'email',
+	phone: 'phoneNumber',
+	signatures: ['signature'],
+	userAgent: ['userAgent'],
+	geoStamp: ['geoStamp'],
+	hidden: []
+};
+
+// rawRequest fields that are JotForm's own bookkeeping, not answers
+const bookkeepingKeys = new Set(['slug', 'event_id', 'path', 'jsExecutionTracker', 'submitSource', 'submitDate', 'buildDate', 'uploadServerUrl', 'eventObserver', 'timeToSubmit', 'validatedNewRequiredFieldIDs', 'website']);
+
+function namesFromConfig(config: Record<string, any>): ClaimantNames {
+	const fields = formFields(config);
+	const fieldOfType = (type: string, fallback: string) => fields.find((field) => field.type === type)?.name ?? fallback;
+	const eligibilityNames = new Set<string>((config.eligibilityQuestions || []).map((eq: { name: string }) => eq.name));
+	const widgets = (type: string) => (config.widgets || []).filter((widget: { type: string }) => widget.type === type).map((widget: { name: string }) => widget.name);
+
+	return {
+		eligibility: (name) => eligibilityNames.has(name) || defaultNames.eligibility(name),
+		name: fieldOfType('fullname', defaultNames.name),
+		address: fieldOfType('address', defaultNames.address),
+		email: fieldOfType('email', defaultNames.email),
+		phone: fieldOfType('phone', defaultNames.phone),
+		signatures: config.signatureFields?.length ? config.signatureFields.map((sig: { name: string }) => sig.name) : defaultNames.signatures,
+		userAgent: [...widgets('userAgent'), ...defaultNames.userAgent],
+		geoStamp: [...widgets('geoStamp'), ...defaultNames.geoStamp],
+		hidden: (config.hiddenFields || []).map((field: { name: string }) => field.name)
+	};
+}
+
+// rawRequest keys are q{qid}_{name}; compound answers (name, address, phone) are objects of their parts
+export function rawAnswers(rawRequest: Record<string, unknown>): Record<string, unknown> {
+	const answers: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(rawRequest)) {
+		const match = key.match(/^q\d+_(.+)$/);
+		if (match) {
+			answers[match[1]] = value;
+		} else if (!bookkeepingKeys.has(key) && !key.startsWith('temp_upload')) {
+			answers[key] = value; // e.g. hidden fields prefilled by URL parameter
+		}
+	}
+	return answers;
+}
+
+function text(value: unknown): string | null {
+	if (typeof value === 'string') return value.trim() || null;
+	if (Array.isArray(value)) return value.filter(Boolean).join(', ') || null;
+	return null;
+}
+
+function parts<T extends Record<string, string | undefined>>(value: unknown): T | null {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+	const entries = Object.entries(value).filter(([, part]) => typeof part === 'string' && part.trim());
+	return entries.length > 0 ? (Object.fromEntries(entries.map(([key, part]) => [key, (part as string).trim()])) as T) : null;
+}
+
+function phoneText(value: unknown): string | null {
+	const phone = parts<Record<string, string>>(value);
+	if (!phone) return text(value);
+	return phone.full ?? ([phone.country, phone.area, phone.phone].filter(Boolean).join(' ') || null);
+}
+
+export function normalizeClaimant(
+	submission: ClaimantSubmission,
+	form: { campaign: string | null; config: Record<string, any> | null }
+): ClaimantRecord {
+	const names = form.config ? namesFromConfig(form.config) : defaultNames;
+	const answers = rawAnswers(submission.rawRequest);
+	const first = (candidates: string[]) => candidates.map((name) => text(answers[name])).find((value) => value !== null) ?? null;
+
+	const record: ClaimantRecord = {
+		submissionId: submission.submissionId,
+		formId: submission.formId,
+		campaign: form.campaign,
+		eligibility: {},
+		name: parts(answers[names.name]),
+		address: parts(answers[names.address]),
+		email: text(answers[names.email])?.toLowerCase() ?? null,
+		phone: phoneText(answers[names.phone]),
+		// Only a link is kept; a drawn signature posted as a data: URL is left to the evidence bundle
+		signatureUrl: names.signatures.map((name) => text(answers[name])).find((value) => value !== null && /^https?:\/\//.test(value)) ?? null,
+		userAgent: first(names.userAgent),
+		geoStamp: null,
+		hidden: {},
+		answers: {},
+		ip: submission.ip,
+		receivedAt: submission.receivedAt ?? new Date().toISOString()
+	};
+
+	const geoStamp = first(names.geoStamp);
+	if (geoStamp) record.geoStamp = { raw: geoStamp, ...parseGeoStamp(geoStamp) };
+
+	const claimed = new Set([names.name, names.address, names.email, names.phone, ...names.signatures, ...names.userAgent, ...names.geoStamp]);
+	for (const [name, value] of Object.entries(answers)) {
+		if (names.eligibility(name)) {
+			record.eligibility[name] = text(value) ?? '';
+		} else if (names.hidden.includes(name)) {
+			record.hidden[name] = text(value) ?? '';
+		} else if (!claimed.has(name)) {
+			record.answers[name] = value;
+		}
+	}
+
+	return record;
+}
+
+// Normalize and store the record; a redelivered webhook replaces the earlier one
+export async function recordClaimant(env: Env, submission: ClaimantSubmission): Promise<ClaimantRecord> {
+	const form = await getFormRecord(env.DB, submission.formId);
+	const record = normalizeClaimant(submission, { campaign: form?.campaign ?? null, config: form?.config ?? null });
+
+	await env.DB.prepare(
+		`INSERT INTO claimants (submission_id, form_id, campaign, email, record, received_at) VALUES (?, ?, ?, ?, ?, ?)
+		ON CONFLICT (submission_id) DO UPDATE SET form_id = excluded.form_id, campaign = excluded.campaign, email = excluded.email,
+			record = excluded.record, received_at = excluded.received_at`
+	)
+		.bind(record.submissionId, record.formId, record.campaign, record.email, JSON.stringify(record), record.receivedAt)
+		.run();
+	return record;
+}
+
+// JotForm's default for new accounts, for when the account's settings don't say
+export const defaultTimeZone = 'America/New_York';
+
+// A submission pulled from the API, in the webhook's rawRequest shape. JotForm's created_at has no zone: it's the
+// account's (GET /user/settings), and is converted to UTC here so it's on the same clock as the webhook's receivedAt.
+export function claimantSubmission(submission: JotFormSubmission, timeZone = defaultTimeZone): ClaimantSubmission {
+	const rawRequest = Object.fromEntries(Object.entries(submission.answers || {}).map(([qid, answer]) => [`q${qid}_${answer.name}`, answer.answer]));
+	return {
+		submissionId: submission.id,
+		formId: submission.form_id,
+		ip: submission.ip || null,
+		rawRequest,
+		receivedAt: zonedTimeToUtc(submission.created_at, timeZone)
+	};
+}
+
+// 'YYYY-MM-DD HH:MM:SS' on the zone's wall clock to an ISO timestamp; undefined if it doesn't parse
+function zonedTimeToUtc(value: string, timeZone: string): string | undefined {
+	const wall = Date.parse(`${value.replace(' ', 'T')}Z`);
+	if (Number.isNaN(wall)) return undefined;
+	// The offset at the wall time read as UTC, then again at the instant that gives, in case a DST change falls between
+	const guess = wall - zoneOffset(wall, timeZone);
+	return new Date(wall - zoneOffset(guess, timeZone)).toISOString();
+}
+
+// How far the zone's wall clock is ahead of UTC at the instant, in milliseconds
+function zoneOffset(time: number, timeZone: string): number {
+	const format = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: 'numeric',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: 'numeric',
+		second: 'numeric'
+	});
+	const parts = Object.fromEntries(format.formatToParts(time).map((part) => [part.type, Number(part.value)]));
+	return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - (time - (time % 1000));
+}
+
+export async function getClaimant(db: D1Database, submissionId: string): Promise<ClaimantRecord | null> {
+	const row = await db.prepare('SELECT record FROM claimants WHERE submission_id = ?').bind(submissionId).first<{ record: string }>();
+	return row ? JSON.parse(row.record) : null;
+}
+
+// Where a form's capture webhook points: PUBLIC_URL if set, else the origin the request came in on
+export function captureWebhookURL(formId: string, env: Env, origin?: string): string | undefined {
+	const base = env.PUBLIC_URL || origin;
+	return base ? `${base.replace(/\/+$/, '')}/hooks/jotform/${formId}` : undefined;
+}
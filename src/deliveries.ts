@@ -0,0 +1,371 @@
+/**
+ * Fan-out of submission events to each form's destinations (downstream intake systems).
+ * Every delivery is recorded in D1 and sent from the DELIVERIES queue, retried with exponential backoff; one that
+ * runs out of attempts is marked dead and stays there until replayed (see migrations/).
+ *
+ * Each request carries X-Delivery-Id, X-Delivery-Timestamp and X-Signature-256: sha256=HMAC-SHA256(secret,
+ * "{timestamp}.{body}"), so the receiver can check it came from us and isn't a stale replay.
+ */
+
+import type { ClaimantRecord } from './claimants';
+import type { HandlerOptions } from './forms';
+import { hmacSha256 } from './hash';
+import { parsePaging } from './query';
+import type { Env } from './types';
+
+export interface DestinationInput {
+	name: string;
+	url: string;
+	secret?: string; // Generated (and returned once) when a new destination doesn't set one; kept when an existing one doesn't
+	bodyTemplate?: Record<string, unknown>; // JSON body with {{path}} placeholders into the event, default the event itself
+}
+
+export interface DeliveryMessage {
+	deliveryId: string;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface SubmissionEvent {
+	event: 'submission.received';
+	formId: string;
+	submissionId: string;
+	campaign: string | null;
+	receivedAt: string;
+	claimant: ClaimantRecord;
+}
+
+interface DestinationRow {
+	form_id: string;
+	name: string;
+	url: string;
+	secret: string;
+	body_template: string | null;
+	created_at: string;
+	updated_at: string;
+}
+
+interface DeliveryRow {
+	id: string;
+	form_id: string;
+	submission_id: string;
+	destination: string;
+	url: string;
+	body: string;
+	status: DeliveryStatus;
+	attempts: number;
+	response_status: number | null;
+	last_error: string | null;
+	created_at: string;
+	updated_at: string;
+	delivered_at: string | null;
+}
+
+export const deliveriesQueue = 'jotform-manager-deliveries';
+
+// Keep below the consumer's max_retries in wrangler.jsonc, so the queue never drops a message before it's marked dead
+export const maxDeliveryAttempts = 8;
+const backoffBaseSeconds = 30;
+const maxBackoffSeconds = 6 * 60 * 60;
+const deliveryTimeoutMs = 15000;
+
+// The delay before attempt number `attempts + 1`: 30s, 1m, 2m, 4m... capped at 6h
+export function backoffSeconds(attempts: number): number {
+	return Math.min(backoffBaseSeconds * 2 ** Math.max(attempts - 1, 0), maxBackoffSeconds);
+}
+
+// "{{claimant.email}}" on its own is replaced by the value (objects and numbers included); inside longer text it's
+// interpolated as a string. Unknown paths give null and '' respectively.
+export function renderTemplate(template: unknown, event: Record<string, any>): unknown {
+	const lookup = (path: string) => path.split('.').reduce<any>((value, key) => (value === null || value === undefined ? undefined : value[key]), event);
+
+	if (typeof template === 'string') {
+		const whole = template.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+		if (whole) return lookup(whole[1]) ?? null;
+		return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+			const value = lookup(path);
+			if (value === null || value === undefined) return '';
+			return typeof value === 'object' ? JSON.stringify(value) : String(value);
+		});
+	}
+	if (Array.isArray(template)) return template.map((item) => renderTemplate(item, event));
+	if (typeof template === 'object' && template !== null) {
+		return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderTemplate(value, event)]));
+	}
+	return template;
+}
+
+function toDestination(row: DestinationRow) {
+	return {
+		name: row.name,
+		url: row.url,
+		bodyTemplate: row.body_template ? JSON.parse(row.body_template) : null,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at
+	};
+}
+
+function toDelivery(row: DeliveryRow) {
+	return {
+		id: row.id,
+		formId: row.form_id,
+		submissionId: row.submission_id,
+		destination: row.destination,
+		url: row.url,
+		status: row.status,
+		attempts: row.attempts,
+		responseStatus: row.response_status,
+		lastError: row.last_error,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+		deliveredAt: row.delivered_at
+	};
+}
+
+async function listDestinations(db: D1Database, formId: string): Promise<DestinationRow[]> {
+	const { results } = await db.prepare('SELECT * FROM destinations WHERE form_id = ? ORDER BY name').bind(formId).all<DestinationRow>();
+	return results;
+}
+
+// GET /forms/:id/destinations. Secrets are never returned here.
+export async function handleGetDestinations(formId: string, env: Env) {
+	try {
+		const destinations = await listDestinations(env.DB, formId);
+		return Response.json({ formId, destinations: destinations.map(toDestination) });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// PUT /forms/:id/destinations replaces the form's list. Deliveries already queued to a removed destination go dead.
+export async function handlePutDestinations(formId: string, body: { destinations: DestinationInput[] }, env: Env) {
+	try {
+		const existing = new Map((await listDestinations(env.DB, formId)).map((row) => [row.name, row]));
+		const now = new Date().toISOString();
+		const generated: Record<string, string> = {};
+
+		const rows: DestinationRow[] = body.destinations.map((destination) => {
+			const previous = existing.get(destination.name);
+			let secret = destination.secret ?? previous?.secret;
+			if (!secret) {
+				secret = [...crypto.getRandomValues(new Uint8Array(32))].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+				generated[destination.name] = secret;
+			}
+			return {
+				form_id: formId,
+				name: destination.name,
+				url: destination.url,
+				secret,
+				body_template: destination.bodyTemplate ? JSON.stringify(destination.bodyTemplate) : null,
+				created_at: previous?.created_at ?? now,
+				updated_at: now
+			};
+		});
+
+		await env.DB.batch([
+			env.DB.prepare('DELETE FROM destinations WHERE form_id = ?').bind(formId),
+			...rows.map((row) =>
+				env.DB.prepare('INSERT INTO destinations (form_id, name, url, secret, body_template, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)').bind(
+					row.form_id,
+					row.name,
+					row.url,
+					row.secret,
+					row.body_template,
+					row.created_at,
+					row.updated_at
+				)
+			)
+		]);
+
+		return Response.json({
+			formId,
+			// A generated secret is only ever returned here
+			destinations: rows.map((row) => ({ ...toDestination(row), ...(generated[row.name] && { secret: generated[row.name] }) }))
+		});
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// Record and queue one delivery per destination of the submission's form, skipping destinations that already have one
+// for it (JotForm sends a webhook again when it isn't sure it got through). Returns how many were queued.
+export async function queueDeliveries(env: Env, claimant: ClaimantRecord): Promise<number> {
+	const destinations = await listDestinations(env.DB, claimant.formId);
+	if (destinations.length === 0) return 0;
+
+	const event: SubmissionEvent = {
+		event: 'submission.received',
+		formId: claimant.formId,
+		submissionId: claimant.submissionId,
+		campaign: claimant.campaign,
+		receivedAt: claimant.receivedAt,
+		claimant
+	};
+	const now = new Date().toISOString();
+	const rows = destinations.map((destination) => ({
+		id: crypto.randomUUID(),
+		destination,
+		body: JSON.stringify(destination.body_template ? renderTemplate(JSON.parse(destination.body_template), event) : event)
+	}));
+
+	const results = await env.DB.batch<{ id: string }>(
+		rows.map(({ id, destination, body }) =>
+			env.DB.prepare(
+				`INSERT INTO deliveries (id, form_id, submission_id, destination, url, body, status, created_at, updated_at)
+				VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+				ON CONFLICT (submission_id, destination) DO NOTHING RETURNING id`
+			).bind(id, claimant.formId, claimant.submissionId, destination.name, destination.url, body, now, now)
+		)
+	);
+	const inserted = results.flatMap((result) => result.results);
+	if (inserted.length > 0) {
+		await env.DELIVERIES.sendBatch(inserted.map(({ id }) => ({ body: { deliveryId: id } })));
+	}
+	return inserted.length;
+}
+
+// Queue consumer for DELIVERIES. A failed send is retried by the queue after the backoff delay.
+export async function handleDeliveryBatch(batch: MessageBatch<DeliveryMessage>, env: Env, options: HandlerOptions = {}): Promise<void> {
+	for (const message of batch.messages) {
+		try {
+			const retryAfter = await attemptDelivery(message.body.deliveryId, env, options);
+			if (retryAfter === undefined) {
+				message.ack();
+			} else {
+				message.retry({ delaySeconds: retryAfter });
+			}
+		} catch (error) {
+			// D1 itself failed; let the queue try again later
+			console.error(`Delivery ${message.body.deliveryId} failed:`, error instanceof Error ? error.message : error);
+			message.retry({ delaySeconds: backoffBaseSeconds });
+		}
+	}
+}
+
+// Send one delivery. Returns the seconds to wait before retrying, or undefined when it's done (delivered or dead).
+export async function attemptDelivery(deliveryId: string, env: Env, options: HandlerOptions = {}): Promise<number | undefined> {
+	const delivery = await env.DB.prepare('SELECT * FROM deliveries WHERE id = ?').bind(deliveryId).first<DeliveryRow>();
+	if (!delivery || delivery.status !== 'pending') {
+		return undefined;
+	}
+
+	const attempts = delivery.attempts + 1;
+	const destination = await env.DB.prepare('SELECT * FROM destinations WHERE form_id = ? AND name = ?')
+		.bind(delivery.form_id, delivery.destination)
+		.first<DestinationRow>();
+	if (!destination) {
+		await updateDelivery(env.DB, deliveryId, { status: 'dead', attempts: delivery.attempts, responseStatus: null, error: 'Destination no longer configured' });
+		return undefined;
+	}
+
+	const timestamp = String(Math.floor(Date.now() / 1000));
+	let responseStatus: number | null = null;
+	let error: string | null = null;
+	try {
+		const response = await (options.fetch ?? fetch)(destination.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'X-Delivery-Id': deliveryId,
+				'X-Delivery-Timestamp': timestamp,
+				'X-Signature-256': `sha256=${await hmacSha256(destination.secret, `${timestamp}.${delivery.body}`)}`
+			},
+			body: delivery.body,
+			signal: AbortSignal.timeout(deliveryTimeoutMs)
+		});
+		responseStatus = response.status;
+		if (!response.ok) error = `HTTP ${response.status}`;
+	} catch (fetchError) {
+		error = fetchError instanceof Error ? fetchError.message : 'Unknown error';
+	}
+
+	if (!error) {
+		await updateDelivery(env.DB, deliveryId, { status: 'delivered', attempts, responseStatus, error: null });
+		return undefined;
+	}
+	if (attempts >= maxDeliveryAttempts) {
+		console.warn(`Delivery ${deliveryId} to ${destination.name} is dead after ${attempts} attempts: ${error}`);
+		await updateDelivery(env.DB, deliveryId, { status: 'dead', attempts, responseStatus, error });
+		return undefined;
+	}
+	await updateDelivery(env.DB, deliveryId, { status: 'pending', attempts, responseStatus, error });
+	return backoffSeconds(attempts);
+}
+
+async function updateDelivery(
+	db: D1Database,
+	id: string,
+	result: { status: DeliveryStatus; attempts: number; responseStatus: number | null; error: string | null }
+): Promise<void> {
+	const now = new Date().toISOString();
+	await db
+		.prepare('UPDATE deliveries SET status = ?, attempts = ?, response_status = ?, last_error = ?, updated_at = ?, delivered_at = ? WHERE id = ?')
+		.bind(result.status, result.attempts, result.responseStatus, result.error, now, result.status === 'delivered' ? now : null, id)
+		.run();
+}
+
+// GET /deliveries, filterable by ?formId=, ?submissionId=, ?destination= and ?status=, paged with ?limit=&offset=. Newest first.
+export async function handleListDeliveries(query: Record<string, string | undefined>, env: Env) {
+	const paging = parsePaging(query);
+	if (paging instanceof Response) return paging;
+	const { limit, offset } = paging;
+	if (query.status !== undefined && !['pending', 'delivered', 'dead'].includes(query.status)) {
+		return Response.json({ error: 'Invalid status', message: 'status must be pending, delivered or dead' }, { status: 400 });
+	}
+
+	try {
+		const where: string[] = [];
+		const params: unknown[] = [];
+		for (const [key, column] of [['formId', 'form_id'], ['submissionId', 'submission_id'], ['destination', 'destination'], ['status', 'status']]) {
+			if (query[key]) {
+				where.push(`${column} = ?`);
+				params.push(query[key]);
+			}
+		}
+
+		const { results } = await env.DB.prepare(
+			`SELECT * FROM deliveries ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`
+		)
+			.bind(...params, limit, offset)
+			.all<DeliveryRow>();
+		return Response.json({ deliveries: results.map(toDelivery), limit, offset });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// POST /deliveries/:id/replay: send a dead delivery again, with a fresh set of attempts
+export async function handleReplayDelivery(deliveryId: string, env: Env) {
+	try {
+		const replayed = await env.DB.prepare(
+			"UPDATE deliveries SET status = 'pending', attempts = 0, last_error = NULL, updated_at = ? WHERE id = ? AND status = 'dead' RETURNING *"
+		)
+			.bind(new Date().toISOString(), deliveryId)
+			.first<DeliveryRow>();
+
+		if (!replayed) {
+			const existing = await env.DB.prepare('SELECT status FROM deliveries WHERE id = ?').bind(deliveryId).first<{ status: DeliveryStatus }>();
+			if (!existing) {
+				return Response.json({ error: 'Delivery not found', deliveryId }, { status: 404 });
+			}
+			return Response.json({ error: 'Only dead deliveries can be replayed', deliveryId, status: existing.status }, { status: 409 });
+		}
+
+		await env.DELIVERIES.send({ deliveryId });
+		return Response.json({ success: true, delivery: toDelivery(replayed) }, { status: 202 });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
@@ -0,0 +1,357 @@
+/**
+ * Consent evidence bundles: a PDF and JSON manifest per submission, with SHA-256 hashes, stored in R2.
+ * Bundles are built from a snapshot of the form taken when the submission arrives, so later edits to the
+ * form's text don't change what the claimant is shown to have agreed to.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib';
+import { widgetDefinitions } from './form-builder';
+import { jotformClientFor, jotformErrorResponse, type HandlerOptions } from './forms';
+import { sha256 } from './hash';
+import { JotFormError, type JotFormQuestionRecord, type JotFormSubmission } from './jotform-client';
+import { isGeoStampWidget, parseGeoStamp, type GeoStamp } from './submissions';
+import type { Env } from './types';
+
+export interface EvidenceManifest {
+	submissionId: string;
+	formId: string;
+	formTitle: string;
+	createdAt: string; // Submission time as reported by JotForm
+	ip: string;
+	userAgent: string | null;
+	geoStamp: (GeoStamp & { raw: string }) | null;
+	legalText: Array<{ name: string; html: string }>; // Every text block on the form, in form order, as shown
+	answers: Array<{ name: string; label: string; type: string; value: string }>;
+	signatures: Array<{ name: string; label: string; url: string; sha256: string | null; error?: string }>;
+	formSnapshotAt: string; // When the form's questions were read
+	generatedAt: string;
+	trigger: 'webhook' | 'on-demand';
+}
+
+export interface StoredEvidence {
+	manifest: EvidenceManifest;
+	hashes: Record<string, string>; // File name in the bundle to its SHA-256
+}
+
+interface SignatureImage {
+	name: string;
+	bytes: Uint8Array;
+	contentType: string;
+}
+
+// Questions that never hold an answer worth recording
+const layoutTypes = new Set(['control_head', 'control_text', 'control_button', 'control_pagebreak', 'control_captcha', 'control_image', 'control_divider']);
+
+function evidenceKey(submissionId: string, file: string): string {
+	return `evidence/${submissionId}/${file}`;
+}
+
+// Build, hash and store the bundle for a submission. An existing bundle is kept as-is and returned.
+export async function generateEvidence(
+	submissionId: string,
+	env: Env,
+	options: HandlerOptions & { trigger?: EvidenceManifest['trigger'] } = {}
+): Promise<StoredEvidence> {
+	const existing = await readEvidence(env, submissionId);
+	if (existing) {
+		return existing;
+	}
+
+	const client = await jotformClientFor({ account: options.account }, env, options);
+	if (typeof client === 'string') {
+		throw new Error(client);
+	}
+
+	// Step 1: The submission and a snapshot of the form it was made on
+	const submission = (await client.getSubmission(submissionId)).content;
+	const [questions, form] = await Promise.all([client.getQuestions(submission.form_id), client.getForm(submission.form_id)]);
+	const formSnapshotAt = new Date().toISOString();
+
+	// Step 2: Fetch the signature images so the bundle doesn't depend on JotForm keeping them
+	const manifest = buildManifest(submission, questions.content || {}, form.content?.title || '', options.trigger || 'on-demand', formSnapshotAt);
+	const images: SignatureImage[] = [];
+	for (const signature of manifest.signatures) {
+		try {
+			const image = await fetchSignature(signature.url, options.fetch);
+			signature.sha256 = await sha256(image.bytes);
+			images.push({ name: signature.name, ...image });
+		} catch (error) {
+			signature.error = error instanceof Error ? error.message : 'Unknown error';
+			console.warn(`Failed to fetch signature ${signature.name} for submission ${submissionId}:`, signature.error);
+		}
+	}
+
+	// Step 3: Render, hash and store
+	const pdf = await renderEvidencePdf(manifest, images);
+	const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+	const files: Array<{ file: string; bytes: Uint8Array; contentType: string }> = [
+		{ file: 'bundle.pdf', bytes: pdf, contentType: 'application/pdf' },
+		{ file: 'manifest.json', bytes: manifestBytes, contentType: 'application/json' },
+		...images.map((image) => ({ file: `signature-${image.name}.${image.contentType === 'image/jpeg' ? 'jpg' : 'png'}`, bytes: image.bytes, contentType: image.contentType }))
+	];
+
+	const hashes: Record<string, string> = {};
+	for (const { file, bytes, contentType } of files) {
+		hashes[file] = await sha256(bytes);
+		await env.EVIDENCE.put(evidenceKey(submissionId, file), bytes, {
+			httpMetadata: { contentType },
+			customMetadata: { sha256: hashes[file] }
+		});
+	}
+	// sha256sum format, so the bundle can be checked with standard tools
+	const sums = Object.entries(hashes).map(([file, hash]) => `${hash}  ${file}\n`).join('');
+	await env.EVIDENCE.put(evidenceKey(submissionId, 'SHA256SUMS'), sums, { httpMetadata: { contentType: 'text/plain' } });
+
+	return { manifest, hashes };
+}
+
+async function readEvidence(env: Env, submissionId: string): Promise<StoredEvidence | null> {
+	const [manifest, sums] = await Promise.all([
+		env.EVIDENCE.get(evidenceKey(submissionId, 'manifest.json')),
+		env.EVIDENCE.get(evidenceKey(submissionId, 'SHA256SUMS'))
+	]);
+	if (!manifest || !sums) {
+		return null;
+	}
+
+	const hashes: Record<string, string> = {};
+	for (const line of (await sums.text()).split('\n')) {
+		const match = line.match(/^([0-9a-f]{64}) {2}(.+)$/);
+		if (match) hashes[match[2]] = match[1];
+	}
+	return { manifest: await manifest.json<EvidenceManifest>(), hashes };
+}
+
+export function buildManifest(
+	submission: JotFormSubmission,
+	questions: Record<string, JotFormQuestionRecord>,
+	formTitle: string,
+	trigger: EvidenceManifest['trigger'],
+	formSnapshotAt: string
+): EvidenceManifest {
+	const sorted = Object.entries(questions)
+		.map(([qid, question]): JotFormQuestionRecord & { qid: string } => ({ ...question, qid }))
+		.sort((a, b) => Number(a.order) - Number(b.order));
+	const answerOf = (qid: string) => submission.answers?.[qid];
+
+	const manifest: EvidenceManifest = {
+		submissionId: submission.id,
+		formId: submission.form_id,
+		formTitle,
+		createdAt: submission.created_at,
+		ip: submission.ip,
+		userAgent: null,
+		geoStamp: null,
+		legalText: [],
+		answers: [],
+		signatures: [],
+		formSnapshotAt,
+		generatedAt: new Date().toISOString(),
+		trigger
+	};
+
+	for (const question of sorted) {
+		const answer = answerOf(question.qid);
+		if (question.type === 'control_text') {
+			manifest.legalText.push({ name: question.name, html: question.text });
+		} else if (question.type === 'control_signature') {
+			if (typeof answer?.answer === 'string' && answer.answer) {
+				manifest.signatures.push({ name: question.name, label: question.text, url: answer.answer, sha256: null });
+			}
+		} else if (question.type === 'control_widget' && question.cfname === widgetDefinitions.userAgent.cfname) {
+			manifest.userAgent = typeof answer?.answer === 'string' ? answer.answer : null;
+		} else if (isGeoStampWidget(question)) {
+			manifest.geoStamp = typeof answer?.answer === 'string' ? { raw: answer.answer, ...parseGeoStamp(answer.answer) } : null;
+		} else if (!layoutTypes.has(question.type)) {
+			manifest.answers.push({ name: question.name, label: question.text, type: question.type, value: answerText(answer?.answer, answer?.prettyFormat) });
+		}
+	}
+
+	return manifest;
+}
+
+function answerText(value: any, prettyFormat?: string): string {
+	if (value === undefined || value === null) return '';
+	if (typeof value !== 'object') return String(value);
+	if (Array.isArray(value)) return value.join(', ');
+	return prettyFormat ? htmlToText(prettyFormat) : Object.values(value).filter(Boolean).join(' ');
+}
+
+async function fetchSignature(url: string, fetcher: typeof fetch = fetch): Promise<{ bytes: Uint8Array; contentType: string }> {
+	const response = await fetcher(url, { signal: AbortSignal.timeout(20000) });
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+	const bytes = new Uint8Array(await response.arrayBuffer());
+	// Trust the file's magic bytes over the header
+	const contentType = bytes[0] === 0xff && bytes[1] === 0xd8 ? 'image/jpeg' : 'image/png';
+	return { bytes, contentType };
+}
+
+// Legal text is stored as HTML; the PDF gets it as plain paragraphs
+export function htmlToText(html: string): string {
+	const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+	return html
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+		.replace(/<li[^>]*>/gi, '- ')
+		.replace(/<[^>]+>/g, '')
+		.replace(/&(#\d+|#x[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+			if (entity[0] === '#') {
+				const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+				return String.fromCodePoint(code);
+			}
+			return entities[entity.toLowerCase()] ?? match;
+		})
+		.replace(/\r/g, '')
+		.replace(/[ \t]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+// The PDF's standard fonts only cover WinAnsi; swap or drop anything else (e.g. emoji)
+function printable(text: string): string {
+	return text
+		.replace(/[‘’]/g, "'")
+		.replace(/[“”]/g, '"')
+		.replace(/[–—]/g, '-')
+		.replace(/…/g, '...')
+		.replace(/[^\n\x20-\x7e\xa0-\xff]/g, '');
+}
+
+export async function renderEvidencePdf(manifest: EvidenceManifest, images: SignatureImage[]): Promise<Uint8Array> {
+	const pdf = await PDFDocument.create();
+	pdf.setTitle(`Consent evidence for submission ${manifest.submissionId}`);
+	pdf.setCreationDate(new Date(manifest.generatedAt));
+	const regular = await pdf.embedFont(StandardFonts.Helvetica);
+	const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+	const margin = 50;
+	const width = 612 - margin * 2; // US Letter
+	let page: PDFPage = pdf.addPage([612, 792]);
+	let y = 792 - margin;
+
+	const ensureSpace = (height: number) => {
+		if (y - height < margin) {
+			page = pdf.addPage([612, 792]);
+			y = 792 - margin;
+		}
+	};
+	const write = (text: string, font: PDFFont = regular, size = 10) => {
+		for (const paragraph of printable(text).split('\n')) {
+			for (const line of wrap(paragraph, font, size, width)) {
+				ensureSpace(size + 4);
+				page.drawText(line, { x: margin, y: y - size, size, font, color: rgb(0, 0, 0) });
+				y -= size + 4;
+			}
+		}
+	};
+	const heading = (text: string) => {
+		y -= 8;
+		write(text, bold, 13);
+		y -= 2;
+	};
+
+	write('Consent evidence', bold, 18);
+	write(`Form: ${manifest.formTitle} (${manifest.formId})`);
+	write(`Submission: ${manifest.submissionId}`);
+	write(`Submitted at: ${manifest.createdAt}`);
+	write(`IP address: ${manifest.ip}`);
+	write(`User agent: ${manifest.userAgent ?? 'not recorded'}`);
+	write(`Geo stamp: ${manifest.geoStamp ? manifest.geoStamp.raw.replace(/\n/g, ', ') : 'not recorded'}`);
+	write(`Form text captured at: ${manifest.formSnapshotAt}`);
+	write(`Generated at: ${manifest.generatedAt}`);
+
+	heading('Text shown on the form');
+	for (const block of manifest.legalText) {
+		write(`[${block.name}]`, bold, 9);
+		write(htmlToText(block.html));
+		y -= 6;
+	}
+
+	heading('Answers');
+	for (const answer of manifest.answers) {
+		write(`${htmlToText(answer.label)}: ${answer.value}`);
+	}
+
+	heading('Signatures');
+	for (const signature of manifest.signatures) {
+		write(`${htmlToText(signature.label)} (${signature.name})`, bold, 10);
+		const image = images.find((candidate) => candidate.name === signature.name);
+		let embedded: PDFImage | undefined;
+		if (image) {
+			try {
+				embedded = image.contentType === 'image/jpeg' ? await pdf.embedJpg(image.bytes) : await pdf.embedPng(image.bytes);
+			} catch (error) {
+				console.warn(`Failed to embed signature ${signature.name}:`, error instanceof Error ? error.message : error);
+			}
+		}
+		if (embedded) {
+			const scaled = embedded.scaleToFit(width, 150);
+			ensureSpace(scaled.height + 4);
+			page.drawImage(embedded, { x: margin, y: y - scaled.height, width: scaled.width, height: scaled.height });
+			y -= scaled.height + 4;
+		} else {
+			write(`Image unavailable${signature.error ? `: ${signature.error}` : ''}`);
+		}
+		write(`Image SHA-256: ${signature.sha256 ?? 'n/a'}`, regular, 8);
+		write(`Source: ${signature.url}`, regular, 8);
+	}
+
+	return pdf.save();
+}
+
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+	const lines: string[] = [];
+	let line = '';
+	for (const word of text.split(' ')) {
+		const candidate = line ? `${line} ${word}` : word;
+		if (font.widthOfTextAtSize(candidate, size) <= width || !line) {
+			line = candidate;
+		} else {
+			lines.push(line);
+			line = word;
+		}
+	}
+	lines.push(line);
+	return lines;
+}
+
+// GET /submissions/:id/evidence. Serves the stored bundle, generating it first if the webhook never did.
+export async function handleGetEvidence(submissionId: string, format: string | undefined, env: Env, options: HandlerOptions = {}) {
+	try {
+		if (format !== undefined && format !== 'pdf' && format !== 'json') {
+			return Response.json({ error: 'Invalid query', message: 'format must be pdf or json' }, { status: 400 });
+		}
+
+		let evidence: StoredEvidence;
+		try {
+			evidence = await generateEvidence(submissionId, env, options);
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to get submission', error);
+			throw error;
+		}
+
+		if (format === 'json') {
+			return Response.json(evidence);
+		}
+
+		const pdf = await env.EVIDENCE.get(evidenceKey(submissionId, 'bundle.pdf'));
+		if (!pdf) {
+			return Response.json({ error: 'Evidence bundle not found', submissionId }, { status: 404 });
+		}
+		return new Response(pdf.body, {
+			headers: {
+				'Content-Type': 'application/pdf',
+				'Content-Disposition': `attachment; filename="evidence-${submissionId}.pdf"`,
+				'X-Evidence-SHA256': evidence.hashes['bundle.pdf'] ?? ''
+			}
+		});
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
@@ -0,0 +1,185 @@
+/**
+ * Typed input fields (config.fields) and the JotForm questions they become.
+ * The personalInfoFields toggles are shorthand for four of these.
+ */
+
+import type { FieldConfig, FieldType, FormConfig, JotFormQuestion } from './types';
+
+export const fieldTypes: Record<FieldType, string> = {
+	textbox: 'control_textbox',
+	textarea: 'control_textarea',
+	dropdown: 'control_dropdown',
+	checkbox: 'control_checkbox',
+	radio: 'control_radio',
+	date: 'control_datetime',
+	number: 'control_number',
+	file: 'control_fileupload',
+	email: 'control_email',
+	phone: 'control_phone',
+	fullname: 'control_fullname',
+	address: 'control_address'
+};
+
+// Types whose answer has parts, each with its own sublabel
+export const defaultSublabels: Partial<Record<FieldType, Record<string, string>>> = {
+	fullname: { prefix: 'Prefix', first: 'First Name', middle: 'Middle Name', last: 'Last Name', suffix: 'Suffix' },
+	address: {
+		addr_line1: 'Street Address',
+		addr_line2: 'Street Address Line 2',
+		city: 'City',
+		state: 'State',
+		postal: 'Zip Code',
+		country: 'Country'
+	},
+	phone: { country: 'Country Code', area: 'Area Code', phone: 'Phone Number', full: 'Phone Number', masked: 'Please enter a valid phone number.' },
+	date: { month: 'Month', day: 'Day', year: 'Year', litemode: 'Date' }
+};
+
+export const defaultPhoneMask = '(###) ###-####';
+
+const defaultExtensions = ['pdf', 'doc', 'docx', 'jpg', 'jpeg', 'png'];
+
+// What each personalInfoFields toggle stands for
+export const personalInfoFieldDefinitions: Array<{ toggle: 'includeName' | 'includeAddress' | 'includeEmail' | 'includePhone'; field: FieldConfig }> = [
+	{ toggle: 'includeName', field: { type: 'fullname', name: 'name', label: 'Name *', required: true } },
+	{ toggle: 'includeAddress', field: { type: 'address', name: 'address', label: 'Address *', required: true } },
+	{ toggle: 'includeEmail', field: { type: 'email', name: 'email', label: 'Email *', required: true } },
+	{ toggle: 'includePhone', field: { type: 'phone', name: 'phoneNumber', label: 'Phone Number *', required: true, inputMask: defaultPhoneMask } }
+];
+
+// The toggled personal info fields followed by config.fields, in page order
+export function formFields(config: Pick<FormConfig, 'personalInfoFields' | 'fields'>): FieldConfig[] {
+	const toggled = personalInfoFieldDefinitions.filter(({ toggle }) => config.personalInfoFields?.[toggle]).map(({ field }) => field);
+	return [...toggled, ...(config.fields || [])];
+}
+
+export function fieldQuestion(field: FieldConfig, order: string): JotFormQuestion {
+	const question: JotFormQuestion = {
+		type: fieldTypes[field.type],
+		text: field.label,
+		order,
+		name: field.name,
+		required: field.required ? 'Yes' : 'No',
+		labelAlign: 'Auto'
+	};
+
+	const sublabels = defaultSublabels[field.type];
+	if (sublabels) {
+		question.sublabels = JSON.stringify({ ...sublabels, ...field.sublabels });
+	} else if (field.sublabel) {
+		question.subLabel = field.sublabel;
+	}
+
+	switch (field.type) {
+		case 'dropdown':
+			Object.assign(question, { options: (field.options || []).join('|'), special: 'None', emptyText: field.placeholder || 'Please Select' });
+			break;
+		case 'checkbox':
+		case 'radio':
+			Object.assign(question, { options: (field.options || []).join('|'), special: 'None', allowOther: 'No', spreadCols: '1' });
+			break;
+		case 'date':
+			Object.assign(question, { format: field.dateFormat || 'mmddyyyy', separator: '/', allowTime: 'No', liteMode: 'Yes' });
+			break;
+		case 'file':
+			Object.assign(question, {
+				extensions: (field.extensions || defaultExtensions).join(', '),
+				maxFileSize: String(field.maxFileSizeKB ?? 10240),
+				allowMultiple: 'No'
+			});
+			break;
+		case 'phone':
+			Object.assign(question, {
+				validation: 'None',
+				countryCode: 'No',
+				inputMask: field.inputMask ? 'enable' : 'disable',
+				...(field.inputMask ? { inputMaskValue: field.inputMask } : {})
+			});
+			break;
+		default:
+			// Text-like inputs: textbox, textarea, number, email, fullname, address
+			question.validation = field.type === 'email' ? 'Email' : field.validation || 'None';
+			if (field.type === 'textbox' && field.inputMask) {
+				Object.assign(question, { inputMask: 'enable', inputMaskValue: field.inputMask });
+			}
+			if (field.maxLength !== undefined) {
+				if (field.type === 'textarea') question.entryLimit = `Characters-${field.maxLength}`;
+				else question.maxsize = String(field.maxLength);
+			}
+			if (field.min !== undefined) question.minValue = String(field.min);
+			if (field.max !== undefined) question.maxValue = String(field.max);
+			break;
+	}
+
+	if (field.placeholder && field.type !== 'dropdown') question.hint = field.placeholder;
+	if (field.defaultValue !== undefined) question.defaultValue = field.defaultValue;
+	if (!['dropdown', 'checkbox', 'radio', 'date', 'file'].includes(field.type)) {
+		question.size = '20';
+		question.readonly = field.readonly ? 'Yes' : 'No';
+	}
+
+	return question;
+}
+
+// The reverse of fieldQuestion, for a live question of one of the field types. Only what differs from the defaults is kept.
+export function questionField(question: { type: string; name: string; text: string; [key: string]: any }): FieldConfig | undefined {
+	const type = (Object.keys(fieldTypes) as FieldType[]).find((key) => fieldTypes[key] === question.type);
+	if (!type) return undefined;
+
+	const field: FieldConfig = { type, name: question.name, label: question.text };
+	const numeric = (value: unknown) => (value !== undefined && value !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined);
+
+	if (question.required === 'Yes') field.required = true;
+	if (defaultSublabels[type]) {
+		const sublabels = parseSublabels(question.sublabels);
+		const changed = Object.entries(sublabels).filter(([key, label]) => key in defaultSublabels[type]! && defaultSublabels[type]![key] !== label);
+		if (changed.length > 0) field.sublabels = Object.fromEntries(changed);
+	} else if (question.subLabel) {
+		field.sublabel = question.subLabel;
+	}
+
+	if (type === 'dropdown' || type === 'checkbox' || type === 'radio') {
+		field.options = String(question.options ?? '').split('|').filter(Boolean);
+	}
+	if (type === 'dropdown' && question.emptyText && question.emptyText !== 'Please Select') {
+		field.placeholder = question.emptyText;
+	} else if (type !== 'dropdown' && question.hint) {
+		field.placeholder = question.hint;
+	}
+	if (question.defaultValue) field.defaultValue = question.defaultValue;
+	if (question.readonly === 'Yes') field.readonly = true;
+
+	if (type === 'textbox' && question.validation && question.validation !== 'None') field.validation = question.validation;
+	if ((type === 'textbox' || type === 'phone') && question.inputMask === 'enable' && question.inputMaskValue) field.inputMask = question.inputMaskValue;
+	const maxLength = type === 'textarea' ? numeric(String(question.entryLimit ?? '').match(/^Characters-(\d+)$/)?.[1]) : type === 'textbox' ? numeric(question.maxsize) : undefined;
+	if (maxLength !== undefined) field.maxLength = maxLength;
+	if (type === 'number') {
+		const min = numeric(question.minValue);
+		const max = numeric(question.maxValue);
+		if (min !== undefined) field.min = min;
+		if (max !== undefined) field.max = max;
+	}
+	if (type === 'date' && question.format && question.format !== 'mmddyyyy') field.dateFormat = question.format;
+	if (type === 'file') {
+		const extensions = String(question.extensions ?? '').split(/\s*,\s*/).filter(Boolean);
+		if (extensions.length > 0 && extensions.join() !== defaultExtensions.join()) field.extensions = extensions;
+		const maxFileSizeKB = numeric(question.maxFileSize);
+		if (maxFileSizeKB !== undefined && maxFileSizeKB !== 10240) field.maxFileSizeKB = maxFileSizeKB;
+	}
+
+	return field;
+}
+
+// True when two fields produce the same question
+export function sameField(a: FieldConfig, b: FieldConfig): boolean {
+	return JSON.stringify(fieldQuestion({ ...a, after: undefined }, '')) === JSON.stringify(fieldQuestion({ ...b, after: undefined }, ''));
+}
+
+function parseSublabels(value: unknown): Record<string, string> {
+	if (typeof value === 'object' && value !== null) return value as Record<string, string>;
+	try {
+		return typeof value === 'string' ? JSON.parse(value) : {};
+	} catch {
+		return {};
+	}
+}
@@ -0,0 +1,184 @@
+/**
+ * Diffs a desired FormConfig against a live form, matching questions by name
+ */
+
+import { buildConditions, buildFormData } from './form-builder';
+import { parseCondition } from './form-export';
+import type { JotFormCall, JotFormQuestionRecord } from './jotform-client';
+import type { FormCondition, FormConfig, JotFormQuestion, ThemeConfig } from './types';
+
+export interface Change {
+	from: any;
+	to: any;
+}
+
+export interface FormDiff {
+	questions: {
+		add: JotFormQuestion[];
+		update: Array<{ qid: string; name: string; changes: Record<string, Change> }>;
+		delete: Array<{ qid: string; name: string; type: string }>;
+	};
+	properties: Record<string, Change>;
+	emails?: Change; // Only when the email list differs; it is replaced as a whole
+	conditions?: FormCondition[]; // Only when they differ; they are replaced as a whole, by name
+	webhookURL?: string; // Only when the form doesn't have it yet
+}
+
+export function diffForm(
+	config: FormConfig,
+	liveQuestions: Record<string, JotFormQuestionRecord>,
+	liveProperties: Record<string, any>,
+	liveWebhooks: string[] = [],
+	theme?: ThemeConfig
+): FormDiff {
+	const desired = buildFormData(config, theme);
+	const liveByName = new Map(Object.entries(liveQuestions).map(([qid, question]): [string, JotFormQuestionRecord & { qid: string }] => [question.name, { ...question, qid }]));
+	const desiredNames = new Set(desired.questions.map((question: JotFormQuestion) => question.name));
+
+	const diff: FormDiff = { questions: { add: [], update: [], delete: [] }, properties: {} };
+
+	// Questions: add what's missing, update what differs, delete what's no longer in the config
+	for (const question of desired.questions as JotFormQuestion[]) {
+		const live = liveByName.get(question.name);
+		if (!live) {
+			diff.questions.add.push(question);
+			continue;
+		}
+
+		const changes: Record<string, Change> = {};
+		for (const [key, value] of Object.entries(question)) {
+			if (key !== 'type' && String(live[key] ?? '') !== String(value)) {
+				changes[key] = { from: live[key], to: String(value) };
+			}
+		}
+		if (live.type !== question.type) {
+			// JotForm can't change a question's type in place
+			diff.questions.delete.push({ qid: live.qid, name: live.name, type: live.type });
+			diff.questions.add.push(question);
+		} else if (Object.keys(changes).length > 0) {
+			diff.questions.update.push({ qid: live.qid, name: question.name, changes });
+		}
+	}
+	for (const live of liveByName.values()) {
+		if (!desiredNames.has(live.name)) {
+			diff.questions.delete.push({ qid: live.qid, name: live.name, type: live.type });
+		}
+	}
+
+	// Properties
+	for (const [key, value] of Object.entries(desired.properties as Record<string, any>)) {
+		if (String(liveProperties[key] ?? '') !== String(value)) {
+			diff.properties[key] = { from: liveProperties[key], to: String(value) };
+		}
+	}
+
+	// Emails, compared on what the config controls
+	const liveEmails = Array.isArray(liveProperties.emails) ? liveProperties.emails : [];
+	if (JSON.stringify(liveEmails.map(emailSummary)) !== JSON.stringify(desired.emails.map(emailSummary))) {
+		diff.emails = { from: liveEmails, to: desired.emails };
+	}
+
+	// Conditions, compared by question name
+	const namesByQid = Object.fromEntries(Object.entries(liveQuestions).map(([qid, question]) => [qid, question.name]));
+	const liveConditions = (Array.isArray(liveProperties.conditions) ? liveProperties.conditions : []).map((raw: any) => parseCondition(raw, namesByQid));
+	const desiredConditions = buildConditions(config);
+	if (JSON.stringify(liveConditions.map(normalizeCondition)) !== JSON.stringify(desiredConditions.map(normalizeCondition))) {
+		diff.conditions = desiredConditions;
+	}
+
+	if (config.webhookURL && !liveWebhooks.includes(config.webhookURL)) {
+		diff.webhookURL = config.webhookURL;
+	}
+
+	return diff;
+}
+
+export function isEmptyDiff(diff: FormDiff): boolean {
+	return (
+		diff.questions.add.length === 0 &&
+		diff.questions.update.length === 0 &&
+		diff.questions.delete.length === 0 &&
+		Object.keys(diff.properties).length === 0 &&
+		!diff.emails &&
+		!diff.conditions &&
+		!diff.webhookURL
+	);
+}
+
+// The question and property calls for a diff, in the order they are sent: adds, updates, properties, then deletes.
+// Conditions aren't included since they need the qids of the added questions.
+export function diffCalls(formId: string, diff: FormDiff): { changes: JotFormCall[]; deletes: JotFormCall[] } {
+	const changes: JotFormCall[] = [];
+
+	if (diff.questions.add.length > 0) {
+		changes.push({
+			description: 'add questions',
+			method: 'PUT',
+			path: `/form/${formId}/questions`,
+			json: { questions: Object.fromEntries(diff.questions.add.map((question, index) => [String(index + 1), question])) }
+		});
+	}
+
+	for (const update of diff.questions.update) {
+		const form: Record<string, string> = {};
+		for (const [key, change] of Object.entries(update.changes)) {
+			form[`question[${key}]`] = change.to;
+		}
+		changes.push({ description: `update question ${update.name}`, method: 'POST', path: `/form/${formId}/question/${update.qid}`, form });
+	}
+
+	const properties: Record<string, string> = {};
+	for (const [key, change] of Object.entries(diff.properties)) {
+		properties[`properties[${key}]`] = change.to;
+	}
+	if (diff.emails) {
+		properties['properties[emails]'] = JSON.stringify(diff.emails.to);
+	}
+	if (Object.keys(properties).length > 0) {
+		changes.push({ description: 'update properties', method: 'POST', path: `/form/${formId}/properties`, form: properties });
+	}
+
+	if (diff.webhookURL) {
+		changes.push({ description: 'add webhook', method: 'POST', path: `/form/${formId}/webhooks`, form: { webhookURL: diff.webhookURL } });
+	}
+
+	// Deleted last, so a failure part-way never leaves the form missing questions it should have
+	const deletes: JotFormCall[] = diff.questions.delete.map((question) => ({
+		description: `delete question ${question.name}`,
+		method: 'DELETE',
+		path: `/form/${formId}/question/${question.qid}`
+	}));
+
+	return { changes, deletes };
+}
+
+function emailSummary(email: any) {
+	return {
+		type: email?.type,
+		name: email?.name,
+		to: email?.to,
+		from: email?.from,
+		replyTo: email?.replyTo || undefined,
+		bcc: email?.bcc || undefined,
+		subject: email?.subject,
+		body: email?.body || undefined
+	};
+}
+
+function normalizeCondition(condition: FormCondition | undefined) {
+	if (!condition) return undefined;
+	return {
+		type: condition.type || 'field',
+		link: condition.link,
+		terms: condition.terms.map((term) => ({ field: term.field, operator: term.operator, value: term.value })),
+		actions: condition.actions.map((action) =>
+			action.skipTo !== undefined
+				? { skipTo: action.skipTo }
+				: action.redirect !== undefined
+					? { redirect: action.redirect }
+					: action.email !== undefined
+						? { email: action.email }
+						: { field: action.field, visibility: action.visibility }
+		)
+	};
+}
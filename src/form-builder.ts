@@ -0,0 +1,558 @@
+/**
+ * Builds JotForm payloads (questions, properties, emails and conditions) from a FormConfig
+ */
+
+import { fieldQuestion, formFields } from './fields';
+import type { DisqualificationConfig, EligibilityQuestion, EmailConfig, FormCondition, FormConfig, FormPage, JotFormQuestion, ThemeConfig, ThemeHeader } from './types';
+
+// Properties every created form starts with; config.properties overrides them
+export const defaultProperties: Record<string, string> = {
+	height: '600',
+	formWidth: '752',
+	labelWidth: '230',
+	font: 'Inter',
+	fontsize: '14',
+	fontcolor: '#121212',
+	background: 'rgba(255,255,255,0)',
+	pageColor: '#F3F3FE',
+	alignment: 'Top',
+	styles: 'nova',
+	themeID: '5e6b428acc8c4e222d1beb91',
+	showProgressBar: 'disable',
+	errorNavigation: 'Yes',
+	highlightLine: 'Enabled',
+	responsive: 'No'
+};
+
+export const defaultLineSpacing = '4';
+
+// Widget IDs and names of the invisible data collectors in config.widgets
+export const widgetDefinitions = {
+	userAgent: { cfname: 'Get User Agent', selectedField: '543ea3eb3066feaa30000036' },
+	geoStamp: { cfname: 'Geo Stamp', selectedField: '5935688a725d1797050002e7' }
+};
+
+export const defaultEmailSubject = 'New Form Submission';
+export const defaultAutoresponderSubject = 'We received your submission';
+
+export const defaultSubmitText = 'Submit';
+
+// Build the questions, properties and emails payload sent to PUT /form, with the config's theme (see themes.ts) if it has one
+export function buildFormData(config: FormConfig, theme?: ThemeConfig) {
+	// Build questions array
+	const questions: JotFormQuestion[] = [];
+	let orderCounter = 1;
+
+	// Add header
+	questions.push({
+		type: 'control_head',
+		text: config.title || 'Form Title',
+		order: String(orderCounter++),
+		name: 'header',
+		...(theme?.header ? headerSettings(theme.header) : {})
+	});
+
+	// Add eligibility questions
+	if (config.eligibilityQuestions) {
+		for (const eq of config.eligibilityQuestions) {
+			questions.push({
+				type: 'control_radio',
+				text: eq.text,
+				order: String(orderCounter++),
+				name: eq.name,
+				required: eq.required ? 'Yes' : 'No',
+				options: 'Yes|No'
+			});
+		}
+	}
+
+	// Add disqualification message (hidden until a disqualifying answer is given)
+	if (config.disqualification) {
+		questions.push({
+			type: 'control_text',
+			text: config.disqualification.message,
+			order: String(orderCounter++),
+			name: disqualificationMessageName(config.disqualification)
+		});
+	}
+
+	// Skip page break - keep everything on same page for conditionals
+
+	// Add legal text before personal info
+	if (config.legalTextBlocks) {
+		for (let i = 0; i < config.legalTextBlocks.length; i++) {
+			const block = config.legalTextBlocks[i];
+			if (i === 0) { // First legal block typically goes before personal info
+				questions.push({
+					type: 'control_text',
+					text: block.content,
+					order: String(orderCounter++),
+					name: block.name || `legalText${i}`
+				});
+			}
+		}
+	}
+
+	// Add personal info fields (the toggled ones, then config.fields); fields with `after` are placed at the end
+	const fields = formFields(config);
+	for (const field of fields) {
+		if (!field.after) {
+			questions.push(fieldQuestion(field, String(orderCounter++)));
+		}
+	}
+
+	// Add page break before signature section
+	questions.push({
+		type: 'control_pagebreak',
+		text: 'Page Break',
+		order: String(orderCounter++),
+		name: 'pageBreak2'
+	});
+
+	// Add remaining legal text blocks
+	if (config.legalTextBlocks) {
+		for (let i = 1; i < config.legalTextBlocks.length; i++) {
+			const block = config.legalTextBlocks[i];
+			questions.push({
+				type: 'control_text',
+				text: block.content,
+				order: String(orderCounter++),
+				name: block.name || `legalText${i}`
+			});
+		}
+	}
+
+	// Add signature fields
+	if (config.signatureFields) {
+		for (const sig of config.signatureFields) {
+			questions.push({
+				type: 'control_signature',
+				text: sig.text,
+				order: String(orderCounter++),
+				name: sig.name,
+				required: sig.required ? 'Yes' : 'No',
+				size: sig.size || '600', // Wider signature box by default
+				labelAlign: 'Auto',
+				validation: 'None'
+			});
+		}
+	}
+
+	// Add captcha (invisible reCAPTCHA)
+	if (config.includeCaptcha) {
+		questions.push({
+			type: 'control_captcha',
+			text: 'Please verify that you are human',
+			order: String(orderCounter++),
+			name: 'captcha',
+			captchaType: 'invisible', // Use invisible reCAPTCHA
+			useInvisibleRecaptcha: 'Yes'
+		});
+	}
+
+	// Add submit button
+	questions.push({
+		type: 'control_button',
+		text: config.submitText || defaultSubmitText,
+		order: String(orderCounter++),
+		name: 'submit'
+	});
+
+	// Add hidden fields at the beginning with proper order
+	if (config.hiddenFields) {
+		for (const field of config.hiddenFields) {
+			questions.unshift({
+				type: 'control_textbox',
+				text: field.text,
+				order: String(config.hiddenFields.indexOf(field) + 1),
+				name: field.name,
+				hidden: 'Yes',
+				labelAlign: 'Auto',
+				validation: 'None',
+				size: '20',
+				required: 'No',
+				readonly: field.readonly ? 'Yes' : 'No',
+				...(field.defaultValue ? { defaultValue: field.defaultValue } : {})
+			});
+		}
+		// Reorder all other questions
+		for (let i = config.hiddenFields.length; i < questions.length; i++) {
+			questions[i].order = String(i + 1);
+		}
+	}
+
+	// Add widgets (invisible data collectors)
+	if (config.widgets) {
+		for (const widget of config.widgets) {
+			if (widget.type === 'userAgent') {
+				questions.push({
+					type: 'control_widget',
+					text: 'userAgent', // Empty text so it doesn't show as a field label
+					order: String(orderCounter++),
+					name: widget.name,
+					...widgetDefinitions.userAgent,
+					static: 'No',
+					hidden: 'Yes' // Hide the widget from view
+				});
+			} else if (widget.type === 'geoStamp') {
+				questions.push({
+					type: 'control_widget',
+					text: 'geoStamp', // Empty text so it doesn't show as a field label
+					order: String(orderCounter++),
+					name: widget.name,
+					...widgetDefinitions.geoStamp,
+					static: 'No',
+					hidden: 'Yes' // Hide the widget from view
+				});
+			}
+		}
+	}
+
+	// Place fields that follow a given question, keeping config order when several follow the same one
+	const placedAfter = new Map<JotFormQuestion, string>();
+	for (const field of fields) {
+		if (!field.after) continue;
+		let index = questions.findIndex((question) => question.name === field.after);
+		if (index === -1) index = questions.length - 1;
+		while (index + 1 < questions.length && placedAfter.get(questions[index + 1]) === field.after) index++;
+		const question = fieldQuestion(field, '0');
+		placedAfter.set(question, field.after);
+		questions.splice(index + 1, 0, question);
+	}
+	if (placedAfter.size > 0) {
+		questions.forEach((question, index) => (question.order = String(index + 1)));
+	}
+
+	// Lay the questions out in the configured pages instead
+	if (config.pages) {
+		questions.splice(0, questions.length, ...layoutPages(questions, config.pages));
+	}
+
+	// Prepare the form data for JotForm API with properties matching the original
+	const css = [theme?.css, config.injectCSS || config.customCSS].filter(Boolean).join('\n');
+	const formData: any = {
+		properties: {
+			title: config.title || 'New Form',
+			...defaultProperties,
+			// The theme's look, then the form's own settings on top
+			...theme?.properties,
+			lineSpacing: config.lineLayout?.lineSpacing || config.lineLayout?.verticalPadding || theme?.properties?.lineSpacing || defaultLineSpacing,
+			...(config.progressBar !== undefined ? { showProgressBar: config.progressBar ? 'enable' : 'disable' } : {}),
+			// Add custom CSS if provided (support both customCSS and injectCSS), after the theme's
+			...(css ? { injectCSS: css } : {}),
+			// Add horizontal padding if specified
+			...(config.lineLayout?.horizontalPadding ? { horizontalPadding: config.lineLayout.horizontalPadding } : {}),
+			...config.properties
+		},
+		questions: questions,
+		emails: buildEmails(config)
+	};
+
+	return formData;
+}
+
+// The properties a theme sets, with the form's own CSS after the theme's
+export function themeProperties(theme: ThemeConfig | undefined, formCSS?: string): Record<string, string> {
+	const css = [theme?.css, formCSS].filter(Boolean).join('\n');
+	return { ...theme?.properties, ...(css ? { injectCSS: css } : {}) };
+}
+
+// A theme's header settings as header (control_head) question properties
+export function headerSettings(header: ThemeHeader): Record<string, string> {
+	return {
+		...(header.logoURL !== undefined ? { headerImage: header.logoURL } : {}),
+		...(header.logoAlign ? { imageAlign: header.logoAlign } : {}),
+		...(header.subHeader !== undefined ? { subHeader: header.subHeader } : {}),
+		...(header.size ? { headerType: header.size } : {}),
+		...(header.alignment ? { alignment: header.alignment } : {})
+	};
+}
+
+// An email as JotForm stores it in the form's properties
+export interface JotFormEmail {
+	type: string; // 'notification' or 'autorespond'
+	name: string;
+	from: string;
+	to: string;
+	subject: string;
+	html: string;
+	body?: string;
+	replyTo?: string;
+	bcc?: string;
+	sendOnSubmit?: string;
+}
+
+// What emails and their conditions are built from; template and update configs have some of a FormConfig
+export type EmailSource = Pick<FormConfig, 'emailNotification' | 'emails' | 'eligibilityQuestions' | 'personalInfoFields' | 'fields'>;
+
+// {name.first} to JotForm's {name:first}
+export function emailTags(text: string): string {
+	return text.replace(/\{(\w+)\.(\w+)\}/g, '{$1:$2}');
+}
+
+// The question an autoresponder replies to: the first email field
+export function claimantEmailField(config: EmailSource): string {
+	return formFields(config).find((field) => field.type === 'email')?.name ?? 'email';
+}
+
+export function emailName(email: EmailConfig, emails: EmailConfig[]): string {
+	return email.name || `${email.type}${emails.filter((other) => other.type === email.type).indexOf(email) + 1}`;
+}
+
+// emailNotification first, then config.emails in order; a 'mail' condition refers to an email by its position here
+export function buildEmails(config: EmailSource): JotFormEmail[] {
+	const emails: JotFormEmail[] = [];
+
+	// Add email notification if configured
+	if (config.emailNotification) {
+		emails.push({
+			type: 'notification',
+			name: 'notification',
+			from: config.emailNotification.from || 'default',
+			to: config.emailNotification.to,
+			subject: config.emailNotification.subject || defaultEmailSubject,
+			html: 'true'
+		});
+	}
+
+	for (const email of config.emails || []) {
+		const autoresponder = email.type === 'autoresponder';
+		emails.push({
+			type: autoresponder ? 'autorespond' : 'notification',
+			name: emailName(email, config.emails!),
+			from: email.from || 'default',
+			to: email.to ?? (autoresponder ? `{${claimantEmailField(config)}}` : ''),
+			subject: emailTags(email.subject || (autoresponder ? defaultAutoresponderSubject : defaultEmailSubject)),
+			html: '1',
+			...(email.body ? { body: emailTags(email.body) } : {}),
+			...(email.replyTo ? { replyTo: emailTags(email.replyTo) } : {}),
+			...(email.bcc ? { bcc: email.bcc } : {}),
+			sendOnSubmit: '1'
+		});
+	}
+
+	return emails;
+}
+
+// One 'mail' condition per conditional email, so it's only sent when its terms hold
+export function buildEmailConditions(config: EmailSource): FormCondition[] {
+	const offset = config.emailNotification ? 1 : 0;
+	const conditions: FormCondition[] = [];
+	(config.emails || []).forEach((email, index) => {
+		if (!email.condition) return;
+		const { terms, link } =
+			email.condition === 'eligible'
+				? { terms: (config.eligibilityQuestions || []).map((eq) => ({ field: eq.name, operator: 'equals', value: qualifyingAnswer(eq) })), link: 'All' as const }
+				: email.condition;
+		if (terms.length === 0) return;
+		conditions.push({ type: 'mail', link: link || 'All', terms, actions: [{ email: String(index + offset) }] });
+	});
+	return conditions;
+}
+
+// The page break that starts a page; the first page has none
+export function pageBreakName(page: FormPage, index: number): string {
+	return page.name || `pageBreak${index + 1}`;
+}
+
+// Reorder the questions into pages, each after its page break. The header and hidden fields stay in front; anything
+// no page lists (widgets, the captcha, the submit button) goes at the end of the last page. The default page break is dropped.
+function layoutPages(questions: JotFormQuestion[], pages: FormPage[]): JotFormQuestion[] {
+	const byName = new Map(questions.map((question) => [question.name, question]));
+	const listed = new Set(pages.flatMap((page) => page.blocks));
+	const unlisted = questions.filter((question) => !listed.has(question.name) && question.type !== 'control_pagebreak');
+	const front = unlisted.filter((question) => question.type === 'control_head' || (question.type === 'control_textbox' && question.hidden === 'Yes'));
+
+	const laidOut = [...front];
+	pages.forEach((page, index) => {
+		if (index > 0) {
+			laidOut.push({
+				type: 'control_pagebreak',
+				text: page.title || 'Page Break',
+				order: '',
+				name: pageBreakName(page, index),
+				...(page.nextText ? { nextText: page.nextText } : {}),
+				...(page.backText ? { backText: page.backText } : {})
+			});
+		}
+		for (const name of page.blocks) {
+			const question = byName.get(name);
+			if (question) laidOut.push(question);
+		}
+	});
+	laidOut.push(...unlisted.filter((question) => !front.includes(question)));
+
+	laidOut.forEach((question, index) => (question.order = String(index + 1)));
+	return laidOut;
+}
+
+// Build the form's conditions by question name, so they don't depend on the qids JotForm assigns
+export function buildConditions(config: FormConfig): FormCondition[] {
+	const conditions: FormCondition[] = [];
+
+	if (config.enableConditionals && config.showPersonalInfoOnlyIfEligible && config.eligibilityQuestions) {
+		const personalInfoNames: string[] = [];
+
+		// Also include the first legal text block in the conditional
+		if (config.legalTextBlocks && config.legalTextBlocks.length > 0) {
+			personalInfoNames.push(config.legalTextBlocks[0].name || 'legalText0');
+		}
+
+		// Fields placed elsewhere with `after` aren't part of the personal info
+		personalInfoNames.push(...formFields(config).filter((field) => !field.after).map((field) => field.name));
+
+		// Create condition: Show personal info only if all eligibility questions are "Yes"
+		if (config.eligibilityQuestions.length > 0 && personalInfoNames.length > 0) {
+			conditions.push({
+				link: 'All',
+				terms: config.eligibilityQuestions.map((eq) => ({ field: eq.name, operator: 'equals', value: qualifyingAnswer(eq) })),
+				actions: personalInfoNames.map((name) => ({ field: name, visibility: 'Show' }))
+			});
+		}
+	}
+
+	if (config.disqualification && config.eligibilityQuestions) {
+		conditions.push(...buildDisqualificationConditions(config.eligibilityQuestions, config.disqualification, qualifiedOnlyNames(config)));
+	}
+
+	conditions.push(...buildEmailConditions(config));
+
+	if (config.conditions) {
+		conditions.push(...config.conditions);
+	}
+
+	return conditions;
+}
+
+// What disqualified claimants don't get to see: the signature page (or, with config.pages, every page after the
+// last eligibility question), the signatures and the submit button
+function qualifiedOnlyNames(config: FormConfig): string[] {
+	const names = [...(config.signatureFields || []).map((sig) => sig.name), 'submit'];
+	if (!config.pages) {
+		return [
+			'pageBreak2',
+			...(config.legalTextBlocks || []).slice(1).map((block, i) => block.name || `legalText${i + 1}`),
+			...names
+		];
+	}
+
+	const eligibilityNames = new Set((config.eligibilityQuestions || []).map((eq) => eq.name));
+	let lastEligibilityPage = -1;
+	config.pages.forEach((page, index) => {
+		if (page.blocks.some((name) => eligibilityNames.has(name))) lastEligibilityPage = index;
+	});
+	const later = config.pages.flatMap((page, index) =>
+		index > lastEligibilityPage ? [...(index > 0 ? [pageBreakName(page, index)] : []), ...page.blocks] : []
+	);
+	const message = config.disqualification ? disqualificationMessageName(config.disqualification) : undefined;
+	return [...new Set([...later.filter((name) => name !== message), ...names])];
+}
+
+function qualifyingAnswer(question: EligibilityQuestion): 'Yes' | 'No' {
+	return question.qualifyingAnswer || 'Yes';
+}
+
+function disqualifyingAnswer(question: EligibilityQuestion): 'Yes' | 'No' {
+	return question.disqualifyingAnswer || (qualifyingAnswer(question) === 'Yes' ? 'No' : 'Yes');
+}
+
+export const defaultDisqualificationMessageName = 'disqualification_message';
+
+export function disqualificationMessageName(disqualification: DisqualificationConfig): string {
+	return disqualification.name || defaultDisqualificationMessageName;
+}
+
+// Conditions for when any eligibility question gets its disqualifying answer: show the message,
+// hide the given questions (signature page, submit button), then optionally skip ahead or redirect
+export function buildDisqualificationConditions(
+	eligibilityQuestions: EligibilityQuestion[],
+	disqualification: DisqualificationConfig,
+	hiddenNames: string[]
+): FormCondition[] {
+	if (eligibilityQuestions.length === 0) {
+		return [];
+	}
+
+	const terms = eligibilityQuestions.map((eq) => ({ field: eq.name, operator: 'equals', value: disqualifyingAnswer(eq) }));
+	const conditions: FormCondition[] = [{
+		link: 'Any',
+		terms,
+		actions: [
+			{ field: disqualificationMessageName(disqualification), visibility: 'Show' },
+			...hiddenNames.map((name) => ({ field: name, visibility: 'Hide' as const }))
+		]
+	}];
+
+	if (disqualification.skipToEnd) {
+		conditions.push({ type: 'page', link: 'Any', terms, actions: [{ skipTo: 'end' }] });
+	}
+
+	if (disqualification.redirectURL) {
+		conditions.push({ type: 'url', link: 'Any', terms, actions: [{ redirect: disqualification.redirectURL }] });
+	}
+
+	return conditions;
+}
+
+// Map question names to qids from a GET /form/{id}/questions content object
+export function questionIdsByName(questions: Record<string, any>): Record<string, string> {
+	const questionsByName: Record<string, string> = {};
+	for (const [qid, question] of Object.entries(questions)) {
+		if (question && typeof question === 'object' && 'name' in question) {
+			questionsByName[(question as any).name] = qid;
+		}
+	}
+	return questionsByName;
+}
+
+export function needsQuestionIds(conditions: FormCondition[]): boolean {
+	return conditions.some((condition) =>
+		[...condition.terms, ...condition.actions].some((item) => item.field !== undefined && !/^\d+$/.test(item.field))
+	);
+}
+
+// Convert conditions to JotForm's format, resolving question names to qids.
+// Fields that are neither a known name nor a qid are left as-is and reported in unresolved.
+export function formatConditions(conditions: FormCondition[], qidsByName: Record<string, string>) {
+	const unresolved: string[] = [];
+	const resolveField = (field: string) => {
+		if (qidsByName[field]) return qidsByName[field];
+		if (!/^\d+$/.test(field) && !unresolved.includes(field)) unresolved.push(field);
+		return field;
+	};
+
+	const formatted = conditions.map((condition, index) => ({
+		id: condition.id || `condition_${Date.now()}_${index}`,
+		index: String(index),
+		link: condition.link,
+		priority: String(index),
+		type: condition.type || 'field',
+		terms: JSON.stringify(condition.terms.map((term, termIndex) => ({
+			id: `term_${Date.now()}_${termIndex}`,
+			field: resolveField(term.field),
+			operator: term.operator,
+			value: term.value,
+			isError: false
+		}))),
+		action: JSON.stringify(condition.actions.map((action, actionIndex) => {
+			const id = `action_${Date.now()}_${actionIndex}`;
+			if (action.skipTo !== undefined) {
+				return { id, skipTo: action.skipTo, isError: false };
+			}
+			if (action.redirect !== undefined) {
+				return { id, redirect: action.redirect, isError: false };
+			}
+			if (action.email !== undefined) {
+				return { id, email: action.email, visibility: 'Send', isError: false };
+			}
+			return {
+				id,
+				visibility: action.visibility,
+				isError: false,
+				field: resolveField(action.field || '')
+			};
+		}))
+	}));
+
+	return { formatted, unresolved };
+}
@@ -0,0 +1,355 @@
+/**
+ * Reconstructs a FormConfig from a live form's questions and properties (the reverse of form-builder)
+ */
+
+import { personalInfoFieldDefinitions, questionField, sameField } from './fields';
+import {
+	buildFormData,
+	claimantEmailField,
+	defaultAutoresponderSubject,
+	defaultDisqualificationMessageName,
+	defaultSubmitText,
+	defaultEmailSubject,
+	defaultLineSpacing,
+	defaultProperties,
+	widgetDefinitions
+} from './form-builder';
+import type { JotFormQuestionRecord } from './jotform-client';
+import type { EligibilityQuestion, EmailConfig, FormCondition, FormConfig, FormPage, JotFormQuestion } from './types';
+
+// A question that has no place in a FormConfig
+export interface UnmappedQuestion {
+	qid: string;
+	name: string;
+	type: string;
+	text: string;
+}
+
+export interface ExportedFormConfig {
+	config: FormConfig;
+	unmapped: UnmappedQuestion[];
+	warnings: string[]; // Conditions and emails that were left out
+}
+
+// Names the builder gives the header, page break, captcha and submit button
+const layoutNames: Record<string, string> = { control_head: 'header', control_pagebreak: 'pageBreak2', control_captcha: 'captcha', control_button: 'submit' };
+
+export function exportFormConfig(questions: Record<string, JotFormQuestionRecord>, properties: Record<string, any>): ExportedFormConfig {
+	const sorted = Object.entries(questions)
+		.map(([qid, question]): JotFormQuestionRecord & { qid: string } => ({ ...question, qid }))
+		.sort((a, b) => Number(a.order) - Number(b.order));
+	const namesByQid = Object.fromEntries(sorted.map((question) => [question.qid, question.name]));
+	const typesByName = Object.fromEntries(sorted.map((question) => [question.name, question.type]));
+
+	const config: FormConfig = { title: properties.title || sorted.find((q) => q.type === 'control_head')?.text || '' };
+	const unmapped: UnmappedQuestion[] = [];
+	const warnings: string[] = [];
+
+	// Step 1: Eligibility questions are the Yes/No radios; the conditions below refer to them
+	const eligibilityQuestions: EligibilityQuestion[] = sorted
+		.filter((q) => q.type === 'control_radio' && q.options === 'Yes|No')
+		.map((q) => ({ text: q.text, name: q.name, ...(q.required === 'Yes' ? { required: true } : {}) }));
+
+	// Step 2: Conditions, by question name, with the ones buildConditions generates folded back into toggles
+	const conditions: FormCondition[] = [];
+	for (const raw of Array.isArray(properties.conditions) ? properties.conditions : []) {
+		const condition = parseCondition(raw, namesByQid);
+		if (!condition) {
+			warnings.push(`Condition ${raw?.id ?? '(no id)'} references questions that don't exist and was left out`);
+		} else {
+			conditions.push(condition);
+		}
+	}
+
+	const eligibilityNames = eligibilityQuestions.map((eq) => eq.name);
+	const personalInfoCondition = conditions.find((c) =>
+		(c.type || 'field') === 'field' &&
+		c.link === 'All' &&
+		coversEligibility(c, eligibilityNames) &&
+		c.actions.every((action) => action.visibility === 'Show')
+	);
+	if (personalInfoCondition) {
+		config.enableConditionals = true;
+		config.showPersonalInfoOnlyIfEligible = true;
+		for (const eq of eligibilityQuestions) {
+			if (personalInfoCondition.terms.find((term) => term.field === eq.name)?.value === 'No') eq.qualifyingAnswer = 'No';
+		}
+	}
+
+	const disqualification = conditions.find((c) =>
+		(c.type || 'field') === 'field' &&
+		c.link === 'Any' &&
+		coversEligibility(c, eligibilityNames) &&
+		c.actions[0]?.visibility === 'Show' &&
+		typesByName[c.actions[0].field || ''] === 'control_text' &&
+		c.actions.slice(1).every((action) => action.visibility === 'Hide')
+	);
+	const handled = new Set<FormCondition | undefined>([personalInfoCondition, disqualification]);
+	// Email conditions go with their emails (step 6)
+	const mailConditions = conditions.filter((c) => c.type === 'mail');
+	for (const c of mailConditions) handled.add(c);
+	let disqualificationName: string | undefined;
+	if (disqualification) {
+		disqualificationName = disqualification.actions[0].field!;
+		const message = sorted.find((q) => q.name === disqualificationName)!;
+		config.disqualification = { message: message.text };
+		if (disqualificationName !== defaultDisqualificationMessageName) config.disqualification.name = disqualificationName;
+
+		for (const eq of eligibilityQuestions) {
+			const value = disqualification.terms.find((term) => term.field === eq.name)?.value;
+			const expected = (eq.qualifyingAnswer || 'Yes') === 'Yes' ? 'No' : 'Yes';
+			if (value !== expected && (value === 'Yes' || value === 'No')) eq.disqualifyingAnswer = value;
+		}
+
+		// The skip and redirect conditions share the disqualifying terms
+		for (const c of conditions) {
+			if (c.link !== 'Any' || !sameTerms(c, disqualification)) continue;
+			if (c.type === 'page' && c.actions.length === 1 && c.actions[0].skipTo === 'end') {
+				config.disqualification.skipToEnd = true;
+				handled.add(c);
+			} else if (c.type === 'url' && c.actions.length === 1 && c.actions[0].redirect && !config.disqualification.redirectURL) {
+				config.disqualification.redirectURL = c.actions[0].redirect;
+				handled.add(c);
+			}
+		}
+	}
+
+	// Step 3: Everything else, in form order
+	const legalTextBlocks: NonNullable<FormConfig['legalTextBlocks']> = [];
+	const seen = new Set<string>();
+	const once = (type: string) => {
+		if (seen.has(type)) return false;
+		seen.add(type);
+		return true;
+	};
+	// Fields run on from the personal info; one anywhere else records the question it follows
+	let previous: { name: string; personalInfo: boolean } | undefined;
+
+	for (const question of sorted) {
+		const field = questionField(question);
+		const personal = field && personalInfoFieldDefinitions.find((p) => sameField(p.field, field));
+		const followsPersonalInfo = previous?.personalInfo ?? false;
+		let personalInfo = false;
+		const widgetType = (Object.keys(widgetDefinitions) as Array<keyof typeof widgetDefinitions>).find(
+			(type) => question.type === 'control_widget' && (question.cfname === widgetDefinitions[type].cfname || question.selectedField === widgetDefinitions[type].selectedField)
+		);
+
+		if (question.type === 'control_radio' && question.options === 'Yes|No') {
+			// Already handled in step 1
+		} else if (question.type === 'control_text' && question.name === disqualificationName) {
+			// Already handled as the disqualification message
+		} else if (question.type === 'control_text') {
+			const defaultName = `legalText${legalTextBlocks.length}`;
+			legalTextBlocks.push({ content: question.text, ...(question.name !== defaultName ? { name: question.name } : {}) });
+		} else if (personal && !config.personalInfoFields?.[personal.toggle]) {
+			config.personalInfoFields = { ...config.personalInfoFields, [personal.toggle]: true };
+			personalInfo = true;
+		} else if (question.type === 'control_signature') {
+			(config.signatureFields ||= []).push({
+				text: question.text,
+				name: question.name,
+				...(question.required === 'Yes' ? { required: true } : {}),
+				...(question.size && question.size !== '600' ? { size: question.size } : {})
+			});
+		} else if (question.type === 'control_textbox' && question.hidden === 'Yes') {
+			(config.hiddenFields ||= []).push({
+				name: question.name,
+				text: question.text,
+				...(question.defaultValue ? { defaultValue: question.defaultValue } : {}),
+				...(question.readonly === 'Yes' ? { readonly: true } : {})
+			});
+		} else if (widgetType) {
+			(config.widgets ||= []).push({ type: widgetType, name: question.name });
+		} else if (question.type === 'control_captcha' && once(question.type)) {
+			config.includeCaptcha = true;
+		} else if (['control_head', 'control_button'].includes(question.type) && once(question.type)) {
+			// Layout the builder always adds
+			if (question.type === 'control_button' && question.text && question.text !== defaultSubmitText) config.submitText = question.text;
+		} else if (question.type === 'control_pagebreak') {
+			// Page breaks become config.pages below, unless they're where the builder puts its own
+		} else if (field) {
+			// Part of the personal info when it runs on from it or is shown along with it
+			personalInfo = followsPersonalInfo || !!personalInfoCondition?.actions.some((action) => action.field === question.name);
+			(config.fields ||= []).push(personalInfo || !previous ? field : { ...field, after: previous.name });
+		} else {
+			unmapped.push({ qid: question.qid, name: question.name, type: question.type, text: question.text });
+		}
+		// The builder names its own layout questions, so a field after one of them refers to that name
+		previous = { name: layoutNames[question.type] ?? question.name, personalInfo };
+	}
+
+	if (eligibilityQuestions.length > 0) config.eligibilityQuestions = eligibilityQuestions;
+	if (legalTextBlocks.length > 0) config.legalTextBlocks = legalTextBlocks;
+
+	const remaining = conditions.filter((c) => !handled.has(c));
+	if (remaining.length > 0) config.conditions = remaining;
+
+	// Step 4: Pages, when the live layout isn't the one the builder would give the config
+	const pages = exportPages(sorted, config, new Set(unmapped.map((question) => question.name)));
+	if (pages) {
+		// The pages say where everything goes, so fields don't need to
+		config.pages = pages;
+		config.fields = config.fields?.map(({ after, ...field }) => field);
+	}
+
+	// Step 5: Properties, CSS and line layout; only what differs from the builder's defaults
+	if (properties.showProgressBar === 'enable') config.progressBar = true;
+	for (const [key, value] of Object.entries(defaultProperties)) {
+		if (key === 'showProgressBar') continue;
+		if (properties[key] !== undefined && String(properties[key]) !== value) {
+			config.properties = { ...config.properties, [key]: properties[key] };
+		}
+	}
+	if (properties.injectCSS) config.injectCSS = properties.injectCSS;
+	if ((properties.lineSpacing !== undefined && String(properties.lineSpacing) !== defaultLineSpacing) || properties.horizontalPadding) {
+		config.lineLayout = {
+			...(properties.lineSpacing !== undefined && String(properties.lineSpacing) !== defaultLineSpacing ? { lineSpacing: String(properties.lineSpacing) } : {}),
+			...(properties.horizontalPadding ? { horizontalPadding: String(properties.horizontalPadding) } : {})
+		};
+	}
+
+	// Step 6: Emails. A lone plain notification is the emailNotification shorthand; otherwise they're config.emails,
+	// each with the 'mail' condition that sends it
+	const emails: any[] = Array.isArray(properties.emails) ? properties.emails : [];
+	const conditionOf = (index: number) => mailConditions.find((c) => c.actions.some((action) => action.email === String(index)));
+	const [first] = emails;
+	if (emails.length === 1 && first?.type === 'notification' && !first.body && !first.replyTo && !first.bcc && !conditionOf(0)) {
+		config.emailNotification = {
+			to: first.to,
+			...(first.subject && first.subject !== defaultEmailSubject ? { subject: first.subject } : {}),
+			...(first.from && first.from !== 'default' ? { from: first.from } : {})
+		};
+	} else {
+		const exported: EmailConfig[] = [];
+		const attached = new Set<FormCondition>();
+		emails.forEach((email, index) => {
+			if (email?.type !== 'notification' && email?.type !== 'autorespond') {
+				warnings.push(`Email '${email?.name ?? email?.type ?? 'unnamed'}' was left out`);
+				return;
+			}
+			const type = email.type === 'autorespond' ? 'autoresponder' : 'notification';
+			const defaultName = `${type}${exported.filter((other) => other.type === type).length + 1}`;
+			const defaultSubject = type === 'autoresponder' ? defaultAutoresponderSubject : defaultEmailSubject;
+			const condition = conditionOf(index);
+			if (condition) attached.add(condition);
+
+			exported.push({
+				type,
+				...(email.name && email.name !== defaultName ? { name: email.name } : {}),
+				...(email.to && !(type === 'autoresponder' && email.to === `{${claimantEmailField(config)}}`) ? { to: email.to } : {}),
+				...(email.from && email.from !== 'default' ? { from: email.from } : {}),
+				...(email.replyTo ? { replyTo: answerTags(email.replyTo) } : {}),
+				...(email.bcc ? { bcc: email.bcc } : {}),
+				...(email.subject && email.subject !== defaultSubject ? { subject: answerTags(email.subject) } : {}),
+				...(email.body ? { body: answerTags(email.body) } : {}),
+				...(condition ? { condition: emailCondition(condition, eligibilityQuestions) } : {})
+			});
+		});
+		if (exported.length > 0) config.emails = exported;
+
+		for (const c of mailConditions) {
+			if (!attached.has(c)) warnings.push("An email condition that doesn't refer to an email was left out");
+		}
+	}
+
+	return { config, unmapped, warnings };
+}
+
+// The live form's pages, or undefined when building the config as it stands would give the same order.
+// Hidden fields and widgets don't count; the builder keeps them out of the page flow.
+function exportPages(sorted: Array<JotFormQuestionRecord & { qid: string }>, config: FormConfig, unmappedNames: Set<string>): FormPage[] | undefined {
+	const inFlow = (question: { type: string; name: string; hidden?: string }) =>
+		!(question.type === 'control_textbox' && question.hidden === 'Yes') && question.type !== 'control_widget' && !unmappedNames.has(question.name);
+	const nameOf = (question: { type: string; name: string }) => (question.type === 'control_pagebreak' ? question.name : layoutNames[question.type] ?? question.name);
+
+	const live = sorted.filter(inFlow);
+	const built = (buildFormData(config).questions as JotFormQuestion[]).filter(inFlow).map(nameOf);
+	if (JSON.stringify(live.map(nameOf)) === JSON.stringify(built) || !live.some((question) => question.type === 'control_pagebreak')) {
+		return undefined;
+	}
+
+	const pages: FormPage[] = [{ blocks: [] }];
+	for (const question of live) {
+		if (question.type === 'control_head') continue;
+		if (question.type !== 'control_pagebreak') {
+			pages[pages.length - 1].blocks.push(nameOf(question));
+			continue;
+		}
+		pages.push({
+			...(question.name !== `pageBreak${pages.length + 1}` ? { name: question.name } : {}),
+			...(question.text && question.text !== 'Page Break' ? { title: question.text } : {}),
+			...(question.nextText && question.nextText !== 'Next' ? { nextText: question.nextText } : {}),
+			...(question.backText && question.backText !== 'Back' ? { backText: question.backText } : {}),
+			blocks: []
+		});
+	}
+
+	// The captcha and submit button end the last page anyway
+	const last = pages[pages.length - 1].blocks;
+	while (last.length > 0 && ['captcha', 'submit'].includes(last[last.length - 1])) last.pop();
+	return pages;
+}
+
+// JotForm's stored condition (JSON-encoded terms and actions, qids) to a FormCondition by name.
+// Returns undefined when a field doesn't match any question.
+export function parseCondition(raw: any, namesByQid: Record<string, string>): FormCondition | undefined {
+	const parse = (value: unknown) => {
+		if (typeof value !== 'string') return Array.isArray(value) ? value : [];
+		try {
+			return JSON.parse(value);
+		} catch {
+			return [];
+		}
+	};
+	let missing = false;
+	const nameOf = (qid: string) => {
+		const name = namesByQid[qid];
+		if (!name) missing = true;
+		return name;
+	};
+
+	const condition: FormCondition = {
+		...(raw.type && raw.type !== 'field' ? { type: raw.type } : {}),
+		link: raw.link === 'Any' ? 'Any' : 'All',
+		terms: parse(raw.terms).map((term: any) => ({ field: nameOf(String(term.field)), operator: term.operator, value: String(term.value ?? '') })),
+		actions: parse(raw.action).map((action: any) => {
+			if (action.skipTo !== undefined) return { skipTo: action.skipTo };
+			if (action.redirect !== undefined) return { redirect: action.redirect };
+			if (action.email !== undefined) return { email: String(action.email) };
+			return { field: nameOf(String(action.field)), visibility: action.visibility };
+		})
+	};
+
+	return missing ? undefined : condition;
+}
+
+// JotForm's {name:first} back to {name.first}
+function answerTags(text: string): string {
+	return text.replace(/\{(\w+):(\w+)\}/g, '{$1.$2}');
+}
+
+// 'eligible' when the condition is the one that shorthand builds
+function emailCondition(condition: FormCondition, eligibilityQuestions: EligibilityQuestion[]): EmailConfig['condition'] {
+	const eligible =
+		condition.link === 'All' &&
+		coversEligibility(condition, eligibilityQuestions.map((eq) => eq.name)) &&
+		eligibilityQuestions.every((eq) => condition.terms.find((term) => term.field === eq.name)?.value === (eq.qualifyingAnswer || 'Yes'));
+	return eligible ? 'eligible' : { terms: condition.terms, ...(condition.link === 'Any' ? { link: 'Any' as const } : {}) };
+}
+
+// True when the condition has exactly one "equals" term per eligibility question
+function coversEligibility(condition: FormCondition, eligibilityNames: string[]): boolean {
+	return (
+		eligibilityNames.length > 0 &&
+		condition.terms.length === eligibilityNames.length &&
+		condition.terms.every((term) => term.operator === 'equals') &&
+		eligibilityNames.every((name) => condition.terms.some((term) => term.field === name))
+	);
+}
+
+function sameTerms(a: FormCondition, b: FormCondition): boolean {
+	return (
+		a.terms.length === b.terms.length &&
+		a.terms.every((term) => b.terms.some((other) => other.field === term.field && other.operator === term.operator && other.value === term.value))
+	);
+}
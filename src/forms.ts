@@ -0,0 +1,1167 @@
+/**
+ * Form create, update and create-from-template handlers
+ */
+
+import {
+	buildConditions,
+	buildDisqualificationConditions,
+	buildEmailConditions,
+	buildEmails,
+	buildFormData,
+	disqualificationMessageName,
+	formatConditions,
+	needsQuestionIds,
+	questionIdsByName,
+	themeProperties,
+	widgetDefinitions,
+	type EmailSource
+} from './form-builder';
+import { getAccount } from './accounts';
+import { captureWebhookURL } from './claimants';
+import { diffCalls, diffForm, isEmptyDiff } from './form-apply';
+import { exportFormConfig } from './form-export';
+import { createJotFormClient, JotFormError, type JotFormCall, type JotFormClient, type JotFormEnvelope } from './jotform-client';
+import { hasSchedule, opensLater, saveSchedule } from './lifecycle';
+import { getFormRecord, registerForm, touchForm } from './registry';
+import { headerCall, themeFor } from './themes';
+import { planWebhooks, syncWebhooks } from './webhooks';
+import type { Env, FormCondition, FormConfig, TemplateFormConfig, ThemeConfig, UpdateFormConfig } from './types';
+
+// Outcome of one step of a multi-call operation, returned to the caller
+export interface StepResult {
+	name: string;
+	status: 'ok' | 'failed' | 'skipped';
+	error?: string;
+}
+
+export interface HandlerOptions {
+	dryRun?: boolean;
+	fetch?: typeof fetch; // Stand-in for the global fetch when talking to JotForm, e.g. a local fake in tests
+	caller?: string; // Who made the request, recorded in the form registry
+	waitUntil?: (promise: Promise<unknown>) => void; // Runs work after the response; without it the work is awaited
+	account?: string; // Named JotForm account, for routes that only have a form or submission id (?account=)
+	origin?: string; // The request's origin, where the webhooks for captureSubmissions point unless PUBLIC_URL is set
+}
+
+export async function handleCreateForm(config: FormConfig, env: Env, options: HandlerOptions = {}) {
+	try {
+		const theme = await themeFor(env, config.theme);
+		if (theme instanceof Response) return theme;
+
+		const formData = buildFormData(config, theme);
+		if (opensLater(config)) {
+			// Closed until the scheduled run opens it
+			formData.properties.status = 'DISABLED';
+		}
+		const conditions = buildConditions(config);
+		const createCall: JotFormCall = {
+			description: 'create form',
+			method: 'PUT',
+			path: '/form',
+			json: formData
+		};
+
+		if (options.dryRun) {
+			// Conditions are listed by question name; they're resolved to qids once the form exists
+			const calls = [createCall];
+			if (conditions.length > 0) {
+				calls.push(getQuestionsCall('{newFormId}'), conditionsCall('{newFormId}', formatConditions(conditions, {}).formatted));
+			}
+			if (config.webhookURL) {
+				calls.push(webhookCall('{newFormId}', config.webhookURL));
+			}
+			const capture = config.captureSubmissions && captureCall('{newFormId}', env, options);
+			if (capture && capture.form!.webhookURL !== config.webhookURL) {
+				calls.push(capture);
+			}
+
+			return Response.json({
+				success: true,
+				dryRun: true,
+				payload: formData,
+				conditions,
+				calls
+			});
+		}
+
+		const client = await jotformClientFor(config, env, options);
+
+		if (typeof client === 'string') {
+			return Response.json({ error: client }, { status: 400 });
+		}
+
+		// Make API call to JotForm
+		let result: JotFormEnvelope;
+		try {
+			result = await client.send(createCall);
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to create form', error);
+			throw error;
+		}
+
+		const newFormId = result.content?.id;
+
+		// Add conditions now that the questions have real qids. Without them the form would take ineligible claims (and send
+		// eligible-only emails to everyone), so it's deleted rather than left live.
+		if (conditions.length > 0 && newFormId) {
+			try {
+				await applyConditions(client, newFormId, conditions);
+			} catch (error) {
+				const rolledBack = await client.deleteForm(newFormId).then(
+					() => true,
+					(deleteError) => {
+						console.error(`Failed to delete form ${newFormId}:`, deleteError instanceof Error ? deleteError.message : deleteError);
+						return false;
+					}
+				);
+				return Response.json({
+					success: false,
+					error: rolledBack ? 'Failed to add conditions; the form was deleted' : 'Failed to add conditions',
+					details: error instanceof JotFormError ? error.body || error.message : error instanceof Error ? error.message : 'Unknown error',
+					formId: rolledBack ? undefined : newFormId,
+					rolledBack
+				}, { status: 502 });
+			}
+		}
+
+		// Add webhook if specified
+		if (config.webhookURL && newFormId) {
+			// Don't fail the entire request if webhook fails
+			await sendBestEffort(client, webhookCall(newFormId, config.webhookURL));
+		}
+
+		// Point submissions back at this worker, for claimant records
+		let submissionsCaptured = false;
+		const capture = config.captureSubmissions && newFormId && captureCall(newFormId, env, options);
+		if (capture && capture.form!.webhookURL === config.webhookURL) {
+			submissionsCaptured = true; // Already registered as webhookURL
+		} else if (capture) {
+			submissionsCaptured = await sendBestEffort(client, capture);
+		}
+
+		if (newFormId) {
+			await recordBestEffort(() => registerForm(env.DB, {
+				formId: newFormId,
+				url: result.content.url,
+				title: config.title,
+				campaign: config.campaign,
+				locale: config.locale,
+				config,
+				createdBy: options.caller
+			}));
+			if (hasSchedule(config)) {
+				await recordBestEffort(() => saveSchedule(env.DB, newFormId, config, opensLater(config) ? 'waiting' : 'pending'));
+			}
+		}
+
+		return Response.json({
+			success: true,
+			formId: result.content?.id,
+			formUrl: result.content?.url,
+			webhookAdded: !!config.webhookURL,
+			submissionsCaptured,
+			conditionsApplied: conditions.length > 0,
+			data: result
+		});
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// Resolve condition fields against the form's questions and save them.
+// With keepExisting, the form's current conditions (e.g. from a template) stay in front of the new ones; pass a
+// function to keep only some of them.
+export async function applyConditions(
+	client: JotFormClient,
+	formId: string,
+	conditions: FormCondition[],
+	keepExisting: boolean | ((condition: any) => boolean) = false
+): Promise<void> {
+	const questions = await client.getQuestions(formId);
+	const { formatted, unresolved } = formatConditions(conditions, questionIdsByName(questions.content || {}));
+	if (unresolved.length > 0) {
+		throw new Error(`Conditions reference unknown questions: ${unresolved.join(', ')}`);
+	}
+
+	let existing: any[] = [];
+	if (keepExisting) {
+		const properties = await client.getProperties(formId);
+		existing = Array.isArray(properties.content?.conditions) ? properties.content.conditions : [];
+		if (typeof keepExisting === 'function') existing = existing.filter(keepExisting);
+	}
+
+	const merged = [...existing, ...formatted].map((condition, index) => ({ ...condition, index: String(index), priority: String(index) }));
+	await client.send(conditionsCall(formId, merged));
+}
+
+// The form exists in JotForm either way, so a registry failure is logged rather than failing the request
+async function recordBestEffort(action: () => Promise<void>): Promise<void> {
+	try {
+		await action();
+	} catch (error) {
+		console.error('Failed to update form registry:', error instanceof Error ? error.message : error);
+	}
+}
+
+// Send a call whose failure shouldn't fail the request; the failure is logged instead
+async function sendBestEffort(client: JotFormClient, call: JotFormCall): Promise<boolean> {
+	try {
+		await client.send(call);
+		return true;
+	} catch (error) {
+		if (!(error instanceof JotFormError)) throw error;
+		console.warn(`${error.message}`, error.body || '');
+		return false;
+	}
+}
+
+export function jotformErrorResponse(message: string, error: JotFormError): Response {
+	return Response.json({
+		error: message,
+		details: error.body || error.message
+	}, { status: error.status || 502 });
+}
+
+// Use the named account if given, else the API key from the config, else the environment secret.
+// Returns an error message instead when the account is unknown or there's no key at all.
+export async function jotformClientFor(credentials: { apiKey?: string; account?: string }, env: Env, options: HandlerOptions = {}): Promise<JotFormClient | string> {
+	if (credentials.account) {
+		const account = await getAccount(env, credentials.account);
+		if (!account) {
+			return `Unknown account '${credentials.account}'`;
+		}
+		return createJotFormClient({ apiKey: account.apiKey, region: account.region, baseUrl: account.baseUrl, fetch: options.fetch });
+	}
+
+	const key = credentials.apiKey || env.JOTFORM_API_KEY;
+	if (!key) {
+		return 'API key not configured';
+	}
+
+	return createJotFormClient({
+		apiKey: key,
+		region: env.JOTFORM_REGION,
+		baseUrl: env.JOTFORM_BASE_URL,
+		fetch: options.fetch
+	});
+}
+
+// The account for a form-id route: ?account= if given, else the one the form was created under (if it's in the registry)
+export async function accountForForm(formId: string, env: Env, options: HandlerOptions = {}): Promise<string | undefined> {
+	if (options.account) return options.account;
+	const record = await getFormRecord(env.DB, formId);
+	return record?.config.account;
+}
+
+function getPropertiesCall(formId: string): JotFormCall {
+	return {
+		description: 'get form properties',
+		method: 'GET',
+		path: `/form/${formId}/properties`
+	};
+}
+
+function webhookCall(formId: string, webhookURL: string): JotFormCall {
+	return {
+		description: 'add webhook',
+		method: 'POST',
+		path: `/form/${formId}/webhooks`,
+		form: { webhookURL }
+	};
+}
+
+// What a template clone's webhooks should include: webhookURL and, with captureSubmissions, this worker's own
+function templateWebhookURLs(config: TemplateFormConfig, formId: string, env: Env, options: HandlerOptions): string[] {
+	const urls = config.webhookURL ? [config.webhookURL] : [];
+	const capture = config.captureSubmissions && captureCall(formId, env, options);
+	if (capture) urls.push(capture.form!.webhookURL);
+	return urls;
+}
+
+// The webhook to this worker's /hooks/jotform/{formId}; undefined when there's no URL to point it at
+function captureCall(formId: string, env: Env, options: HandlerOptions): JotFormCall | undefined {
+	const webhookURL = captureWebhookURL(formId, env, options.origin);
+	if (!webhookURL) {
+		console.warn('captureSubmissions is set but neither PUBLIC_URL nor a request origin is known; not registering the webhook');
+		return undefined;
+	}
+	return { ...webhookCall(formId, webhookURL), description: 'add submission capture webhook' };
+}
+
+function conditionsCall(formId: string, formattedConditions: any[]): JotFormCall {
+	return {
+		description: 'update conditions',
+		method: 'POST',
+		path: `/form/${formId}/properties`,
+		form: { 'properties[conditions]': JSON.stringify(formattedConditions) }
+	};
+}
+
+export async function handleUpdateForm(config: UpdateFormConfig, env: Env, options: HandlerOptions = {}) {
+	try {
+		if (!config.formId) {
+			return Response.json({ error: 'Form ID is required' }, { status: 400 });
+		}
+
+		switch (config.updateType) {
+			case 'properties':
+				if (!config.properties && !config.theme) {
+					return Response.json({ error: 'Properties data or a theme required for properties update' }, { status: 400 });
+				}
+				break;
+
+			case 'questions':
+				break;
+
+			case 'conditions':
+				if (!config.conditions) {
+					return Response.json({ error: 'Conditions data required for conditions update' }, { status: 400 });
+				}
+				break;
+
+			case 'emails':
+				if (!config.emails) {
+					return Response.json({ error: 'Emails data required for emails update' }, { status: 400 });
+				}
+				break;
+
+			default:
+				return Response.json({ error: 'Invalid update type. Must be: properties, questions, conditions, or emails' }, { status: 400 });
+		}
+
+		const client = await jotformClientFor(config.apiKey ? config : { account: config.account ?? (await accountForForm(config.formId, env, options)) }, env, options);
+
+		// Conditions may reference questions by name, which needs the form's current qids (a read, even in dry run)
+		let qidsByName: Record<string, string> = {};
+		if (config.updateType === 'conditions' && needsQuestionIds(config.conditions || [])) {
+			if (typeof client === 'string') {
+				return Response.json({ error: client }, { status: 400 });
+			}
+
+			try {
+				const questions = await client.getQuestions(config.formId);
+				qidsByName = questionIdsByName(questions.content || {});
+			} catch (error) {
+				if (error instanceof JotFormError) return jotformErrorResponse('Failed to get form questions', error);
+				throw error;
+			}
+		}
+
+		// A theme's header settings go on the form's header question, which needs its qid
+		const theme = config.updateType === 'properties' ? await themeFor(env, config.theme) : undefined;
+		if (theme instanceof Response) return theme;
+		let header: JotFormCall | undefined;
+		if (theme?.header) {
+			if (typeof client === 'string') {
+				return Response.json({ error: client }, { status: 400 });
+			}
+
+			try {
+				header = headerCall(config.formId, theme.header, (await client.getQuestions(config.formId)).content || {});
+			} catch (error) {
+				if (error instanceof JotFormError) return jotformErrorResponse('Failed to get form questions', error);
+				throw error;
+			}
+		}
+
+		// Email conditions are swapped in among the form's others, which needs those and the qids too.
+		// 'eligible' and the autoresponder's address come from the config the form was created with, if it's in the registry.
+		let emailContext: { source: EmailSource; existingConditions: any[] } | undefined;
+		if (config.updateType === 'emails') {
+			if (typeof client === 'string') {
+				return Response.json({ error: client }, { status: 400 });
+			}
+
+			const record = await getFormRecord(env.DB, config.formId);
+			const source: EmailSource = { ...record?.config, emailNotification: undefined, emails: config.emails };
+			if (config.emails?.some((email) => email.condition === 'eligible') && !source.eligibilityQuestions?.length) {
+				return Response.json({
+					error: "The 'eligible' condition needs the form's eligibility questions",
+					message: 'The form is not in the registry with eligibility questions; give the condition as terms instead'
+				}, { status: 400 });
+			}
+
+			try {
+				const [questions, properties] = await Promise.all([client.getQuestions(config.formId), client.getProperties(config.formId)]);
+				qidsByName = questionIdsByName(questions.content || {});
+				emailContext = { source, existingConditions: Array.isArray(properties.content?.conditions) ? properties.content.conditions : [] };
+			} catch (error) {
+				if (error instanceof JotFormError) return jotformErrorResponse('Failed to read form', error);
+				throw error;
+			}
+		}
+
+		const { calls, unresolved } = planUpdateFormCalls(config, qidsByName, emailContext, { theme, header });
+
+		if (unresolved.length > 0) {
+			return Response.json({ error: 'Conditions reference unknown questions', fields: unresolved }, { status: 400 });
+		}
+
+		if (options.dryRun) {
+			return Response.json({
+				success: true,
+				dryRun: true,
+				formId: config.formId,
+				updateType: config.updateType,
+				calls
+			});
+		}
+
+		if (typeof client === 'string') {
+			return Response.json({ error: client }, { status: 400 });
+		}
+
+		// Question updates and deletions are best-effort; the properties, conditions or add-questions call decides the outcome
+		const hasNewQuestions = !!(config.newQuestions && config.newQuestions.length > 0);
+		const finalCall = config.updateType !== 'questions' || hasNewQuestions ? calls[calls.length - 1] : undefined;
+		for (const call of calls) {
+			if (call === finalCall) break;
+			await sendBestEffort(client, call);
+		}
+
+		if (!finalCall) {
+			await recordBestEffort(() => touchForm(env.DB, config.formId));
+
+			// Just return success for question updates/deletions
+			return Response.json({
+				success: true,
+				message: 'Questions updated successfully'
+			});
+		}
+
+		let result: JotFormEnvelope;
+		try {
+			result = await client.send(finalCall);
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to update form', error);
+			throw error;
+		}
+
+		const title = config.updateType === 'properties' && typeof config.properties?.title === 'string' ? config.properties.title : undefined;
+		await recordBestEffort(async () => {
+			// Remember the theme and the properties on top of it, so POST /themes/:name/apply reaches this form too
+			const record = theme ? await getFormRecord(env.DB, config.formId) : null;
+			const recorded = record ? { ...record.config, theme: config.theme, properties: { ...record.config.properties, ...config.properties } } : undefined;
+			await touchForm(env.DB, config.formId, { title, config: recorded });
+		});
+
+		return Response.json({
+			success: true,
+			message: `Form ${config.updateType} updated successfully`,
+			data: result
+		});
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// List the JotForm calls an update makes, in the order they are sent
+function planUpdateFormCalls(
+	config: UpdateFormConfig,
+	qidsByName: Record<string, string> = {},
+	emailContext: { source: EmailSource; existingConditions: any[] } = { source: {}, existingConditions: [] },
+	themeContext: { theme?: ThemeConfig; header?: JotFormCall } = {}
+) {
+	const calls: JotFormCall[] = [];
+	let unresolved: string[] = [];
+
+	switch (config.updateType) {
+		case 'properties': {
+			// The theme's header, then its properties with the update's on top
+			if (themeContext.header) {
+				calls.push(themeContext.header);
+			}
+
+			// Update form properties
+			const form: Record<string, string> = {};
+			for (const [key, value] of Object.entries({ ...themeProperties(themeContext.theme), ...config.properties })) {
+				form[`properties[${key}]`] = String(value);
+			}
+
+			calls.push({
+				description: 'update properties',
+				method: 'POST',
+				path: `/form/${config.formId}/properties`,
+				form
+			});
+			break;
+		}
+
+		case 'questions':
+			if (config.questionUpdates) {
+				// Handle question updates/deletions first
+				for (const update of config.questionUpdates) {
+					if (update.action === 'delete') {
+						calls.push({
+							description: `delete question ${update.questionId}`,
+							method: 'DELETE',
+							path: `/form/${config.formId}/question/${update.questionId}`
+						});
+					} else if (update.action === 'update' && update.questionData) {
+						const form: Record<string, string> = {};
+						for (const [key, value] of Object.entries(update.questionData)) {
+							form[`question[${key}]`] = String(value);
+						}
+
+						calls.push({
+							description: `update question ${update.questionId}`,
+							method: 'POST',
+							path: `/form/${config.formId}/question/${update.questionId}`,
+							form
+						});
+					}
+				}
+			}
+
+			// Add new questions if provided
+			if (config.newQuestions && config.newQuestions.length > 0) {
+				calls.push({
+					description: 'add questions',
+					method: 'PUT',
+					path: `/form/${config.formId}/questions`,
+					json: {
+						questions: config.newQuestions.reduce((acc, question, index) => {
+							acc[String(index + 1)] = question;
+							return acc;
+						}, {} as Record<string, any>)
+					}
+				});
+			}
+			break;
+
+		case 'conditions': {
+			// Format conditions for JotForm API
+			const formatted = formatConditions(config.conditions || [], qidsByName);
+			unresolved = formatted.unresolved;
+
+			// Update form properties with conditions
+			calls.push(conditionsCall(config.formId, formatted.formatted));
+			break;
+		}
+
+		case 'emails': {
+			// The emails and their conditions go together, so a condition never points at the wrong email
+			const formatted = formatConditions(buildEmailConditions(emailContext.source), qidsByName);
+			unresolved = formatted.unresolved;
+			const conditions = [...emailContext.existingConditions.filter((condition) => condition?.type !== 'mail'), ...formatted.formatted].map(
+				(condition, index) => ({ ...condition, index: String(index), priority: String(index) })
+			);
+
+			const call = emailsCall(config.formId, emailContext.source);
+			calls.push({ ...call, form: { ...call.form, 'properties[conditions]': JSON.stringify(conditions) } });
+			break;
+		}
+	}
+
+	return { calls, unresolved };
+}
+
+// Bring a live form in line with a FormConfig, changing only what differs. With dryRun, just return the diff.
+export async function handleApplyFormConfig(formId: string, config: FormConfig, env: Env, options: HandlerOptions = {}) {
+	try {
+		const client = await jotformClientFor(config.apiKey ? config : { account: config.account ?? (await accountForForm(formId, env, options)) }, env, options);
+
+		if (typeof client === 'string') {
+			return Response.json({ error: client }, { status: 400 });
+		}
+
+		const theme = await themeFor(env, config.theme);
+		if (theme instanceof Response) return theme;
+
+		// Step 1: Read the live form
+		let questions: JotFormEnvelope;
+		let properties: JotFormEnvelope;
+		let webhooks: JotFormEnvelope<Record<string, string>>;
+		try {
+			[questions, properties, webhooks] = await Promise.all([client.getQuestions(formId), client.getProperties(formId), client.getWebhooks(formId)]);
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to read form', error);
+			throw error;
+		}
+
+		// Step 2: Diff it against the config
+		const diff = diffForm(config, questions.content || {}, properties.content || {}, Object.values(webhooks.content || {}), theme);
+		const { changes, deletes } = diffCalls(formId, diff);
+
+		if (options.dryRun) {
+			// Conditions are listed by name where they refer to questions that will be added
+			const calls = [...changes];
+			if (diff.conditions) {
+				const qidsByName = questionIdsByName(questions.content || {});
+				calls.push(getQuestionsCall(formId), conditionsCall(formId, formatConditions(diff.conditions, qidsByName).formatted));
+			}
+			calls.push(...deletes);
+
+			return Response.json({
+				success: true,
+				dryRun: true,
+				formId,
+				changed: !isEmptyDiff(diff),
+				diff,
+				calls
+			});
+		}
+
+		// Step 3: Make the changes, stopping at the first failure
+		const steps: StepResult[] = [];
+		const runStep = <T>(name: string, action: () => Promise<T>) => recordStep(steps, name, action, hasFailed(steps));
+		for (const call of changes) {
+			await runStep(call.description, () => client.send(call));
+		}
+		if (diff.conditions) {
+			const conditions = diff.conditions;
+			await runStep('apply conditions', () => applyConditions(client, formId, conditions));
+		}
+		for (const call of deletes) {
+			await runStep(call.description, () => client.send(call));
+		}
+
+		if (hasFailed(steps)) {
+			return Response.json({
+				success: false,
+				error: 'Form only partly updated',
+				formId,
+				diff,
+				steps
+			}, { status: 502 });
+		}
+
+		if (!isEmptyDiff(diff)) {
+			await recordBestEffort(() => touchForm(env.DB, formId, { title: config.title, config }));
+		}
+		// The config's schedule replaces the form's; the scheduled run sets the status to match
+		await recordBestEffort(() => saveSchedule(env.DB, formId, config));
+
+		return Response.json({
+			success: true,
+			formId,
+			changed: !isEmptyDiff(diff),
+			diff,
+			steps
+		});
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// Reconstruct a FormConfig from a live form so it can be managed through this worker
+export async function handleExportFormConfig(formId: string, env: Env, options: HandlerOptions = {}) {
+	try {
+		const client = await jotformClientFor({ account: await accountForForm(formId, env, options) }, env, options);
+
+		if (typeof client === 'string') {
+			return Response.json({ error: client }, { status: 400 });
+		}
+
+		let questions: JotFormEnvelope;
+		let properties: JotFormEnvelope;
+		try {
+			[questions, properties] = await Promise.all([client.getQuestions(formId), client.getProperties(formId)]);
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to read form', error);
+			throw error;
+		}
+
+		const { config, unmapped, warnings } = exportFormConfig(questions.content || {}, properties.content || {});
+
+		return Response.json({
+			success: true,
+			formId,
+			config,
+			unmapped,
+			warnings
+		});
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+export async function handleCreateFormFromTemplate(config: TemplateFormConfig, env: Env, options: HandlerOptions = {}) {
+	try {
+		const client = await jotformClientFor(config, env, options);
+
+		if (typeof client === 'string') {
+			return Response.json({ error: client }, { status: 400 });
+		}
+
+		if (!config.templateFormId) {
+			return Response.json({ error: 'Template form ID is required' }, { status: 400 });
+		}
+
+		const theme = await themeFor(env, config.theme);
+		if (theme instanceof Response) return theme;
+
+		const cloneCall: JotFormCall = {
+			description: 'clone template form',
+			method: 'POST',
+			path: `/form/${config.templateFormId}/clone`
+		};
+
+		if (options.dryRun) {
+			// The clone starts out with the template's questions, so plan against those (read-only)
+			let templateQuestions: JotFormEnvelope;
+			try {
+				templateQuestions = await client.getQuestions(config.templateFormId);
+			} catch (error) {
+				if (error instanceof JotFormError) return jotformErrorResponse('Failed to get template questions', error);
+				throw error;
+			}
+
+			const plan = planTemplateFormCalls(config, '{newFormId}', templateQuestions.content || {}, theme);
+			const conditions = templateConditions(config, templateQuestions.content || {});
+			const calls = [cloneCall, getQuestionsCall('{newFormId}'), ...plan.calls];
+			if (conditions.length > 0 || replacesEmails(config)) {
+				calls.push(getQuestionsCall('{newFormId}'), getPropertiesCall('{newFormId}'), conditionsCall('{newFormId}', formatConditions(conditions, {}).formatted));
+			}
+			const webhookURLs = templateWebhookURLs(config, '{newFormId}', env, options);
+			if (webhookURLs.length > 0 || config.removeTemplateWebhooks) {
+				// The clone starts out with the template's webhooks too
+				let templateWebhooks: JotFormEnvelope<Record<string, string>>;
+				try {
+					templateWebhooks = await client.getWebhooks(config.templateFormId);
+				} catch (error) {
+					if (error instanceof JotFormError) return jotformErrorResponse('Failed to get template webhooks', error);
+					throw error;
+				}
+				calls.push(
+					{ description: 'get webhooks', method: 'GET', path: '/form/{newFormId}/webhooks' },
+					...planWebhooks('{newFormId}', templateWebhooks.content || {}, webhookURLs, !!config.removeTemplateWebhooks).calls
+				);
+			}
+
+			return Response.json({
+				success: true,
+				dryRun: true,
+				templateFormId: config.templateFormId,
+				conditions,
+				calls,
+				warnings: plan.warnings
+			});
+		}
+
+		// Step 1: Clone the template form
+		let cloneResult: JotFormEnvelope;
+		try {
+			cloneResult = await client.send(cloneCall);
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to clone template form', error);
+			throw error;
+		}
+
+		const newFormId = cloneResult.content?.id;
+
+		if (!newFormId) {
+			return Response.json({
+				error: 'Failed to get new form ID from clone response',
+				details: cloneResult
+			}, { status: 500 });
+		}
+
+		// Every step after the clone is recorded; in strict mode the first failure skips the rest and deletes the clone
+		const steps: StepResult[] = [{ name: 'clone template form', status: 'ok' }];
+		const runStep = <T>(name: string, action: () => Promise<T>) => recordStep(steps, name, action, config.strict && hasFailed(steps));
+
+		// Step 2: Get existing questions to find the IDs
+		const questionsData = await runStep('get form questions', () => client.getQuestions(newFormId));
+
+		// Config questions the template lacks. In strict mode each one fails the request; otherwise they're reported
+		// alongside the steps.
+		const warnings: string[] = [];
+		if (questionsData) {
+			// Step 3: Apply the config to the clone (title, questions)
+			const plan = planTemplateFormCalls(config, newFormId, questionsData.content, theme);
+			for (const warning of plan.warnings) {
+				if (config.strict) steps.push({ name: 'match template questions', status: 'failed', error: warning });
+				else warnings.push(warning);
+			}
+
+			for (const call of plan.calls) {
+				await runStep(call.description, () => client.send(call));
+			}
+
+			// Add our conditions alongside the template's own, once any new questions have qids
+			const conditions = templateConditions(config, questionsData.content);
+			if (conditions.length > 0 || replacesEmails(config)) {
+				// The template's email conditions point at emails the config replaced
+				const keep = replacesEmails(config) ? (condition: any) => condition?.type !== 'mail' : true;
+				await runStep('apply conditions', () => applyConditions(client, newFormId, conditions, keep));
+			}
+		}
+
+		// Add webhooks the clone didn't inherit from the template, and drop the inherited ones if asked
+		const webhookURLs = templateWebhookURLs(config, newFormId, env, options);
+		if (webhookURLs.length > 0 || config.removeTemplateWebhooks) {
+			await runStep('sync webhooks', () => syncWebhooks(client, newFormId, webhookURLs, config.removeTemplateWebhooks));
+		}
+
+		if (hasFailed(steps)) {
+			let rolledBack = false;
+			if (config.strict) {
+				// Don't leave a half-configured form behind
+				rolledBack = !!(await recordStep(steps, 'delete cloned form (rollback)', () => client.deleteForm(newFormId)));
+			}
+
+			return Response.json({
+				success: false,
+				error: rolledBack ? 'Form creation failed and the cloned form was deleted' : 'Form created from template but not fully configured',
+				formId: rolledBack ? undefined : newFormId,
+				templateFormId: config.templateFormId,
+				rolledBack,
+				steps,
+				warnings
+			}, { status: 502 });
+		}
+
+		// Step 4: Get the final form details
+		const finalFormResult = await client.getForm(newFormId).catch((error) => {
+			if (!(error instanceof JotFormError)) throw error;
+			console.warn(error.message);
+			return undefined;
+		});
+
+		const formUrl = finalFormResult?.content?.url || `https://form.jotform.com/${newFormId}`;
+		await recordBestEffort(() => registerForm(env.DB, {
+			formId: newFormId,
+			url: formUrl,
+			title: config.title,
+			campaign: config.campaign,
+			templateFormId: config.templateFormId,
+			config,
+			createdBy: options.caller
+		}));
+		if (hasSchedule(config)) {
+			await recordBestEffort(() => saveSchedule(env.DB, newFormId, config, opensLater(config) ? 'waiting' : 'pending'));
+		}
+
+		return Response.json({
+			success: true,
+			message: 'Form created from template successfully',
+			formId: newFormId,
+			formUrl,
+			templateFormId: config.templateFormId,
+			webhookAdded: !!config.webhookURL,
+			submissionsCaptured: !!config.captureSubmissions && steps.some((step) => step.name === 'sync webhooks' && step.status === 'ok'),
+			conditionsApplied: steps.some((step) => step.name === 'apply conditions' && step.status === 'ok'),
+			steps,
+			warnings,
+			data: finalFormResult
+		});
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+function hasFailed(steps: StepResult[]): boolean {
+	return steps.some((step) => step.status === 'failed');
+}
+
+// Run one step and record its outcome. Errors are caught and reported in the step, not thrown.
+async function recordStep<T>(steps: StepResult[], name: string, action: () => Promise<T>, skip = false): Promise<T | undefined> {
+	if (skip) {
+		steps.push({ name, status: 'skipped' });
+		return undefined;
+	}
+
+	try {
+		const result = await action();
+		steps.push({ name, status: 'ok' });
+		return result;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		console.warn(`Step '${name}' failed:`, message);
+		steps.push({ name, status: 'failed', error: message });
+		return undefined;
+	}
+}
+
+// Conditions added on top of the template's: currently just the disqualification path
+function templateConditions(config: TemplateFormConfig, existingQuestions: Record<string, any>): FormCondition[] {
+	if (!config.disqualification || !config.eligibilityQuestions) {
+		return buildEmailConditions(config);
+	}
+
+	// Hide the template's signatures and submit button as well as any signatures we add
+	const hiddenNames = new Set<string>();
+	for (const question of Object.values(existingQuestions)) {
+		if (question?.type === 'control_signature' || question?.type === 'control_button') {
+			hiddenNames.add(question.name);
+		}
+	}
+	for (const sig of config.signatureFields || []) {
+		hiddenNames.add(sig.name);
+	}
+
+	return [...buildDisqualificationConditions(config.eligibilityQuestions, config.disqualification, [...hiddenNames]), ...buildEmailConditions(config)];
+}
+
+function replacesEmails(config: EmailSource): boolean {
+	return !!config.emailNotification || !!config.emails?.length;
+}
+
+function emailsCall(formId: string, config: EmailSource): JotFormCall {
+	return {
+		description: 'update emails',
+		method: 'POST',
+		path: `/form/${formId}/properties`,
+		form: { 'properties[emails]': JSON.stringify(buildEmails(config)) }
+	};
+}
+
+function getQuestionsCall(formId: string): JotFormCall {
+	return {
+		description: 'get form questions',
+		method: 'GET',
+		path: `/form/${formId}/questions`
+	};
+}
+
+// List the calls that turn a freshly cloned template into the configured form.
+// existingQuestions is the clone's (or template's) GET /form/{id}/questions content.
+function planTemplateFormCalls(config: TemplateFormConfig, formId: string, existingQuestions: Record<string, any>, theme?: ThemeConfig) {
+	const calls: JotFormCall[] = [];
+	const warnings: string[] = [];
+
+	// Find question IDs by name
+	const questionsByName = questionIdsByName(existingQuestions);
+
+	const questionPath = (qid: string) => `/form/${formId}/question/${qid}`;
+
+	// Update the cloned form's title
+	if (config.title) {
+		calls.push({
+			description: 'update title',
+			method: 'POST',
+			path: `/form/${formId}/properties`,
+			form: { 'properties[title]': config.title }
+		});
+	}
+
+	// The theme's look over the template's, then the config's own properties
+	const header = headerCall(formId, theme?.header, existingQuestions);
+	if (header) {
+		calls.push(header);
+	}
+	const properties = { ...themeProperties(theme), ...config.properties, ...(opensLater(config) ? { status: 'DISABLED' } : {}) };
+	if (Object.keys(properties).length > 0) {
+		const form: Record<string, string> = {};
+		for (const [key, value] of Object.entries(properties)) {
+			form[`properties[${key}]`] = String(value);
+		}
+		calls.push({ description: 'update properties', method: 'POST', path: `/form/${formId}/properties`, form });
+	}
+
+	// Update eligibility questions
+	if (config.eligibilityQuestions) {
+		for (let i = 0; i < config.eligibilityQuestions.length; i++) {
+			const eq = config.eligibilityQuestions[i];
+			const questionName = `eligibility_question_${i + 1}`;
+			const questionId = questionsByName[questionName];
+
+			if (questionId) {
+				calls.push({
+					description: `update eligibility question ${questionName}`,
+					method: 'POST',
+					path: questionPath(questionId),
+					form: {
+						'question[text]': eq.text,
+						'question[required]': eq.required ? 'Yes' : 'No',
+						// Make sure we're not changing the name
+						'question[name]': questionName
+					}
+				});
+			} else {
+				warnings.push(`Eligibility question ${questionName} not found in template`);
+			}
+		}
+
+		// Delete extra eligibility questions if template has more than provided
+		for (let i = config.eligibilityQuestions.length + 1; i <= 5; i++) {
+			const questionName = `eligibility_question_${i}`;
+			const questionId = questionsByName[questionName];
+
+			if (questionId) {
+				calls.push({
+					description: `delete eligibility question ${questionName}`,
+					method: 'DELETE',
+					path: questionPath(questionId)
+				});
+			}
+		}
+	}
+
+	// Update qualification message (text0)
+	if (config.legalTextBlocks && config.legalTextBlocks.length > 0) {
+		const qualificationMessage = config.legalTextBlocks[0];
+		const text0Id = questionsByName['text0'];
+
+		if (text0Id) {
+			calls.push({
+				description: 'update qualification message (text0)',
+				method: 'POST',
+				path: questionPath(text0Id),
+				form: {
+					'question[text]': qualificationMessage.content,
+					// Keep the same name
+					'question[name]': 'text0'
+				}
+			});
+		} else {
+			warnings.push('text0 field not found in template');
+		}
+	}
+
+	// Delete personal info fields based on config
+	if (config.personalInfoFields) {
+		const personalInfoToggles: Array<[string, boolean | undefined]> = [
+			['name', config.personalInfoFields.includeName],
+			['address', config.personalInfoFields.includeAddress],
+			['email', config.personalInfoFields.includeEmail],
+			['phoneNumber', config.personalInfoFields.includePhone]
+		];
+
+		for (const [fieldName, included] of personalInfoToggles) {
+			if (!included && questionsByName[fieldName]) {
+				calls.push({
+					description: `delete ${fieldName} field`,
+					method: 'DELETE',
+					path: questionPath(questionsByName[fieldName])
+				});
+			}
+		}
+	}
+
+	// Add new questions (hidden fields, widgets, legal text blocks, signature)
+	const newQuestions: Record<string, any> = {};
+	let questionIndex = 1;
+
+	// Add hidden fields (only if they don't already exist)
+	if (config.hiddenFields) {
+		for (const field of config.hiddenFields) {
+			// Check if this hidden field already exists
+			if (!questionsByName[field.name]) {
+				newQuestions[String(questionIndex)] = {
+					type: 'control_textbox',
+					text: field.text,
+					order: String(200 + questionIndex - 1), // High order number to add at end
+					name: field.name,
+					hidden: 'Yes',
+					labelAlign: 'Auto',
+					validation: 'None',
+					size: '20',
+					required: 'No',
+					readonly: field.readonly ? 'Yes' : 'No',
+					...(field.defaultValue ? { defaultValue: field.defaultValue } : {})
+				};
+				questionIndex++;
+			}
+		}
+	}
+
+	// Add widgets (only if they don't already exist)
+	if (config.widgets) {
+		for (const widget of config.widgets) {
+			if (!questionsByName[widget.name] && widgetDefinitions[widget.type]) {
+				newQuestions[String(questionIndex)] = {
+					type: 'control_widget',
+					text: '',
+					order: String(200 + questionIndex - 1),
+					name: widget.name,
+					...widgetDefinitions[widget.type],
+					static: 'No',
+					hidden: 'Yes'
+				};
+				questionIndex++;
+			}
+		}
+	}
+
+	// Add disqualification message next to the eligibility questions
+	if (config.disqualification) {
+		const messageName = disqualificationMessageName(config.disqualification);
+		if (!questionsByName[messageName]) {
+			const eligibilityOrders = Object.values(existingQuestions)
+				.filter((question: any) => /^eligibility_question_\d+$/.test(question?.name))
+				.map((question: any) => Number(question.order) || 0);
+
+			newQuestions[String(questionIndex)] = {
+				type: 'control_text',
+				text: config.disqualification.message,
+				order: String(eligibilityOrders.length > 0 ? Math.max(...eligibilityOrders) : 100),
+				name: messageName
+			};
+			questionIndex++;
+		}
+	}
+
+	// Add remaining legal text blocks (skip first one as it's the qualification message)
+	if (config.legalTextBlocks) {
+		for (let i = 1; i < config.legalTextBlocks.length; i++) {
+			const block = config.legalTextBlocks[i];
+			// Only add if it doesn't already exist
+			if (!questionsByName[block.name || `legalText${i}`]) {
+				newQuestions[String(questionIndex)] = {
+					type: 'control_text',
+					text: block.content,
+					order: String(100 + i), // Place after personal info
+					name: block.name || `legalText${i}`
+				};
+				questionIndex++;
+			}
+		}
+	}
+
+	// Add signature fields (only if they don't already exist)
+	if (config.signatureFields) {
+		for (const sig of config.signatureFields) {
+			if (!questionsByName[sig.name]) {
+				newQuestions[String(questionIndex)] = {
+					type: 'control_signature',
+					text: sig.text,
+					order: String(150), // Place near end
+					name: sig.name,
+					required: sig.required ? 'Yes' : 'No',
+					size: sig.size || '600',
+					labelAlign: 'Auto',
+					validation: 'None'
+				};
+				questionIndex++;
+			}
+		}
+	}
+
+	if (Object.keys(newQuestions).length > 0) {
+		calls.push({
+			description: 'add questions',
+			method: 'PUT',
+			path: `/form/${formId}/questions`,
+			json: { questions: newQuestions }
+		});
+	}
+
+	// The config's emails replace the template's
+	if (replacesEmails(config)) {
+		calls.push(emailsCall(formId, config));
+	}
+
+	return { calls, warnings };
+}
@@ -0,0 +1,17 @@
+/**
+ * SHA-256 and HMAC helpers
+ */
+
+// Hex-encoded SHA-256 of bytes or a UTF-8 string
+export async function sha256(data: Uint8Array | string): Promise<string> {
+	const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+	const digest = await crypto.subtle.digest('SHA-256', bytes);
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Hex-encoded HMAC-SHA256 of a UTF-8 string
+export async function hmacSha256(secret: string, data: string): Promise<string> {
+	const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data));
+	return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,96 @@
+/**
+ * Receiver for JotForm's submission webhooks
+ */
+
+import { claimantSubmission, recordClaimant } from './claimants';
+import { queueDeliveries } from './deliveries';
+import { generateEvidence } from './evidence';
+import { accountForForm, jotformClientFor, jotformErrorResponse, type HandlerOptions } from './forms';
+import { JotFormError, type JotFormSubmission } from './jotform-client';
+import { flagSubmission, screenClaimant, type SubmissionFlag } from './screening';
+import type { Env } from './types';
+
+// POST /hooks/jotform/:formId. JotForm posts multipart form data with submissionID, formID and rawRequest.
+// The submission is read back from the API under the form's account, so a forged post (or one for a submission that doesn't
+// exist) is rejected and its rawRequest is never trusted. The claimant record is then stored, screened, and queued for the
+// form's destinations before responding; work that calls back into JotForm runs after the response, so JotForm isn't kept waiting.
+export async function handleJotFormWebhook(formId: string, request: Request, env: Env, options: HandlerOptions = {}) {
+	let formData: FormData;
+	try {
+		formData = await request.formData();
+	} catch (error) {
+		return Response.json({
+			error: 'Malformed webhook body',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 400 });
+	}
+
+	const submissionId = formData.get('submissionID');
+	if (typeof submissionId !== 'string' || !/^\d+$/.test(submissionId)) {
+		return Response.json({ error: 'Missing submissionID' }, { status: 400 });
+	}
+	if (formData.get('formID') !== formId) {
+		return Response.json({ error: 'formID does not match the webhook URL' }, { status: 400 });
+	}
+
+	let account: string | undefined;
+	let submission: JotFormSubmission;
+	try {
+		account = await accountForForm(formId, env, options);
+		const client = await jotformClientFor({ account }, env, options);
+		if (typeof client === 'string') {
+			return Response.json({ error: client }, { status: 500 });
+		}
+		submission = (await client.getSubmission(submissionId)).content;
+	} catch (error) {
+		if (!(error instanceof JotFormError)) {
+			return Response.json({
+				error: 'Internal server error',
+				message: error instanceof Error ? error.message : 'Unknown error'
+			}, { status: 500 });
+		}
+		if (error.status === 404) {
+			return Response.json({ error: 'Submission not found', submissionId }, { status: 404 });
+		}
+		return jotformErrorResponse('Failed to verify submission', error);
+	}
+	if (submission?.form_id !== formId) {
+		return Response.json({ error: 'Submission not found', submissionId }, { status: 404 });
+	}
+
+	let flag: SubmissionFlag | null = null;
+	try {
+		const claimant = await recordClaimant(env, { ...claimantSubmission(submission), receivedAt: new Date().toISOString() });
+		// Screening is for review; a failure there shouldn't hold up the submission
+		flag = await screenClaimant(env, claimant).catch((error) => {
+			console.error(`Failed to screen submission ${submissionId}:`, error instanceof Error ? error.message : error);
+			return null;
+		});
+		await queueDeliveries(env, claimant);
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+
+	// Flag it in JotForm if screening found something, and snapshot the form's text now, while it still matches what the claimant saw
+	const work = (async () => {
+		if (flag) {
+			await flagSubmission(flag, env, { ...options, account }).catch((error) => {
+				console.error(`Failed to flag submission ${submissionId}:`, error instanceof Error ? error.message : error);
+			});
+		}
+		await generateEvidence(submissionId, env, { ...options, account, trigger: 'webhook' });
+	})()
+		.catch((error) => {
+			console.error(`Failed to generate evidence for submission ${submissionId}:`, error instanceof Error ? error.message : error);
+		});
+	if (options.waitUntil) {
+		options.waitUntil(work);
+	} else {
+		await work;
+	}
+
+	return Response.json({ received: true, submissionId });
+}
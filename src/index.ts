@@ -3,1068 +3,257 @@
  * Creates JotForms dynamically based on configuration
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { cors } from 'hono/cors';
-
-interface Env {
-	JOTFORM_API_KEY: string;
-}
-
-interface FormConfig {
-	title: string;
-	apiKey?: string; // Optional - will use env secret if not provided
-	properties?: Record<string, any>;
-	eligibilityQuestions?: Array<{
-		text: string;
-		name: string;
-		required?: boolean;
-	}>;
-	personalInfoFields?: {
-		includeName?: boolean;
-		includeAddress?: boolean;
-		includeEmail?: boolean;
-		includePhone?: boolean;
-	};
-	legalTextBlocks?: Array<{
-		content: string;
-		name?: string;
-	}>;
-	signatureFields?: Array<{
-		text: string;
-		name: string;
-		required?: boolean;
-		size?: string; // For signature box size
-	}>;
-	hiddenFields?: Array<{
-		name: string;
-		text: string;
-		defaultValue?: string;
-		readonly?: boolean;
-	}>;
-	widgets?: Array<{
-		type: 'userAgent' | 'geoStamp';
-		name: string;
-		text: string;
-	}>;
-	includeCaptcha?: boolean;
-	emailNotification?: {
-		to: string;
-		subject?: string;
-		from?: string;
-	};
-	// Webhook configuration
-	webhookURL?: string;
-	// Conditional logic
-	enableConditionals?: boolean;
-	showPersonalInfoOnlyIfEligible?: boolean;
-	// Custom CSS (can use either customCSS or injectCSS)
-	customCSS?: string;
-	injectCSS?: string;
-	// Line layout settings
-	lineLayout?: {
-		lineSpacing?: string; // Vertical padding (0-50px)
-		horizontalPadding?: string; // Horizontal padding
-		verticalPadding?: string; // Alternative name for lineSpacing
-	};
-}
-
-interface TemplateFormConfig {
-	templateFormId: string;
-	apiKey?: string;
-	title: string;
-	eligibilityQuestions?: Array<{
-		text: string;
-		name: string;
-		required?: boolean;
-	}>;
-	personalInfoFields?: {
-		includeName?: boolean;
-		includeAddress?: boolean;
-		includeEmail?: boolean;
-		includePhone?: boolean;
-	};
-	legalTextBlocks?: Array<{
-		content: string;
-		name?: string;
-	}>;
-	signatureFields?: Array<{
-		text: string;
-		name: string;
-		required?: boolean;
-		size?: string;
-	}>;
-	hiddenFields?: Array<{
-		name: string;
-		text: string;
-		defaultValue?: string;
-		readonly?: boolean;
-	}>;
-	widgets?: Array<{
-		type: 'userAgent' | 'geoStamp';
-		name: string;
-	}>;
-	includeCaptcha?: boolean;
-	emailNotification?: {
-		to: string;
-		subject?: string;
-		from?: string;
-	};
-	// Webhook configuration
-	webhookURL?: string;
-}
-
-interface UpdateFormConfig {
-	formId: string;
-	apiKey?: string;
-	updateType: 'properties' | 'questions' | 'conditions';
-	// For property updates
-	properties?: Record<string, any>;
-	// For question updates
-	questionUpdates?: Array<{
-		questionId: string;
-		action: 'update' | 'delete' | 'add';
-		questionData?: any;
-		newOrder?: number;
-	}>;
-	// For adding new questions
-	newQuestions?: Array<JotFormQuestion>;
-	// For conditional updates
-	conditions?: Array<{
-		id?: string;
-		terms: Array<{
-			field: string;
-			operator: string;
-			value: string;
-		}>;
-		actions: Array<{
-			field: string;
-			visibility: 'Show' | 'Hide';
-		}>;
-		link: 'All' | 'Any';
-	}>;
-}
-
-interface JotFormQuestion {
-	type: string;
-	text: string;
-	order: string;
-	name: string;
-	[key: string]: any;
-}
-
-const app = new Hono<{ Bindings: Env }>();
-
-// Enable CORS
+import { handleListAccounts } from './accounts';
+import { allowedOrigin, bodyApiKeyAllowed, forbidden, handleCreateToken, handleListTokens, handleRevokeToken, requireScope, type AuthVariables, type Scope } from './auth';
+import {
+	deliveriesQueue,
+	handleDeliveryBatch,
+	handleGetDestinations,
+	handleListDeliveries,
+	handlePutDestinations,
+	handleReplayDelivery,
+	type DeliveryMessage,
+	type DestinationInput
+} from './deliveries';
+import { handleGetEvidence } from './evidence';
+import { handleApplyFormConfig, handleCreateForm, handleCreateFormFromTemplate, handleExportFormConfig, handleUpdateForm } from './forms';
+import { handleJotFormWebhook } from './hooks';
+import { handleCreateCampaign, handleGetJob, handleJobBatch, handleRetryJob, type CampaignRequest, type JobMessage } from './jobs';
+import { handleDeleteForm, handleListScheduleRuns, handleRunSchedules, handleSetFormStatus, runSchedules, type StatusAction } from './lifecycle';
+import { handleGetForm, handleListForms } from './registry';
+import { isFlagSet } from './query';
+import { handleListFlags, handleScreenSubmissions } from './screening';
+import { handleCampaignStats, handleFormStats } from './stats';
+import { handleExportSubmissions } from './submissions';
+import { handleApplyTheme, handleGetTheme, handlePutTheme } from './themes';
+import { handleCreateTranslatedForms } from './translations';
+import type { Env, FormConfig, TemplateFormConfig, ThemeConfig, UpdateFormConfig } from './types';
+import {
+	validateCampaignRequest,
+	validateDestinationsRequest,
+	validateFormConfig,
+	validateTemplateFormConfig,
+	validateThemeRequest,
+	validateTokenRequest,
+	validateUpdateFormConfig,
+	validateWebhooksRequest,
+	type ValidationIssue
+} from './validation';
+import { handleDeleteWebhook, handleListWebhooks, handlePutWebhooks } from './webhooks';
+
+type AppEnv = { Bindings: Env; Variables: AuthVariables };
+
+const app = new Hono<AppEnv>();
+
+// Enable CORS for the origins in CORS_ORIGINS
 app.use('*', cors({
-	origin: '*',
-	allowMethods: ['GET', 'POST', 'OPTIONS'],
-	allowHeaders: ['Content-Type'],
+	origin: (origin, c) => allowedOrigin(origin, c.env),
+	allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+	allowHeaders: ['Content-Type', 'Authorization'],
 }));
 
 // Test endpoints
 app.get('/message', (c) => c.text('Hello, World!'));
 app.get('/random', (c) => c.text(crypto.randomUUID()));
 
+// Everything else needs a bearer token with the route's scope (see auth.ts)
+
 // Form creation endpoints
-app.post('/create-form', async (c) => {
-	const config: FormConfig = await c.req.json();
-	return handleCreateForm(config, c.env);
+// Pass ?dryRun=true to any of these to get the planned JotForm calls back without creating or changing anything
+app.post('/create-form', requireScope('forms:create'), async (c) => {
+	const config = await readConfig<FormConfig>(c, validateFormConfig);
+	if (config instanceof Response) return config;
+	const options = { dryRun: isFlagSet(c.req.query('dryRun')), caller: c.get('client'), origin: new URL(c.req.url).origin };
+	// With translations, one form per locale
+	return config.translations ? handleCreateTranslatedForms(config, c.env, options) : handleCreateForm(config, c.env, options);
 });
 
-app.post('/update-form', async (c) => {
-	const config: UpdateFormConfig = await c.req.json();
-	return handleUpdateForm(config, c.env);
+app.post('/update-form', requireScope('forms:update'), async (c) => {
+	const config = await readConfig<UpdateFormConfig>(c, validateUpdateFormConfig);
+	if (config instanceof Response) return config;
+	return handleUpdateForm(config, c.env, { dryRun: isFlagSet(c.req.query('dryRun')), caller: c.get('client') });
 });
 
-app.post('/create-form-from-template', async (c) => {
-	const config: TemplateFormConfig = await c.req.json();
-	return handleCreateFormFromTemplate(config, c.env);
+app.post('/create-form-from-template', requireScope('forms:create'), async (c) => {
+	const config = await readConfig<TemplateFormConfig>(c, validateTemplateFormConfig);
+	if (config instanceof Response) return config;
+	return handleCreateFormFromTemplate(config, c.env, { dryRun: isFlagSet(c.req.query('dryRun')), caller: c.get('client'), origin: new URL(c.req.url).origin });
 });
 
-export default app;
-
-async function handleCreateForm(config: FormConfig, env: Env) {
-	try {
-		// Use API key from config if provided, otherwise use environment secret
-		const apiKey = config.apiKey || env.JOTFORM_API_KEY;
-		
-		if (!apiKey) {
-			return Response.json({ error: 'API key not configured' }, { status: 400 });
-		}
-
-		// Build questions array
-		const questions: JotFormQuestion[] = [];
-		let orderCounter = 1;
+// Form registry: forms created by this worker, filterable by ?campaign=, ?templateFormId=, ?translationGroup= and ?theme=, paged with ?limit=&offset=
+app.get('/forms', requireScope('forms:read'), (c) => handleListForms(c.req.query(), c.env));
+
+app.get('/forms/:id', requireScope('forms:read'), (c) => handleGetForm(c.req.param('id'), c.env));
+
+// The live form as a FormConfig, for forms built by hand in JotForm
+// Routes that only have a form or submission id use ?account= if given, else the account the form was created under
+app.get('/forms/:id/config', requireScope('forms:read'), (c) => handleExportFormConfig(c.req.param('id'), c.env, { account: c.req.query('account') }));
+
+// Submissions with compound answers flattened into columns: ?format=csv|json|ndjson&from=&to=&status=&offset=&limit=
+// Carry on from the response's nextOffset (the X-Next-Offset header for CSV and NDJSON)
+app.get('/forms/:id/submissions', requireScope('submissions:read'), (c) =>
+	handleExportSubmissions(c.req.param('id'), c.req.query(), c.env, { account: c.req.query('account') })
+);
+
+// Consent evidence for a submission: ?format=pdf (default) or json (manifest and SHA-256 hashes)
+app.get('/submissions/:id/evidence', requireScope('submissions:read'), (c) =>
+	handleGetEvidence(c.req.param('id'), c.req.query('format'), c.env, { account: c.req.query('account') })
+);
+
+// Submissions by day, eligibility rates, signature completion, tracking field values and geo stamp locations, cached for
+// 15 minutes per form; ?refresh=true recomputes
+app.get('/forms/:id/stats', requireScope('submissions:read'), (c) =>
+	handleFormStats(c.req.param('id'), c.req.query(), c.env, { account: c.req.query('account') })
+);
+
+// Screen the form's submissions for duplicates and fraud signals, flagging them in JotForm (the webhook screens each as it
+// arrives). Paged with ?offset=&limit= (up to 1000) in JotForm's order; screen older pages first.
+app.post('/forms/:id/screen', requireScope('forms:update'), (c) =>
+	handleScreenSubmissions(c.req.param('id'), c.req.query(), c.env, { account: c.req.query('account') })
+);
+
+// JotForm submission webhooks; point a form's webhook at /hooks/jotform/{formId} (captureSubmissions does it for you).
+// JotForm can't send a token, so the posted submission is only recorded once it's been read back from the API.
+app.post('/hooks/jotform/:formId', (c) =>
+	handleJotFormWebhook(c.req.param('formId'), c.req.raw, c.env, { waitUntil: (promise) => c.executionCtx.waitUntil(promise) })
+);
+
+// Sync the live form to a FormConfig; ?plan=true returns the diff and calls without changing anything
+app.post('/forms/:id/apply', requireScope('forms:update'), async (c) => {
+	const config = await readConfig<FormConfig>(c, validateFormConfig);
+	if (config instanceof Response) return config;
+	return handleApplyFormConfig(c.req.param('id'), config, c.env, { dryRun: isFlagSet(c.req.query('plan')), caller: c.get('client') });
+});
 
-		// Add header
-		questions.push({
-			type: 'control_head',
-			text: config.title || 'Form Title',
-			order: String(orderCounter++),
-			name: 'header'
-		});
+// Form status: enabling, disabling or archiving a form by hand takes it off its schedule (opensAt, closesAt, maxSubmissions)
+// until the config's schedule changes. Deleted forms go to JotForm's trash. ?dryRun=true returns the call instead.
+app.post('/forms/:id/:action{enable|disable|archive}', requireScope('forms:update'), (c) =>
+	handleSetFormStatus(c.req.param('id'), c.req.param('action') as StatusAction, c.env, { dryRun: isFlagSet(c.req.query('dryRun')), account: c.req.query('account') })
+);
 
-		// Add eligibility questions
-		if (config.eligibilityQuestions) {
-			for (const eq of config.eligibilityQuestions) {
-				questions.push({
-					type: 'control_radio',
-					text: eq.text,
-					order: String(orderCounter++),
-					name: eq.name,
-					required: eq.required ? 'Yes' : 'No',
-					options: 'Yes|No'
-				});
-			}
-		}
+app.delete('/forms/:id', requireScope('forms:update'), (c) =>
+	handleDeleteForm(c.req.param('id'), c.env, { dryRun: isFlagSet(c.req.query('dryRun')), account: c.req.query('account') })
+);
 
-		// Skip page break - keep everything on same page for conditionals
+// The Cron Trigger opens and closes scheduled forms; POST /schedules/run does the same now (?dryRun=true just reports).
+// GET /schedules/runs lists the runs that changed something, newest first, paged with ?limit=&offset=
+app.post('/schedules/run', requireScope('forms:update'), (c) => handleRunSchedules(c.env, { dryRun: isFlagSet(c.req.query('dryRun')) }));
 
-		// Add legal text before personal info
-		if (config.legalTextBlocks) {
-			for (let i = 0; i < config.legalTextBlocks.length; i++) {
-				const block = config.legalTextBlocks[i];
-				if (i === 0) { // First legal block typically goes before personal info
-					questions.push({
-						type: 'control_text',
-						text: block.content,
-						order: String(orderCounter++),
-						name: block.name || `legalText${i}`
-					});
-				}
-			}
-		}
+app.get('/schedules/runs', requireScope('forms:read'), (c) => handleListScheduleRuns(c.req.query(), c.env));
 
-		// Add personal info fields
-		if (config.personalInfoFields) {
-			if (config.personalInfoFields.includeName) {
-				questions.push({
-					type: 'control_fullname',
-					text: 'Name *',
-					order: String(orderCounter++),
-					name: 'name',
-					required: 'Yes',
-					labelAlign: 'Auto',
-					validation: 'None',
-					sublabels: JSON.stringify({
-						prefix: 'Prefix',
-						first: 'First Name',
-						middle: 'Middle Name',
-						last: 'Last Name',
-						suffix: 'Suffix'
-					}),
-					size: '20',
-					readonly: 'No'
-				});
-			}
+// Named JotForm accounts (never their keys), each checked against GET /user
+app.get('/accounts', requireScope('accounts:read'), (c) => handleListAccounts(c.env));
 
-			if (config.personalInfoFields.includeAddress) {
-				questions.push({
-					type: 'control_address',
-					text: 'Address *',
-					order: String(orderCounter++),
-					name: 'address',
-					required: 'Yes',
-					labelAlign: 'Auto',
-					validation: 'None',
-					sublabels: JSON.stringify({
-						addr_line1: 'Street Address',
-						addr_line2: 'Street Address Line 2',
-						city: 'City',
-						state: 'State',
-						postal: 'Zip Code',
-						country: 'Country'
-					}),
-					size: '20',
-					readonly: 'No'
-				});
-			}
+// Campaigns: create many forms from a base config plus per-form overrides, in the background.
+// Poll GET /jobs/:id for progress; POST /jobs/:id/retry re-queues the failed items.
+app.post('/campaigns', requireScope('forms:create'), async (c) => {
+	const body = await readConfig<CampaignRequest>(c, validateCampaignRequest);
+	if (body instanceof Response) return body;
+	return handleCreateCampaign(body, c.env, { dryRun: isFlagSet(c.req.query('dryRun')), caller: c.get('client'), origin: new URL(c.req.url).origin });
+});
 
-			if (config.personalInfoFields.includeEmail) {
-				questions.push({
-					type: 'control_email',
-					text: 'Email *',
-					order: String(orderCounter++),
-					name: 'email',
-					required: 'Yes',
-					labelAlign: 'Auto',
-					validation: 'Email',
-					size: '20',
-					readonly: 'No'
-				});
-			}
+app.get('/jobs/:id', requireScope('forms:read'), (c) => handleGetJob(c.req.param('id'), c.env));
 
-			if (config.personalInfoFields.includePhone) {
-				questions.push({
-					type: 'control_phone',
-					text: 'Phone Number *',
-					order: String(orderCounter++),
-					name: 'phoneNumber',
-					required: 'Yes',
-					labelAlign: 'Auto',
-					validation: 'None',
-					countryCode: 'No',
-					inputMask: 'enable',
-					inputMaskValue: '(###) ###-####',
-					size: '20',
-					readonly: 'No',
-					sublabels: JSON.stringify({
-						country: 'Country Code',
-						area: 'Area Code',
-						phone: 'Phone Number',
-						full: 'Phone Number',
-						masked: 'Please enter a valid phone number.'
-					})
-				});
-			}
-		}
+app.post('/jobs/:id/retry', requireScope('forms:create'), (c) => handleRetryJob(c.req.param('id'), c.env, { origin: new URL(c.req.url).origin }));
 
-		// Add page break before signature section
-		questions.push({
-			type: 'control_pagebreak',
-			text: 'Page Break',
-			order: String(orderCounter++),
-			name: 'pageBreak2'
-		});
+// Submissions flagged by screening on any of the campaign's forms, newest first: ?type=duplicate|geoMismatch|headlessUserAgent|ipBurst,
+// paged with ?limit=&offset=
+app.get('/campaigns/:id/flags', requireScope('submissions:read'), (c) => handleListFlags(c.req.param('id'), c.req.query(), c.env));
 
-		// Add remaining legal text blocks
-		if (config.legalTextBlocks) {
-			for (let i = 1; i < config.legalTextBlocks.length; i++) {
-				const block = config.legalTextBlocks[i];
-				questions.push({
-					type: 'control_text',
-					text: block.content,
-					order: String(orderCounter++),
-					name: block.name || `legalText${i}`
-				});
-			}
-		}
+// The stats of every form in the campaign added up; ?refresh=true recomputes
+app.get('/campaigns/:id/stats', requireScope('submissions:read'), (c) => handleCampaignStats(c.req.param('id'), c.req.query(), c.env));
 
-		// Add signature fields
-		if (config.signatureFields) {
-			for (const sig of config.signatureFields) {
-				questions.push({
-					type: 'control_signature',
-					text: sig.text,
-					order: String(orderCounter++),
-					name: sig.name,
-					required: sig.required ? 'Yes' : 'No',
-					size: sig.size || '600', // Wider signature box by default
-					labelAlign: 'Auto',
-					validation: 'None'
-				});
-			}
-		}
+// The form's JotForm webhooks. PUT replaces the set (?dryRun=true shows the changes); DELETE removes ?url=.
+app.get('/forms/:id/webhooks', requireScope('forms:read'), (c) => handleListWebhooks(c.req.param('id'), c.env, { account: c.req.query('account') }));
 
-		// Add captcha (invisible reCAPTCHA)
-		if (config.includeCaptcha) {
-			questions.push({
-				type: 'control_captcha',
-				text: 'Please verify that you are human',
-				order: String(orderCounter++),
-				name: 'captcha',
-				captchaType: 'invisible', // Use invisible reCAPTCHA
-				useInvisibleRecaptcha: 'Yes'
-			});
-		}
+app.put('/forms/:id/webhooks', requireScope('forms:update'), async (c) => {
+	const body = await readConfig<{ webhooks: string[] }>(c, validateWebhooksRequest);
+	if (body instanceof Response) return body;
+	return handlePutWebhooks(c.req.param('id'), body, c.env, { dryRun: isFlagSet(c.req.query('dryRun')), account: c.req.query('account') });
+});
 
-		// Add submit button
-		questions.push({
-			type: 'control_button',
-			text: 'Submit',
-			order: String(orderCounter++),
-			name: 'submit'
-		});
+app.delete('/forms/:id/webhooks', requireScope('forms:update'), (c) =>
+	handleDeleteWebhook(c.req.param('id'), c.req.query('url'), c.env, { dryRun: isFlagSet(c.req.query('dryRun')), account: c.req.query('account') })
+);
 
-		// Add hidden fields at the beginning with proper order
-		if (config.hiddenFields) {
-			for (const field of config.hiddenFields) {
-				questions.unshift({
-					type: 'control_textbox',
-					text: field.text,
-					order: String(config.hiddenFields.indexOf(field) + 1),
-					name: field.name,
-					hidden: 'Yes',
-					labelAlign: 'Auto',
-					validation: 'None',
-					size: '20',
-					required: 'No',
-					readonly: field.readonly ? 'Yes' : 'No',
-					...(field.defaultValue ? { defaultValue: field.defaultValue } : {})
-				});
-			}
-			// Reorder all other questions
-			for (let i = config.hiddenFields.length; i < questions.length; i++) {
-				questions[i].order = String(i + 1);
-			}
-		}
+// Downstream destinations for a form's submission events (each delivery signed, see deliveries.ts).
+// PUT replaces the list; a generated secret is returned once.
+app.get('/forms/:id/destinations', requireScope('forms:read'), (c) => handleGetDestinations(c.req.param('id'), c.env));
 
-		// Add widgets (invisible data collectors)
-		if (config.widgets) {
-			for (const widget of config.widgets) {
-				if (widget.type === 'userAgent') {
-					questions.push({
-						type: 'control_widget',
-						text: 'userAgent', // Empty text so it doesn't show as a field label
-						order: String(orderCounter++),
-						name: widget.name,
-						cfname: 'Get User Agent',
-						selectedField: '543ea3eb3066feaa30000036',
-						static: 'No',
-						hidden: 'Yes' // Hide the widget from view
-					});
-				} else if (widget.type === 'geoStamp') {
-					questions.push({
-						type: 'control_widget',
-						text: 'geoStamp', // Empty text so it doesn't show as a field label
-						order: String(orderCounter++),
-						name: widget.name,
-						cfname: 'Geo Stamp',
-						selectedField: '5935688a725d1797050002e7',
-						static: 'No',
-						hidden: 'Yes' // Hide the widget from view
-					});
-				}
-			}
-		}
+app.put('/forms/:id/destinations', requireScope('forms:update'), async (c) => {
+	const body = await readConfig<{ destinations: DestinationInput[] }>(c, validateDestinationsRequest);
+	if (body instanceof Response) return body;
+	return handlePutDestinations(c.req.param('id'), body, c.env);
+});
 
-		// Prepare the form data for JotForm API with properties matching the original
-		const formData: any = {
-			properties: {
-				title: config.title || 'New Form',
-				height: '600',
-				formWidth: '752',
-				labelWidth: '230',
-				font: 'Inter',
-				fontsize: '14',
-				fontcolor: '#121212',
-				background: 'rgba(255,255,255,0)',
-				pageColor: '#F3F3FE',
-				alignment: 'Top',
-				lineSpacing: config.lineLayout?.lineSpacing || config.lineLayout?.verticalPadding || '4',
-				styles: 'nova',
-				themeID: '5e6b428acc8c4e222d1beb91',
-				showProgressBar: 'disable',
-				errorNavigation: 'Yes',
-				highlightLine: 'Enabled',
-				responsive: 'No',
-				// Add custom CSS if provided (support both customCSS and injectCSS)
-				...(config.customCSS ? { injectCSS: config.customCSS } : {}),
-				...(config.injectCSS ? { injectCSS: config.injectCSS } : {}),
-				// Add horizontal padding if specified
-				...(config.lineLayout?.horizontalPadding ? { horizontalPadding: config.lineLayout.horizontalPadding } : {}),
-				...config.properties
-			},
-			questions: questions,
-			emails: [] as Array<{
-				type: string;
-				name: string;
-				from: string;
-				to: string;
-				subject: string;
-				html: string;
-			}>
-		};
+// Deliveries to destinations: ?formId=&submissionId=&destination=&status=pending|delivered|dead, paged with ?limit=&offset=
+app.get('/deliveries', requireScope('submissions:read'), (c) => handleListDeliveries(c.req.query(), c.env));
 
-		// Add conditional logic if enabled
-		if (config.enableConditionals && config.showPersonalInfoOnlyIfEligible && config.eligibilityQuestions) {
-			const conditions = [];
-			
-			// Find question IDs for eligibility questions (they start from order 1)
-			const eligibilityQuestionIds = [];
-			const personalInfoQuestionIds = [];
-			
-			// Get eligibility question IDs (assuming they're the first questions after header)
-			for (let i = 0; i < config.eligibilityQuestions.length; i++) {
-				eligibilityQuestionIds.push(String(i + 2)); // +2 because header is 1, eligibility starts at 2
-			}
-			
-			// Get personal info question IDs (they come after eligibility + first legal text, no page break)
-			let personalInfoStartOrder = config.eligibilityQuestions.length + 2; // header + eligibility questions
-			if (config.legalTextBlocks && config.legalTextBlocks.length > 0) {
-				personalInfoStartOrder += 1; // first legal text (no page break)
-			}
-			
-			if (config.personalInfoFields?.includeName) personalInfoQuestionIds.push(String(personalInfoStartOrder++));
-			if (config.personalInfoFields?.includeAddress) personalInfoQuestionIds.push(String(personalInfoStartOrder++));
-			if (config.personalInfoFields?.includeEmail) personalInfoQuestionIds.push(String(personalInfoStartOrder++));
-			if (config.personalInfoFields?.includePhone) personalInfoQuestionIds.push(String(personalInfoStartOrder++));
-			
-			// Also include the first legal text block in the conditional
-			if (config.legalTextBlocks && config.legalTextBlocks.length > 0) {
-				personalInfoQuestionIds.unshift(String(config.eligibilityQuestions.length + 2)); // First legal text
-			}
-			
-			// Create condition: Show personal info only if all eligibility questions are "Yes"
-			if (personalInfoQuestionIds.length > 0) {
-				const terms = eligibilityQuestionIds.map((qid, index) => ({
-					id: `term_${Date.now()}_${index}`,
-					field: qid,
-					operator: 'equals',
-					value: 'Yes',
-					isError: false
-				}));
-				
-				const actions = personalInfoQuestionIds.map((qid, index) => ({
-					id: `action_${Date.now()}_${index}`,
-					visibility: 'Show',
-					isError: false,
-					field: qid
-				}));
-				
-				conditions.push({
-					id: `condition_${Date.now()}`,
-					index: '0',
-					link: 'All',
-					priority: '0',
-					type: 'field',
-					terms: JSON.stringify(terms),
-					action: JSON.stringify(actions)
-				});
-			}
-			
-			if (conditions.length > 0) {
-				formData.properties.conditions = conditions;
-			}
-		}
+// Send a dead delivery again
+app.post('/deliveries/:id/replay', requireScope('forms:update'), (c) => handleReplayDelivery(c.req.param('id'), c.env));
 
-		// Add email notification if configured
-		if (config.emailNotification) {
-			formData.emails.push({
-				type: 'notification',
-				name: 'notification',
-				from: config.emailNotification.from || 'default',
-				to: config.emailNotification.to,
-				subject: config.emailNotification.subject || 'New Form Submission',
-				html: 'true'
-			});
-		}
+// Named themes that configs refer to with theme. Changing one doesn't touch existing forms until
+// POST /themes/:name/apply re-applies it to the registered forms using it, a page at a time: repeat with ?cursor= set to
+// the response's nextCursor until there isn't one (?dryRun=true lists the calls).
+app.get('/themes/:name', requireScope('forms:read'), (c) => handleGetTheme(c.req.param('name'), c.env));
 
-		// Make API call to JotForm
-		const jotformResponse = await fetch(`https://api.jotform.com/form?apiKey=${apiKey}`, {
-			method: 'PUT',
-			headers: {
-				'Content-Type': 'application/json',
-			},
-			body: JSON.stringify(formData)
-		});
+app.put('/themes/:name', requireScope('forms:update'), async (c) => {
+	const body = await readConfig<ThemeConfig>(c, validateThemeRequest);
+	if (body instanceof Response) return body;
+	return handlePutTheme(c.req.param('name'), body, c.env);
+});
 
-		if (!jotformResponse.ok) {
-			const errorText = await jotformResponse.text();
-			return Response.json({ 
-				error: 'Failed to create form',
-				details: errorText 
-			}, { status: jotformResponse.status });
-		}
+app.post('/themes/:name/apply', requireScope('forms:update'), (c) =>
+	handleApplyTheme(c.req.param('name'), c.req.query(), c.env, { dryRun: isFlagSet(c.req.query('dryRun')) })
+);
 
-		const result = await jotformResponse.json() as any;
-		const newFormId = result.content?.id;
+// Token management. The token is only shown in the response to POST /tokens.
+app.post('/tokens', requireScope('tokens:manage'), async (c) => {
+	const body = await readConfig<{ name: string; scopes: Scope[] }>(c, validateTokenRequest);
+	if (body instanceof Response) return body;
+	return handleCreateToken(body, c.env);
+});
 
-		// Add webhook if specified
-		if (config.webhookURL && newFormId) {
-			const webhookFormData = new FormData();
-			webhookFormData.append('webhookURL', config.webhookURL);
-			
-			const webhookResponse = await fetch(`https://api.jotform.com/form/${newFormId}/webhooks?apiKey=${apiKey}`, {
-				method: 'POST',
-				body: webhookFormData
-			});
+app.get('/tokens', requireScope('tokens:manage'), (c) => handleListTokens(c.env));
 
-			if (!webhookResponse.ok) {
-				console.warn('Failed to add webhook:', await webhookResponse.text());
-				// Don't fail the entire request if webhook fails
-			}
-		}
-		
-		return Response.json({
-			success: true,
-			formId: result.content?.id,
-			formUrl: result.content?.url,
-			webhookAdded: !!config.webhookURL,
-			data: result
-		});
+app.delete('/tokens/:id', requireScope('tokens:manage'), (c) => handleRevokeToken(c.req.param('id'), c.env));
 
-	} catch (error) {
-		return Response.json({ 
-			error: 'Internal server error',
-			message: error instanceof Error ? error.message : 'Unknown error'
-		}, { status: 500 });
+export default {
+	fetch: app.fetch,
+	// One consumer for both queues (wrangler.jsonc)
+	queue: (batch, env) =>
+		batch.queue === deliveriesQueue
+			? handleDeliveryBatch(batch as MessageBatch<DeliveryMessage>, env)
+			: handleJobBatch(batch as MessageBatch<JobMessage>, env),
+	// The Cron Trigger (wrangler.jsonc)
+	scheduled: async (_controller, env) => {
+		await runSchedules(env);
 	}
-}
+} satisfies ExportedHandler<Env, JobMessage | DeliveryMessage>;
 
-async function handleUpdateForm(config: UpdateFormConfig, env: Env) {
+// Parse and validate a JSON request body. Returns the error response instead when it's malformed (400), invalid (422)
+// or passes its own JotForm apiKey when ALLOW_BODY_API_KEY forbids it (403).
+async function readConfig<T>(c: Context<AppEnv>, validate: (value: unknown) => ValidationIssue[]): Promise<T | Response> {
+	let body: unknown;
 	try {
-		// Use API key from config if provided, otherwise use environment secret
-		const apiKey = config.apiKey || env.JOTFORM_API_KEY;
-		
-		if (!apiKey) {
-			return Response.json({ error: 'API key not configured' }, { status: 400 });
-		}
-
-		if (!config.formId) {
-			return Response.json({ error: 'Form ID is required' }, { status: 400 });
-		}
-
-		let jotformResponse;
-		
-		switch (config.updateType) {
-			case 'properties':
-				if (!config.properties) {
-					return Response.json({ error: 'Properties data required for properties update' }, { status: 400 });
-				}
-				
-				// Update form properties
-				const formData = new FormData();
-				for (const [key, value] of Object.entries(config.properties)) {
-					formData.append(`properties[${key}]`, String(value));
-				}
-				
-				jotformResponse = await fetch(`https://api.jotform.com/form/${config.formId}/properties?apiKey=${apiKey}`, {
-					method: 'POST',
-					body: formData
-				});
-				break;
-				
-			case 'questions':
-				if (config.questionUpdates) {
-					// Handle question updates/deletions first
-					for (const update of config.questionUpdates) {
-						if (update.action === 'delete') {
-							// Delete question
-							await fetch(`https://api.jotform.com/form/${config.formId}/question/${update.questionId}?apiKey=${apiKey}`, {
-								method: 'DELETE'
-							});
-						} else if (update.action === 'update' && update.questionData) {
-							// Update question
-							const questionFormData = new FormData();
-							for (const [key, value] of Object.entries(update.questionData)) {
-								questionFormData.append(`question[${key}]`, String(value));
-							}
-							
-							await fetch(`https://api.jotform.com/form/${config.formId}/question/${update.questionId}?apiKey=${apiKey}`, {
-								method: 'POST',
-								body: questionFormData
-							});
-						}
-					}
-				}
-				
-				// Add new questions if provided
-				if (config.newQuestions && config.newQuestions.length > 0) {
-					const questionsData = {
-						questions: config.newQuestions.reduce((acc, question, index) => {
-							acc[String(index + 1)] = question;
-							return acc;
-						}, {} as Record<string, any>)
-					};
-					
-					jotformResponse = await fetch(`https://api.jotform.com/form/${config.formId}/questions?apiKey=${apiKey}`, {
-						method: 'PUT',
-						headers: {
-							'Content-Type': 'application/json'
-						},
-						body: JSON.stringify(questionsData)
-					});
-				} else {
-					// Just return success for question updates/deletions
-					return Response.json({
-						success: true,
-						message: 'Questions updated successfully'
-					});
-				}
-				break;
-				
-			case 'conditions':
-				if (!config.conditions) {
-					return Response.json({ error: 'Conditions data required for conditions update' }, { status: 400 });
-				}
-				
-				// Format conditions for JotForm API
-				const formattedConditions = config.conditions.map((condition, index) => ({
-					id: condition.id || `condition_${Date.now()}_${index}`,
-					index: String(index),
-					link: condition.link,
-					priority: String(index),
-					type: 'field',
-					terms: JSON.stringify(condition.terms.map((term, termIndex) => ({
-						id: `term_${Date.now()}_${termIndex}`,
-						field: term.field,
-						operator: term.operator,
-						value: term.value,
-						isError: false
-					}))),
-					action: JSON.stringify(condition.actions.map((action, actionIndex) => ({
-						id: `action_${Date.now()}_${actionIndex}`,
-						visibility: action.visibility,
-						isError: false,
-						field: action.field
-					})))
-				}));
-				
-				// Update form properties with conditions
-				const conditionsFormData = new FormData();
-				conditionsFormData.append('properties[conditions]', JSON.stringify(formattedConditions));
-				
-				jotformResponse = await fetch(`https://api.jotform.com/form/${config.formId}/properties?apiKey=${apiKey}`, {
-					method: 'POST',
-					body: conditionsFormData
-				});
-				break;
-				
-			default:
-				return Response.json({ error: 'Invalid update type. Must be: properties, questions, or conditions' }, { status: 400 });
-		}
-
-		if (!jotformResponse.ok) {
-			const errorText = await jotformResponse.text();
-			return Response.json({ 
-				error: 'Failed to update form',
-				details: errorText 
-			}, { status: jotformResponse.status });
-		}
-
-		const result = await jotformResponse.json() as any;
-		
-		return Response.json({
-			success: true,
-			message: `Form ${config.updateType} updated successfully`,
-			data: result
-		});
-
+		body = await c.req.json();
 	} catch (error) {
-		return Response.json({ 
-			error: 'Internal server error',
+		return Response.json({
+			error: 'Malformed JSON',
 			message: error instanceof Error ? error.message : 'Unknown error'
-		}, { status: 500 });
+		}, { status: 400 });
 	}
-}
-
-async function handleCreateFormFromTemplate(config: TemplateFormConfig, env: Env) {
-	try {
-		// Use API key from config if provided, otherwise use environment secret
-		const apiKey = config.apiKey || env.JOTFORM_API_KEY;
-		
-		if (!apiKey) {
-			return Response.json({ error: 'API key not configured' }, { status: 400 });
-		}
-
-		if (!config.templateFormId) {
-			return Response.json({ error: 'Template form ID is required' }, { status: 400 });
-		}
-
-		// Step 1: Clone the template form
-		const cloneResponse = await fetch(`https://api.jotform.com/form/${config.templateFormId}/clone?apiKey=${apiKey}`, {
-			method: 'POST'
-		});
-
-		if (!cloneResponse.ok) {
-			const errorText = await cloneResponse.text();
-			return Response.json({ 
-				error: 'Failed to clone template form',
-				details: errorText 
-			}, { status: cloneResponse.status });
-		}
-
-		const cloneResult = await cloneResponse.json() as any;
-		const newFormId = cloneResult.content?.id;
-
-		if (!newFormId) {
-			return Response.json({ 
-				error: 'Failed to get new form ID from clone response',
-				details: cloneResult 
-			}, { status: 500 });
-		}
-
-		// Step 2: Update the cloned form's title
-		if (config.title) {
-			const titleFormData = new FormData();
-			titleFormData.append('properties[title]', config.title);
-			
-			await fetch(`https://api.jotform.com/form/${newFormId}/properties?apiKey=${apiKey}`, {
-				method: 'POST',
-				body: titleFormData
-			});
-		}
-
-		// Step 3: Get existing questions to find the IDs
-		const questionsResponse = await fetch(`https://api.jotform.com/form/${newFormId}/questions?apiKey=${apiKey}`);
-		if (!questionsResponse.ok) {
-			return Response.json({ 
-				error: 'Failed to get form questions',
-				details: await questionsResponse.text() 
-			}, { status: questionsResponse.status });
-		}
-
-		const questionsData = await questionsResponse.json() as any;
-		const existingQuestions = questionsData.content;
-
-		// Find question IDs by name
-		const questionsByName: Record<string, string> = {};
-		for (const [qid, question] of Object.entries(existingQuestions)) {
-			if (question && typeof question === 'object' && 'name' in question) {
-				questionsByName[(question as any).name] = qid;
-			}
-		}
-
-		// Step 4: Update eligibility questions
-		if (config.eligibilityQuestions) {
-			for (let i = 0; i < config.eligibilityQuestions.length; i++) {
-				const eq = config.eligibilityQuestions[i];
-				const questionName = `eligibility_question_${i + 1}`;
-				const questionId = questionsByName[questionName];
-				
-				if (questionId) {
-					// Update existing eligibility question
-					const updateFormData = new FormData();
-					updateFormData.append('question[text]', eq.text);
-					updateFormData.append('question[required]', eq.required ? 'Yes' : 'No');
-					// Make sure we're not changing the name
-					updateFormData.append('question[name]', questionName);
-					
-					const updateResponse = await fetch(`https://api.jotform.com/form/${newFormId}/question/${questionId}?apiKey=${apiKey}`, {
-						method: 'POST',
-						body: updateFormData
-					});
-					
-					if (!updateResponse.ok) {
-						console.warn(`Failed to update eligibility question ${questionName}:`, await updateResponse.text());
-					}
-				} else {
-					console.warn(`Eligibility question ${questionName} not found in template`);
-				}
-			}
-			
-			// Delete extra eligibility questions if template has more than provided
-			for (let i = config.eligibilityQuestions.length + 1; i <= 5; i++) {
-				const questionName = `eligibility_question_${i}`;
-				const questionId = questionsByName[questionName];
-				
-				if (questionId) {
-					const deleteResponse = await fetch(`https://api.jotform.com/form/${newFormId}/question/${questionId}?apiKey=${apiKey}`, {
-						method: 'DELETE'
-					});
-					
-					if (!deleteResponse.ok) {
-						console.warn(`Failed to delete eligibility question ${questionName}:`, await deleteResponse.text());
-					}
-				}
-			}
-		}
-
-		// Step 5: Update qualification message (text0)
-		if (config.legalTextBlocks && config.legalTextBlocks.length > 0) {
-			const qualificationMessage = config.legalTextBlocks[0];
-			const text0Id = questionsByName['text0'];
-			
-			if (text0Id) {
-				const updateFormData = new FormData();
-				updateFormData.append('question[text]', qualificationMessage.content);
-				// Keep the same name
-				updateFormData.append('question[name]', 'text0');
-				
-				const updateResponse = await fetch(`https://api.jotform.com/form/${newFormId}/question/${text0Id}?apiKey=${apiKey}`, {
-					method: 'POST',
-					body: updateFormData
-				});
-				
-				if (!updateResponse.ok) {
-					console.warn('Failed to update qualification message (text0):', await updateResponse.text());
-				}
-			} else {
-				console.warn('text0 field not found in template');
-			}
-		}
-
-		// Step 6: Delete personal info fields based on config
-		if (config.personalInfoFields) {
-			// Delete name field if not included
-			if (!config.personalInfoFields.includeName && questionsByName['name']) {
-				const deleteResponse = await fetch(`https://api.jotform.com/form/${newFormId}/question/${questionsByName['name']}?apiKey=${apiKey}`, {
-					method: 'DELETE'
-				});
-				if (!deleteResponse.ok) {
-					console.warn('Failed to delete name field:', await deleteResponse.text());
-				}
-			}
-			
-			// Delete address field if not included
-			if (!config.personalInfoFields.includeAddress && questionsByName['address']) {
-				const deleteResponse = await fetch(`https://api.jotform.com/form/${newFormId}/question/${questionsByName['address']}?apiKey=${apiKey}`, {
-					method: 'DELETE'
-				});
-				if (!deleteResponse.ok) {
-					console.warn('Failed to delete address field:', await deleteResponse.text());
-				}
-			}
-			
-			// Delete email field if not included
-			if (!config.personalInfoFields.includeEmail && questionsByName['email']) {
-				const deleteResponse = await fetch(`https://api.jotform.com/form/${newFormId}/question/${questionsByName['email']}?apiKey=${apiKey}`, {
-					method: 'DELETE'
-				});
-				if (!deleteResponse.ok) {
-					console.warn('Failed to delete email field:', await deleteResponse.text());
-				}
-			}
-			
-			// Delete phone field if not included
-			if (!config.personalInfoFields.includePhone && questionsByName['phoneNumber']) {
-				const deleteResponse = await fetch(`https://api.jotform.com/form/${newFormId}/question/${questionsByName['phoneNumber']}?apiKey=${apiKey}`, {
-					method: 'DELETE'
-				});
-				if (!deleteResponse.ok) {
-					console.warn('Failed to delete phone field:', await deleteResponse.text());
-				}
-			}
-		}
 
-		// Step 7: Add new questions (hidden fields, widgets, legal text blocks, signature)
-		const newQuestions: Record<string, any> = {};
-		let questionIndex = 1;
-
-		// Add hidden fields (only if they don't already exist)
-		if (config.hiddenFields) {
-			for (const field of config.hiddenFields) {
-				// Check if this hidden field already exists
-				if (!questionsByName[field.name]) {
-					newQuestions[String(questionIndex)] = {
-						type: 'control_textbox',
-						text: field.text,
-						order: String(200 + questionIndex - 1), // High order number to add at end
-						name: field.name,
-						hidden: 'Yes',
-						labelAlign: 'Auto',
-						validation: 'None',
-						size: '20',
-						required: 'No',
-						readonly: field.readonly ? 'Yes' : 'No',
-						...(field.defaultValue ? { defaultValue: field.defaultValue } : {})
-					};
-					questionIndex++;
-				}
-			}
-		}
-
-		// Add widgets (only if they don't already exist)
-		if (config.widgets) {
-			for (const widget of config.widgets) {
-				if (!questionsByName[widget.name]) {
-					if (widget.type === 'userAgent') {
-						newQuestions[String(questionIndex)] = {
-							type: 'control_widget',
-							text: '',
-							order: String(200 + questionIndex - 1),
-							name: widget.name,
-							cfname: 'Get User Agent',
-							selectedField: '543ea3eb3066feaa30000036',
-							static: 'No',
-							hidden: 'Yes'
-						};
-						questionIndex++;
-					} else if (widget.type === 'geoStamp') {
-						newQuestions[String(questionIndex)] = {
-							type: 'control_widget',
-							text: '',
-							order: String(200 + questionIndex - 1),
-							name: widget.name,
-							cfname: 'Geo Stamp',
-							selectedField: '5935688a725d1797050002e7',
-							static: 'No',
-							hidden: 'Yes'
-						};
-						questionIndex++;
-					}
-				}
-			}
-		}
-
-		// Add remaining legal text blocks (skip first one as it's the qualification message)
-		if (config.legalTextBlocks) {
-			for (let i = 1; i < config.legalTextBlocks.length; i++) {
-				const block = config.legalTextBlocks[i];
-				// Only add if it doesn't already exist
-				if (!questionsByName[block.name || `legalText${i}`]) {
-					newQuestions[String(questionIndex)] = {
-						type: 'control_text',
-						text: block.content,
-						order: String(100 + i), // Place after personal info
-						name: block.name || `legalText${i}`
-					};
-					questionIndex++;
-				}
-			}
-		}
-
-		// Add signature fields (only if they don't already exist)
-		if (config.signatureFields) {
-			for (const sig of config.signatureFields) {
-				if (!questionsByName[sig.name]) {
-					newQuestions[String(questionIndex)] = {
-						type: 'control_signature',
-						text: sig.text,
-						order: String(150), // Place near end
-						name: sig.name,
-						required: sig.required ? 'Yes' : 'No',
-						size: sig.size || '600',
-						labelAlign: 'Auto',
-						validation: 'None'
-					};
-					questionIndex++;
-				}
-			}
-		}
-
-		// Add new questions if any
-		if (Object.keys(newQuestions).length > 0) {
-			const addQuestionsData = { questions: newQuestions };
-			
-			const addQuestionsResponse = await fetch(`https://api.jotform.com/form/${newFormId}/questions?apiKey=${apiKey}`, {
-				method: 'PUT',
-				headers: {
-					'Content-Type': 'application/json'
-				},
-				body: JSON.stringify(addQuestionsData)
-			});
-
-			if (!addQuestionsResponse.ok) {
-				console.warn('Failed to add some questions:', await addQuestionsResponse.text());
-			}
-		}
-
-		// Step 5: Add webhook if specified
-		if (config.webhookURL) {
-			const webhookFormData = new FormData();
-			webhookFormData.append('webhookURL', config.webhookURL);
-			
-			const webhookResponse = await fetch(`https://api.jotform.com/form/${newFormId}/webhooks?apiKey=${apiKey}`, {
-				method: 'POST',
-				body: webhookFormData
-			});
-
-			if (!webhookResponse.ok) {
-				console.warn('Failed to add webhook:', await webhookResponse.text());
-				// Don't fail the entire request if webhook fails
-			}
-		}
-
-		// Step 6: Get the final form details
-		const finalFormResponse = await fetch(`https://api.jotform.com/form/${newFormId}?apiKey=${apiKey}`);
-		const finalFormResult = await finalFormResponse.json() as any;
-
-		return Response.json({
-			success: true,
-			message: 'Form created from template successfully',
-			formId: newFormId,
-			formUrl: finalFormResult.content?.url || `https://form.jotform.com/${newFormId}`,
-			templateFormId: config.templateFormId,
-			webhookAdded: !!config.webhookURL,
-			data: finalFormResult
-		});
+	const issues = validate(body);
+	if (issues.length > 0) {
+		return Response.json({ error: 'Invalid request body', issues }, { status: 422 });
+	}
 
-	} catch (error) {
-		return Response.json({ 
-			error: 'Internal server error',
-			message: error instanceof Error ? error.message : 'Unknown error'
-		}, { status: 500 });
+	if ((body as { apiKey?: unknown }).apiKey !== undefined && !bodyApiKeyAllowed(c.env)) {
+		return forbidden('apiKey may not be passed in the request body; use a named account instead');
 	}
+
+	return body as T;
 }
@@ -0,0 +1,303 @@
+/**
+ * Background jobs: POST /campaigns queues one item per form on the JOBS queue, and the queue consumer creates them.
+ * Progress lives in D1 (see migrations/), so GET /jobs/:id can report it and failed items can be retried.
+ */
+
+import { handleCreateForm, handleCreateFormFromTemplate, type HandlerOptions } from './forms';
+import { handleCreateTranslatedForms } from './translations';
+import type { Env, FormConfig, TemplateFormConfig } from './types';
+import { validateFormConfig, validateTemplateFormConfig, type ValidationIssue } from './validation';
+
+export interface CampaignRequest {
+	campaign: string;
+	base: Record<string, any>; // Shared by every form: a TemplateFormConfig when it has templateFormId, else a FormConfig
+	forms: Array<Record<string, any>>; // Per-form overrides of base's top-level keys, e.g. title and hiddenFields
+}
+
+export interface JobMessage {
+	jobId: string;
+	index: number;
+	origin?: string; // The request's origin, for items with captureSubmissions (see HandlerOptions)
+}
+
+export type JobItemStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface JobItem {
+	index: number;
+	status: JobItemStatus;
+	title: string;
+	formId: string | null;
+	formUrl: string | null;
+	locales: Record<string, string> | null; // Each locale's form ID, for items with translations
+	error: string | null;
+	attempts: number;
+	updatedAt: string;
+}
+
+interface JobRow {
+	id: string;
+	type: string;
+	campaign: string | null;
+	created_by: string | null;
+	created_at: string;
+	updated_at: string;
+}
+
+interface JobItemRow {
+	job_id: string;
+	item_index: number;
+	status: JobItemStatus;
+	config: string;
+	form_id: string | null;
+	form_url: string | null;
+	locales: string | null;
+	error: string | null;
+	attempts: number;
+	updated_at: string;
+}
+
+const maxCampaignForms = 500;
+const sendBatchSize = 100; // Queue sendBatch limit
+const stuckAfterMs = 15 * 60 * 1000; // A running item this old has been abandoned
+
+// Each form's full config: base with its overrides, tagged with the campaign
+export function campaignConfigs(request: CampaignRequest): Array<Record<string, any>> {
+	return request.forms.map((overrides) => ({ ...request.base, ...overrides, campaign: request.campaign }));
+}
+
+// Validate every form's config up front, so a typo fails the request rather than every queued item.
+// Paths point into forms/{index} for per-form problems.
+export function validateCampaignConfigs(configs: Array<Record<string, any>>): ValidationIssue[] {
+	if (configs.length > maxCampaignForms) {
+		return [{ path: '/forms', message: `At most ${maxCampaignForms} forms per campaign` }];
+	}
+
+	const issues: ValidationIssue[] = [];
+	configs.forEach((config, index) => {
+		if (config.apiKey !== undefined) {
+			issues.push({ path: `/forms/${index}/apiKey`, message: "API keys aren't stored with jobs; use a named account" });
+		}
+		const validate = config.templateFormId !== undefined ? validateTemplateFormConfig : validateFormConfig;
+		for (const issue of validate(config)) {
+			issues.push({ path: `/forms/${index}${issue.path}`, message: issue.message });
+		}
+	});
+	return issues;
+}
+
+export async function handleCreateCampaign(request: CampaignRequest, env: Env, options: HandlerOptions = {}) {
+	try {
+		const configs = campaignConfigs(request);
+		const issues = validateCampaignConfigs(configs);
+		if (issues.length > 0) {
+			return Response.json({ error: 'Invalid request body', issues }, { status: 422 });
+		}
+
+		if (options.dryRun) {
+			return Response.json({ success: true, dryRun: true, campaign: request.campaign, forms: configs });
+		}
+
+		// Step 1: Record the job and its items
+		const jobId = crypto.randomUUID();
+		const now = new Date().toISOString();
+		await env.DB.batch([
+			env.DB.prepare('INSERT INTO jobs (id, type, campaign, created_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)').bind(
+				jobId,
+				'campaign',
+				request.campaign,
+				options.caller ?? null,
+				now,
+				now
+			),
+			...configs.map((config, index) =>
+				env.DB.prepare('INSERT INTO job_items (job_id, item_index, status, config, updated_at) VALUES (?, ?, ?, ?, ?)').bind(
+					jobId,
+					index,
+					'pending',
+					JSON.stringify(config),
+					now
+				)
+			)
+		]);
+
+		// Step 2: Queue them; the consumer's batch size and concurrency (wrangler.jsonc) limit the load on JotForm
+		await enqueue(env, configs.map((_, index) => ({ jobId, index, origin: options.origin })));
+
+		return Response.json({ success: true, jobId, campaign: request.campaign, items: configs.length }, { status: 202 });
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+async function enqueue(env: Env, messages: JobMessage[]): Promise<void> {
+	for (let start = 0; start < messages.length; start += sendBatchSize) {
+		await env.JOBS.sendBatch(messages.slice(start, start + sendBatchSize).map((body) => ({ body })));
+	}
+}
+
+// Queue consumer. Items run one after another; a failure is recorded on the item (retry it with POST /jobs/:id/retry)
+// rather than retried by the queue, since repeating a create that got part-way could leave a duplicate form.
+export async function handleJobBatch(batch: MessageBatch<JobMessage>, env: Env, options: HandlerOptions = {}): Promise<void> {
+	for (const message of batch.messages) {
+		try {
+			await processJobItem(message.body, env, options);
+			message.ack();
+		} catch (error) {
+			// D1 itself failed; let the queue try again later
+			console.error(`Job item ${message.body.jobId}/${message.body.index} failed:`, error instanceof Error ? error.message : error);
+			message.retry();
+		}
+	}
+}
+
+export async function processJobItem({ jobId, index, origin }: JobMessage, env: Env, options: HandlerOptions = {}): Promise<void> {
+	const job = await env.DB.prepare('SELECT * FROM jobs WHERE id = ?').bind(jobId).first<JobRow>();
+	const item = await env.DB.prepare('SELECT * FROM job_items WHERE job_id = ? AND item_index = ?').bind(jobId, index).first<JobItemRow>();
+	if (!job || !item || item.status === 'succeeded') {
+		return;
+	}
+
+	// Claim the item so a duplicate delivery doesn't create the form twice. A running item this old was abandoned by an
+	// invocation that was killed, so a redelivery takes it over.
+	const now = new Date();
+	const claimed = await env.DB.prepare(
+		`UPDATE job_items SET status = 'running', attempts = attempts + 1, error = NULL, updated_at = ?
+		WHERE job_id = ? AND item_index = ? AND (status = 'pending' OR (status = 'running' AND updated_at < ?))`
+	)
+		.bind(now.toISOString(), jobId, index, new Date(now.getTime() - stuckAfterMs).toISOString())
+		.run();
+	if (claimed.meta.changes === 0) {
+		return;
+	}
+
+	try {
+		await runJobItem(job, item, origin, env, options);
+	} catch (error) {
+		// Record the failure rather than leave the item running, so it can be retried; if D1 is what failed this may
+		// fail too, and the queue's redelivery takes the item over once it's stuck
+		await env.DB.prepare("UPDATE job_items SET status = 'failed', error = ?, updated_at = ? WHERE job_id = ? AND item_index = ?")
+			.bind(error instanceof Error ? error.message : String(error), new Date().toISOString(), jobId, index)
+			.run();
+	}
+}
+
+async function runJobItem(job: JobRow, item: JobItemRow, origin: string | undefined, env: Env, options: HandlerOptions): Promise<void> {
+	const { job_id: jobId, item_index: index } = item;
+	const config = JSON.parse(item.config);
+	const itemOptions: HandlerOptions = { ...options, dryRun: false, caller: job.created_by ?? undefined, origin };
+	let response: Response;
+	if (config.templateFormId !== undefined) {
+		// Strict, so a failed clone is deleted rather than left behind for a retry to duplicate
+		response = await handleCreateFormFromTemplate({ ...config, strict: true } as TemplateFormConfig, env, itemOptions);
+	} else if (config.translations) {
+		response = await handleCreateTranslatedForms(config as FormConfig, env, itemOptions);
+	} else {
+		response = await handleCreateForm(config as FormConfig, env, itemOptions);
+	}
+	const result = (await response.json()) as any;
+	const locales = createdLocales(result);
+
+	const now = new Date().toISOString();
+	if (response.ok && result.success) {
+		await env.DB.prepare("UPDATE job_items SET status = 'succeeded', form_id = ?, form_url = ?, locales = ?, updated_at = ? WHERE job_id = ? AND item_index = ?")
+			.bind(result.formId ?? null, result.formUrl ?? null, locales && JSON.stringify(locales), now, jobId, index)
+			.run();
+	} else {
+		const error = [result.error, typeof result.details === 'string' ? result.details : undefined].filter(Boolean).join(': ') || `HTTP ${response.status}`;
+		// A form can exist even though a later step failed (e.g. a template clone or a locale that couldn't be deleted)
+		await env.DB.prepare("UPDATE job_items SET status = 'failed', form_id = ?, locales = ?, error = ?, updated_at = ? WHERE job_id = ? AND item_index = ?")
+			.bind(result.formId ?? (locales && Object.values(locales)[0]) ?? null, locales && JSON.stringify(locales), error, now, jobId, index)
+			.run();
+	}
+	await env.DB.prepare('UPDATE jobs SET updated_at = ? WHERE id = ?').bind(now, jobId).run();
+}
+
+// The forms a translated item's locales left in JotForm: all of them, or after a failure the ones that couldn't be deleted
+function createdLocales(result: any): Record<string, string> | null {
+	if (!result.locales || result.dryRun) return null;
+	const entries = Object.entries<any>(result.locales).filter(([, locale]) => locale.formId && !locale.deleted);
+	return entries.length > 0 ? Object.fromEntries(entries.map(([locale, { formId }]) => [locale, formId])) : null;
+}
+
+function jobStatus(counts: Record<JobItemStatus, number>): string {
+	if (counts.pending + counts.running > 0) return counts.succeeded + counts.failed + counts.running > 0 ? 'running' : 'queued';
+	return counts.failed > 0 ? 'completed_with_errors' : 'completed';
+}
+
+export async function handleGetJob(jobId: string, env: Env) {
+	try {
+		const job = await env.DB.prepare('SELECT * FROM jobs WHERE id = ?').bind(jobId).first<JobRow>();
+		if (!job) {
+			return Response.json({ error: 'Job not found', jobId }, { status: 404 });
+		}
+
+		const { results } = await env.DB.prepare('SELECT * FROM job_items WHERE job_id = ? ORDER BY item_index').bind(jobId).all<JobItemRow>();
+		const counts: Record<JobItemStatus, number> = { pending: 0, running: 0, succeeded: 0, failed: 0 };
+		const items: JobItem[] = results.map((row) => {
+			counts[row.status]++;
+			return {
+				index: row.item_index,
+				status: row.status,
+				title: JSON.parse(row.config).title,
+				formId: row.form_id,
+				formUrl: row.form_url,
+				locales: row.locales && JSON.parse(row.locales),
+				error: row.error,
+				attempts: row.attempts,
+				updatedAt: row.updated_at
+			};
+		});
+
+		return Response.json({
+			jobId: job.id,
+			type: job.type,
+			campaign: job.campaign,
+			status: jobStatus(counts),
+			counts,
+			createdBy: job.created_by,
+			createdAt: job.created_at,
+			updatedAt: job.updated_at,
+			items
+		});
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// Put the failed items back on the queue, along with any stuck running (the consumer died part-way).
+// A retry starts over with a new form; one a failed attempt left behind isn't reused.
+export async function handleRetryJob(jobId: string, env: Env, options: HandlerOptions = {}) {
+	try {
+		const job = await env.DB.prepare('SELECT id FROM jobs WHERE id = ?').bind(jobId).first();
+		if (!job) {
+			return Response.json({ error: 'Job not found', jobId }, { status: 404 });
+		}
+
+		const now = new Date();
+		const stuckBefore = new Date(now.getTime() - stuckAfterMs).toISOString();
+		const { results } = await env.DB.prepare(
+			`UPDATE job_items SET status = 'pending', updated_at = ?
+			WHERE job_id = ? AND (status = 'failed' OR (status = 'running' AND updated_at < ?)) RETURNING item_index`
+		)
+			.bind(now.toISOString(), jobId, stuckBefore)
+			.all<{ item_index: number }>();
+		const indexes = results.map((row) => row.item_index).sort((a, b) => a - b);
+		await enqueue(env, indexes.map((index) => ({ jobId, index, origin: options.origin })));
+
+		return Response.json({ success: true, jobId, retried: indexes }, { status: 202 });
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
@@ -0,0 +1,287 @@
+/**
+ * Typed client for the JotForm REST API.
+ * Handles regional base URLs, retries with backoff on 429/5xx, timeouts and response envelopes.
+ */
+
+export type JotFormRegion = 'us' | 'eu' | 'hipaa';
+
+export const JOTFORM_BASE_URLS: Record<JotFormRegion, string> = {
+	us: 'https://api.jotform.com',
+	eu: 'https://eu-api.jotform.com',
+	hipaa: 'https://hipaa-api.jotform.com'
+};
+
+// A single JotForm API request, described as data so it can be previewed (dry run) or executed
+export interface JotFormCall {
+	description: string;
+	method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+	path: string; // Relative to the API base URL, e.g. /form/123/questions
+	query?: Record<string, string>;
+	form?: Record<string, string>; // Sent as multipart form data
+	json?: any; // Sent as a JSON body
+}
+
+// Every JotForm response is wrapped like this
+export interface JotFormEnvelope<T = any> {
+	responseCode: number;
+	message: string;
+	content: T;
+	duration?: string;
+	'limit-left'?: number;
+	resultSet?: {
+		offset: number;
+		limit: number;
+		count: number;
+	};
+}
+
+export interface JotFormQuestionRecord {
+	qid?: string;
+	type: string;
+	name: string;
+	text: string;
+	order: string;
+	[key: string]: any;
+}
+
+export interface JotFormForm {
+	id: string;
+	username?: string;
+	title: string;
+	height?: string;
+	status: string;
+	created_at: string;
+	updated_at: string | null;
+	last_submission?: string | null;
+	new?: string;
+	count?: string;
+	type?: string;
+	url: string;
+}
+
+export interface JotFormAnswer {
+	name: string;
+	order: string;
+	text: string;
+	type: string;
+	answer?: any;
+	prettyFormat?: string;
+	[key: string]: any;
+}
+
+export interface JotFormSubmission {
+	id: string;
+	form_id: string;
+	ip: string;
+	created_at: string;
+	status: string;
+	new: string;
+	flag: string;
+	notes: string;
+	updated_at: string | null;
+	answers: Record<string, JotFormAnswer>;
+}
+
+export interface JotFormClientOptions {
+	apiKey: string;
+	region?: JotFormRegion;
+	baseUrl?: string; // Overrides region, e.g. an Enterprise domain or a local fake
+	fetch?: typeof fetch;
+	retries?: number; // Extra attempts after the first, default 3
+	retryDelayMs?: number; // Base backoff delay, doubled per attempt, default 500
+	timeoutMs?: number; // Per attempt, default 20000
+}
+
+export class JotFormError extends Error {
+	constructor(
+		message: string,
+		readonly status: number, // HTTP status, 0 when the request never got a response
+		readonly call: Pick<JotFormCall, 'method' | 'path' | 'description'>,
+		readonly body?: string
+	) {
+		super(message);
+		this.name = 'JotFormError';
+	}
+}
+
+export type JotFormClient = ReturnType<typeof createJotFormClient>;
+
+export function createJotFormClient(options: JotFormClientOptions) {
+	const baseUrl = (options.baseUrl || JOTFORM_BASE_URLS[options.region || 'us']).replace(/\/$/, '');
+	const doFetch = options.fetch || ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+	const retries = options.retries ?? 3;
+	const retryDelayMs = options.retryDelayMs ?? 500;
+	const timeoutMs = options.timeoutMs ?? 20000;
+
+	// Send a call and unwrap the envelope. Throws JotFormError on any failure.
+	// 429s are always retried (nothing happened yet); 5xx and timeouts only for reads and deletes,
+	// since repeating a clone or create could leave duplicates behind.
+	async function send<T = any>(call: JotFormCall): Promise<JotFormEnvelope<T>> {
+		const url = new URL(`${baseUrl}${call.path}`);
+		for (const [key, value] of Object.entries(call.query || {})) {
+			url.searchParams.set(key, value);
+		}
+		const retryServerErrors = call.method === 'GET' || call.method === 'DELETE';
+
+		for (let attempt = 0; ; attempt++) {
+			let response: Response;
+			try {
+				response = await doFetch(url.toString(), { ...buildInit(call), signal: AbortSignal.timeout(timeoutMs) });
+			} catch (error) {
+				if (retryServerErrors && attempt < retries) {
+					await sleep(backoff(attempt));
+					continue;
+				}
+				const reason = error instanceof Error ? error.message : 'Unknown error';
+				throw new JotFormError(`Failed to ${call.description}: ${reason}`, 0, call);
+			}
+
+			const retryable = response.status === 429 || (retryServerErrors && response.status >= 500);
+			if (retryable && attempt < retries) {
+				await response.body?.cancel();
+				await sleep(retryAfter(response) ?? backoff(attempt));
+				continue;
+			}
+
+			const text = await response.text();
+			let envelope: JotFormEnvelope<T> | undefined;
+			try {
+				envelope = JSON.parse(text);
+			} catch {
+				// Fall through with no envelope
+			}
+
+			const responseCode = envelope?.responseCode ?? response.status;
+			if (!response.ok || !envelope || responseCode < 200 || responseCode >= 300) {
+				const status = response.ok ? 502 : response.status;
+				throw new JotFormError(`Failed to ${call.description}: ${envelope?.message || response.statusText || 'invalid response'}`, status, call, text);
+			}
+
+			return envelope;
+		}
+	}
+
+	function buildInit(call: JotFormCall): RequestInit {
+		const init: RequestInit = {
+			method: call.method,
+			headers: { APIKEY: options.apiKey }
+		};
+
+		if (call.form) {
+			const formData = new FormData();
+			for (const [key, value] of Object.entries(call.form)) {
+				formData.append(key, value);
+			}
+			init.body = formData;
+		} else if (call.json !== undefined) {
+			init.headers = { ...init.headers, 'Content-Type': 'application/json' };
+			init.body = JSON.stringify(call.json);
+		}
+
+		return init;
+	}
+
+	function backoff(attempt: number): number {
+		return retryDelayMs * 2 ** attempt + Math.random() * retryDelayMs;
+	}
+
+	return {
+		baseUrl,
+		send,
+
+		getUser: () => send<Record<string, any>>({ description: 'get user', method: 'GET', path: '/user' }),
+
+		// The account's time zone (time_zone) and language; submissions' created_at is in that zone
+		getUserSettings: () => send<Record<string, any>>({ description: 'get user settings', method: 'GET', path: '/user/settings' }),
+
+		getForm: (formId: string) => send<JotFormForm>({ description: 'get form', method: 'GET', path: `/form/${formId}` }),
+
+		createForm: (formData: { questions: any; properties: Record<string, any>; emails?: any[] }) =>
+			send<JotFormForm>({ description: 'create form', method: 'PUT', path: '/form', json: formData }),
+
+		cloneForm: (formId: string) => send<JotFormForm>({ description: 'clone form', method: 'POST', path: `/form/${formId}/clone` }),
+
+		deleteForm: (formId: string) => send<JotFormForm>({ description: 'delete form', method: 'DELETE', path: `/form/${formId}` }),
+
+		getQuestions: (formId: string) =>
+			send<Record<string, JotFormQuestionRecord>>({ description: 'get form questions', method: 'GET', path: `/form/${formId}/questions` }),
+
+		addQuestions: (formId: string, questions: Record<string, any>) =>
+			send({ description: 'add questions', method: 'PUT', path: `/form/${formId}/questions`, json: { questions } }),
+
+		updateQuestion: (formId: string, qid: string, question: Record<string, string>) =>
+			send({
+				description: `update question ${qid}`,
+				method: 'POST',
+				path: `/form/${formId}/question/${qid}`,
+				form: prefixKeys('question', question)
+			}),
+
+		deleteQuestion: (formId: string, qid: string) =>
+			send({ description: `delete question ${qid}`, method: 'DELETE', path: `/form/${formId}/question/${qid}` }),
+
+		getProperties: (formId: string) =>
+			send<Record<string, any>>({ description: 'get form properties', method: 'GET', path: `/form/${formId}/properties` }),
+
+		updateProperties: (formId: string, properties: Record<string, string>) =>
+			send({
+				description: 'update properties',
+				method: 'POST',
+				path: `/form/${formId}/properties`,
+				form: prefixKeys('properties', properties)
+			}),
+
+		// Keyed by webhook ID
+		getWebhooks: (formId: string) =>
+			send<Record<string, string>>({ description: 'get webhooks', method: 'GET', path: `/form/${formId}/webhooks` }),
+
+		addWebhook: (formId: string, webhookURL: string) =>
+			send<Record<string, string>>({ description: 'add webhook', method: 'POST', path: `/form/${formId}/webhooks`, form: { webhookURL } }),
+
+		deleteWebhook: (formId: string, webhookId: string) =>
+			send<Record<string, string>>({ description: 'delete webhook', method: 'DELETE', path: `/form/${formId}/webhooks/${webhookId}` }),
+
+		getSubmissions: (formId: string, params: { offset?: number; limit?: number; filter?: Record<string, string>; orderby?: string } = {}) =>
+			send<JotFormSubmission[]>({
+				description: 'get submissions',
+				method: 'GET',
+				path: `/form/${formId}/submissions`,
+				query: {
+					...(params.offset !== undefined ? { offset: String(params.offset) } : {}),
+					...(params.limit !== undefined ? { limit: String(params.limit) } : {}),
+					...(params.filter ? { filter: JSON.stringify(params.filter) } : {}),
+					...(params.orderby ? { orderby: params.orderby } : {})
+				}
+			}),
+
+		getSubmission: (submissionId: string) =>
+			send<JotFormSubmission>({ description: 'get submission', method: 'GET', path: `/submission/${submissionId}` }),
+
+		updateSubmission: (submissionId: string, fields: Record<string, string>) =>
+			send({
+				description: 'update submission',
+				method: 'POST',
+				path: `/submission/${submissionId}`,
+				form: prefixKeys('submission', fields)
+			})
+	};
+}
+
+function prefixKeys(prefix: string, values: Record<string, string>): Record<string, string> {
+	const form: Record<string, string> = {};
+	for (const [key, value] of Object.entries(values)) {
+		form[`${prefix}[${key}]`] = value;
+	}
+	return form;
+}
+
+// Retry-After in seconds, as milliseconds
+function retryAfter(response: Response): number | undefined {
+	const header = response.headers.get('Retry-After');
+	const seconds = header ? Number(header) : NaN;
+	return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,285 @@
+/**
+ * Form lifecycle: enabling, disabling, archiving and deleting forms, and the schedule that opens and closes them.
+ * A config's opensAt, closesAt and maxSubmissions are kept in D1 (see migrations/); the Cron Trigger runs runSchedules,
+ * which changes the form's status when its schedule says so and keeps a report of what it changed.
+ */
+
+import { accountForForm, jotformClientFor, jotformErrorResponse, type HandlerOptions } from './forms';
+import { JotFormError, type JotFormCall, type JotFormEnvelope } from './jotform-client';
+import { parsePaging } from './query';
+import { touchForm } from './registry';
+import type { Env, FormConfig, TemplateFormConfig } from './types';
+
+export type StatusAction = 'enable' | 'disable' | 'archive';
+
+export type ScheduleState = 'pending' | 'waiting' | 'open' | 'closed' | 'manual';
+
+// One form's change in a scheduled run
+export interface ScheduleChange {
+	formId: string;
+	from: ScheduleState;
+	to: ScheduleState;
+	reason: 'opensAt' | 'closesAt' | 'maxSubmissions';
+	error?: string; // Set when the change failed; it's tried again on the next run
+}
+
+export interface ScheduleReport {
+	id: string;
+	ranAt: string;
+	checked: number;
+	changed: ScheduleChange[];
+	failed: ScheduleChange[];
+	dryRun?: boolean;
+}
+
+interface ScheduleRow {
+	form_id: string;
+	opens_at: string | null;
+	closes_at: string | null;
+	max_submissions: number | null;
+	closed_message: string | null;
+	state: ScheduleState;
+	checked_at: string | null;
+	updated_at: string;
+}
+
+interface ScheduleRunRow {
+	id: string;
+	ran_at: string;
+	changed: number;
+	failed: number;
+	report: string;
+}
+
+type ScheduleConfig = Pick<FormConfig | TemplateFormConfig, 'opensAt' | 'closesAt' | 'maxSubmissions' | 'closedMessage'>;
+
+export const defaultClosedMessage = 'This claim period has ended.';
+
+// The form property JotForm shows in place of a disabled form
+export const closedMessageProperty = 'disabledMessage';
+
+const statuses: Record<StatusAction, string> = { enable: 'ENABLED', disable: 'DISABLED', archive: 'ARCHIVED' };
+
+// Forms looked at per run, least recently checked first, so one run stays well within the subrequest limit
+const formsPerRun = 100;
+
+export function hasSchedule(config: ScheduleConfig): boolean {
+	return config.opensAt !== undefined || config.closesAt !== undefined || config.maxSubmissions !== undefined;
+}
+
+// A form created before opensAt starts out disabled
+export function opensLater(config: ScheduleConfig, now = new Date()): boolean {
+	return config.opensAt !== undefined && Date.parse(config.opensAt) > now.getTime();
+}
+
+// Record the config's schedule for the scheduled run, or drop the form's schedule when the config has none.
+// A changed schedule starts over (pending), even where the status was set by hand; an unchanged one keeps its state.
+export async function saveSchedule(db: D1Database, formId: string, config: ScheduleConfig, state: ScheduleState = 'pending'): Promise<void> {
+	if (!hasSchedule(config)) {
+		await db.prepare('DELETE FROM form_schedules WHERE form_id = ?').bind(formId).run();
+		return;
+	}
+
+	await db
+		.prepare(
+			`INSERT INTO form_schedules (form_id, opens_at, closes_at, max_submissions, closed_message, state, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT (form_id) DO UPDATE SET
+				state = CASE
+					WHEN opens_at IS excluded.opens_at AND closes_at IS excluded.closes_at AND max_submissions IS excluded.max_submissions THEN state
+					ELSE excluded.state
+				END,
+				opens_at = excluded.opens_at,
+				closes_at = excluded.closes_at,
+				max_submissions = excluded.max_submissions,
+				closed_message = excluded.closed_message,
+				updated_at = excluded.updated_at`
+		)
+		.bind(
+			formId,
+			// In UTC, so they compare as strings
+			config.opensAt !== undefined ? new Date(config.opensAt).toISOString() : null,
+			config.closesAt !== undefined ? new Date(config.closesAt).toISOString() : null,
+			config.maxSubmissions ?? null,
+			config.closedMessage ?? null,
+			state,
+			new Date().toISOString()
+		)
+		.run();
+}
+
+// Where the schedule puts the form at this time, going by the dates alone
+function scheduledState(row: ScheduleRow, now: Date): { state: ScheduleState; reason: ScheduleChange['reason'] } {
+	if (row.closes_at && Date.parse(row.closes_at) <= now.getTime()) return { state: 'closed', reason: 'closesAt' };
+	if (row.opens_at && Date.parse(row.opens_at) > now.getTime()) return { state: 'waiting', reason: 'opensAt' };
+	return { state: 'open', reason: 'opensAt' };
+}
+
+// What the form's JotForm status needs for a move to the state. A pending form may have been closed or disabled
+// before its schedule changed, so it's enabled too rather than assumed live.
+function statusChange(to: ScheduleState, row: ScheduleRow): Record<string, string> {
+	if (to === 'closed') return { status: 'DISABLED', [closedMessageProperty]: row.closed_message ?? defaultClosedMessage };
+	if (to === 'waiting') return { status: 'DISABLED' };
+	return { status: 'ENABLED' };
+}
+
+// The Cron Trigger's job: move each due form to where its schedule puts it. A form that fails is left as it was and
+// tried again next time. Runs that change or fail anything are kept for GET /schedules/runs.
+export async function runSchedules(env: Env, options: HandlerOptions & { now?: Date } = {}): Promise<ScheduleReport> {
+	const now = options.now ?? new Date();
+	const nowISO = now.toISOString();
+	const report: ScheduleReport = { id: crypto.randomUUID(), ranAt: nowISO, checked: 0, changed: [], failed: [], ...(options.dryRun ? { dryRun: true } : {}) };
+
+	// Forms whose dates have come, or whose submissions need counting
+	const { results } = await env.DB.prepare(
+		`SELECT * FROM form_schedules
+		WHERE state = 'pending'
+			OR (state = 'waiting' AND opens_at <= ?)
+			OR (state IN ('waiting', 'open') AND closes_at <= ?)
+			OR (state = 'open' AND max_submissions IS NOT NULL)
+		ORDER BY checked_at IS NOT NULL, checked_at, form_id
+		LIMIT ?`
+	)
+		.bind(nowISO, nowISO, formsPerRun)
+		.all<ScheduleRow>();
+
+	for (const row of results) {
+		report.checked++;
+		const change = await checkSchedule(row, now, env, options);
+		if (change?.error) report.failed.push(change);
+		else if (change) report.changed.push(change);
+		if (!options.dryRun) {
+			await env.DB.prepare('UPDATE form_schedules SET checked_at = ? WHERE form_id = ?').bind(nowISO, row.form_id).run();
+		}
+	}
+
+	if (!options.dryRun && (report.changed.length > 0 || report.failed.length > 0)) {
+		await env.DB.prepare('INSERT INTO schedule_runs (id, ran_at, changed, failed, report) VALUES (?, ?, ?, ?, ?)')
+			.bind(report.id, report.ranAt, report.changed.length, report.failed.length, JSON.stringify({ changed: report.changed, failed: report.failed }))
+			.run();
+	}
+	return report;
+}
+
+// Move one form to where its schedule puts it. Returns the change, if there was one, with its error if it failed.
+async function checkSchedule(row: ScheduleRow, now: Date, env: Env, options: HandlerOptions): Promise<ScheduleChange | undefined> {
+	let { state, reason } = scheduledState(row, now);
+	const client = await jotformClientFor({ account: await accountForForm(row.form_id, env) }, env, options);
+	if (typeof client === 'string') {
+		return { formId: row.form_id, from: row.state, to: state, reason, error: client };
+	}
+
+	try {
+		if (state === 'open' && row.max_submissions !== null) {
+			const form = await client.getForm(row.form_id);
+			if (Number(form.content?.count ?? 0) >= row.max_submissions) {
+				state = 'closed';
+				reason = 'maxSubmissions';
+			}
+		}
+		if (state === row.state) return undefined;
+
+		if (!options.dryRun) {
+			await client.updateProperties(row.form_id, statusChange(state, row));
+			await env.DB.prepare('UPDATE form_schedules SET state = ?, updated_at = ? WHERE form_id = ?').bind(state, now.toISOString(), row.form_id).run();
+		}
+		return { formId: row.form_id, from: row.state, to: state, reason };
+	} catch (error) {
+		if (!(error instanceof JotFormError)) throw error;
+		return { formId: row.form_id, from: row.state, to: state, reason, error: error.message };
+	}
+}
+
+// POST /schedules/run: run the schedules now instead of waiting for the trigger
+export async function handleRunSchedules(env: Env, options: HandlerOptions = {}) {
+	try {
+		return Response.json(await runSchedules(env, options));
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// Newest first
+export async function handleListScheduleRuns(query: Record<string, string | undefined>, env: Env) {
+	const paging = parsePaging(query);
+	if (paging instanceof Response) return paging;
+	const { limit, offset } = paging;
+
+	try {
+		const { results } = await env.DB.prepare('SELECT * FROM schedule_runs ORDER BY ran_at DESC, id DESC LIMIT ? OFFSET ?')
+			.bind(limit, offset)
+			.all<ScheduleRunRow>();
+		const runs = results.map((row) => ({ id: row.id, ranAt: row.ran_at, ...JSON.parse(row.report) }));
+		return Response.json({ runs, limit, offset });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// POST /forms/:id/enable|disable|archive. A status set by hand takes the form off its schedule until the schedule changes.
+export async function handleSetFormStatus(formId: string, action: StatusAction, env: Env, options: HandlerOptions = {}) {
+	try {
+		const call: JotFormCall = {
+			description: `${action} form`,
+			method: 'POST',
+			path: `/form/${formId}/properties`,
+			form: { 'properties[status]': statuses[action] }
+		};
+		return await changeForm(formId, call, statuses[action], env, options, () =>
+			env.DB.prepare("UPDATE form_schedules SET state = 'manual', updated_at = ? WHERE form_id = ?").bind(new Date().toISOString(), formId).run()
+		);
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// DELETE /forms/:id. JotForm keeps deleted forms in its trash; the registry keeps the record.
+export async function handleDeleteForm(formId: string, env: Env, options: HandlerOptions = {}) {
+	try {
+		const call: JotFormCall = { description: 'delete form', method: 'DELETE', path: `/form/${formId}` };
+		return await changeForm(formId, call, 'DELETED', env, options, () => env.DB.prepare('DELETE FROM form_schedules WHERE form_id = ?').bind(formId).run());
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// Send the status change or delete, then bring the form's schedule in line with it
+async function changeForm(formId: string, call: JotFormCall, status: string, env: Env, options: HandlerOptions, updateSchedule: () => Promise<unknown>) {
+	const client = await jotformClientFor({ account: await accountForForm(formId, env, options) }, env, options);
+	if (typeof client === 'string') {
+		return Response.json({ error: client }, { status: 400 });
+	}
+
+	if (options.dryRun) {
+		return Response.json({ success: true, dryRun: true, formId, calls: [call] });
+	}
+
+	let result: JotFormEnvelope;
+	try {
+		result = await client.send(call);
+	} catch (error) {
+		if (error instanceof JotFormError) return jotformErrorResponse(`Failed to ${call.description}`, error);
+		throw error;
+	}
+
+	await updateSchedule();
+	try {
+		await touchForm(env.DB, formId);
+	} catch (error) {
+		console.error('Failed to update form registry:', error instanceof Error ? error.message : error);
+	}
+
+	return Response.json({ success: true, formId, status, data: result.content });
+}
@@ -0,0 +1,23 @@
+/**
+ * Query string parsing shared by the handlers
+ */
+
+// A yes/no query parameter such as ?dryRun= or ?refresh=
+export function isFlagSet(value: string | undefined): boolean {
+	return value === 'true' || value === '1';
+}
+
+export interface Paging {
+	limit: number;
+	offset: number;
+}
+
+// Parse ?limit=&offset=. Returns the 400 response instead when either is out of range.
+export function parsePaging(query: Record<string, string | undefined>, maxLimit = 1000, defaultLimit = Math.min(50, maxLimit)): Paging | Response {
+	const limit = query.limit === undefined ? defaultLimit : Number(query.limit);
+	const offset = query.offset === undefined ? 0 : Number(query.offset);
+	if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit || !Number.isInteger(offset) || offset < 0) {
+		return Response.json({ error: 'Invalid paging', message: `limit must be 1-${maxLimit} and offset a non-negative integer` }, { status: 400 });
+	}
+	return { limit, offset };
+}
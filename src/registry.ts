@@ -0,0 +1,194 @@
+/**
+ * Registry of the forms this worker created, stored in D1 (see migrations/)
+ */
+
+import { parsePaging } from './query';
+import type { Env } from './types';
+
+export interface FormRecord {
+	formId: string;
+	url: string;
+	title: string;
+	campaign: string | null;
+	templateFormId: string | null;
+	locale: string | null;
+	translationGroup: string | null; // Shared by the locale variants created from one config
+	config: Record<string, any>; // The request config, without the API key
+	createdBy: string | null;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface FormFilter {
+	campaign?: string;
+	templateFormId?: string;
+	translationGroup?: string;
+	theme?: string;
+	before?: { createdAt: string; formId: string }; // Only records listed after this one, for paging with a cursor
+	limit?: number;
+	offset?: number;
+}
+
+interface FormRow {
+	form_id: string;
+	url: string;
+	title: string;
+	campaign: string | null;
+	template_form_id: string | null;
+	locale: string | null;
+	translation_group: string | null;
+	config: string;
+	created_by: string | null;
+	created_at: string;
+	updated_at: string;
+}
+
+export async function registerForm(
+	db: D1Database,
+	form: {
+		formId: string;
+		url: string;
+		title: string;
+		campaign?: string;
+		templateFormId?: string;
+		locale?: string;
+		config: Record<string, any>;
+		createdBy?: string;
+	}
+): Promise<void> {
+	const now = new Date().toISOString();
+	const { apiKey, ...config } = form.config;
+	await db
+		.prepare(
+			`INSERT INTO forms (form_id, url, title, campaign, template_form_id, locale, config, created_by, created_at, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+		)
+		.bind(
+			form.formId,
+			form.url,
+			form.title,
+			form.campaign ?? null,
+			form.templateFormId ?? null,
+			form.locale ?? null,
+			JSON.stringify(config),
+			form.createdBy ?? null,
+			now,
+			now
+		)
+		.run();
+}
+
+// Mark registered forms as locale variants of each other
+export async function linkTranslations(db: D1Database, translationGroup: string, formIds: string[]): Promise<void> {
+	if (formIds.length === 0) return;
+	await db
+		.prepare(`UPDATE forms SET translation_group = ? WHERE form_id IN (${formIds.map(() => '?').join(', ')})`)
+		.bind(translationGroup, ...formIds)
+		.run();
+}
+
+// Mark a registered form as changed. Forms created outside this worker aren't in the registry and are left alone.
+export async function touchForm(db: D1Database, formId: string, changes: { title?: string; config?: Record<string, any> } = {}): Promise<void> {
+	let config: string | null = null;
+	if (changes.config) {
+		const { apiKey, ...rest } = changes.config;
+		config = JSON.stringify(rest);
+	}
+	await db
+		.prepare('UPDATE forms SET updated_at = ?, title = COALESCE(?, title), config = COALESCE(?, config) WHERE form_id = ?')
+		.bind(new Date().toISOString(), changes.title ?? null, config, formId)
+		.run();
+}
+
+export async function getFormRecord(db: D1Database, formId: string): Promise<FormRecord | null> {
+	const row = await db.prepare('SELECT * FROM forms WHERE form_id = ?').bind(formId).first<FormRow>();
+	return row ? toRecord(row) : null;
+}
+
+// Newest first
+export async function listFormRecords(db: D1Database, filter: FormFilter = {}): Promise<FormRecord[]> {
+	const where: string[] = [];
+	const params: unknown[] = [];
+	if (filter.campaign) {
+		where.push('campaign = ?');
+		params.push(filter.campaign);
+	}
+	if (filter.templateFormId) {
+		where.push('template_form_id = ?');
+		params.push(filter.templateFormId);
+	}
+	if (filter.translationGroup) {
+		where.push('translation_group = ?');
+		params.push(filter.translationGroup);
+	}
+	if (filter.theme) {
+		where.push("json_extract(config, '$.theme') = ?");
+		params.push(filter.theme);
+	}
+	if (filter.before) {
+		where.push('(created_at < ? OR (created_at = ? AND form_id < ?))');
+		params.push(filter.before.createdAt, filter.before.createdAt, filter.before.formId);
+	}
+
+	const sql = `SELECT * FROM forms ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+		ORDER BY created_at DESC, form_id DESC LIMIT ? OFFSET ?`;
+	const { results } = await db
+		.prepare(sql)
+		.bind(...params, filter.limit ?? 50, filter.offset ?? 0)
+		.all<FormRow>();
+	return results.map(toRecord);
+}
+
+function toRecord(row: FormRow): FormRecord {
+	return {
+		formId: row.form_id,
+		url: row.url,
+		title: row.title,
+		campaign: row.campaign,
+		templateFormId: row.template_form_id,
+		locale: row.locale,
+		translationGroup: row.translation_group,
+		config: JSON.parse(row.config),
+		createdBy: row.created_by,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at
+	};
+}
+
+export async function handleListForms(query: Record<string, string | undefined>, env: Env) {
+	const paging = parsePaging(query);
+	if (paging instanceof Response) return paging;
+	const { limit, offset } = paging;
+
+	try {
+		const forms = await listFormRecords(env.DB, {
+			campaign: query.campaign,
+			templateFormId: query.templateFormId,
+			translationGroup: query.translationGroup,
+			theme: query.theme,
+			limit,
+			offset
+		});
+		return Response.json({ forms, limit, offset });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+export async function handleGetForm(formId: string, env: Env) {
+	try {
+		const form = await getFormRecord(env.DB, formId);
+		if (!form) {
+			return Response.json({ error: 'Form not found', formId }, { status: 404 });
+		}
+		return Response.json(form);
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
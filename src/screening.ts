@@ -0,0 +1,333 @@
+/**
+ * Duplicate and fraud screening of claimant records. Each claimant's email, phone, and name with address are normalized
+ * into match keys kept in D1 (see migrations/), so a claimant who already claimed on any form in the campaign is found
+ * whichever form they used. The geo stamp, user agent and IP give the other risk signals. A submission with any signal
+ * is recorded in submission_flags and flagged in JotForm for review; nothing is rejected.
+ */
+
+import { claimantSubmission, defaultTimeZone, getClaimant, recordClaimant, type ClaimantRecord } from './claimants';
+import { accountForForm, jotformClientFor, jotformErrorResponse, type HandlerOptions } from './forms';
+import { JotFormError, type JotFormSubmission } from './jotform-client';
+import { parsePaging } from './query';
+import { getFormRecord } from './registry';
+import type { EligibilityQuestion, Env } from './types';
+
+export type MatchKind = 'email' | 'phone' | 'identity';
+
+export type Signal =
+	| { type: 'duplicate'; match: MatchKind; submissionIds: string[] } // Earlier claimants in the campaign with the same key
+	| { type: 'geoMismatch'; question: string; claimed: string; located: string } // A residency answer the geo stamp disagrees with
+	| { type: 'headlessUserAgent'; userAgent: string }
+	| { type: 'ipBurst'; ip: string; count: number; windowMinutes: number }; // count includes this submission
+
+export type SignalType = Signal['type'];
+
+export interface SubmissionFlag {
+	submissionId: string;
+	formId: string;
+	campaign: string | null;
+	signals: Signal[];
+	flagged: boolean; // Flagged in JotForm
+	error?: string; // Why flagging it in JotForm failed
+	createdAt: string;
+	updatedAt: string;
+}
+
+interface FlagRow {
+	submission_id: string;
+	form_id: string;
+	campaign: string | null;
+	signals: string;
+	flagged: number;
+	error: string | null;
+	created_at: string;
+	updated_at: string;
+}
+
+export const signalTypes: readonly SignalType[] = ['duplicate', 'geoMismatch', 'headlessUserAgent', 'ipBurst'];
+
+// For residency questions and geo stamp regions
+export const usStates: Record<string, string> = {
+	AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware',
+	DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa',
+	KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+	MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire', NJ: 'New Jersey',
+	NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon',
+	PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah',
+	VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming'
+};
+
+// This many submissions from one IP within the window is a burst
+const burstSize = 5;
+const burstWindowMinutes = 10;
+
+// Automation tools and scripted clients, which real browsers never identify as
+const headlessPattern = /HeadlessChrome|PhantomJS|Puppeteer|Playwright|Selenium|WebDriver|HtmlUnit|python-requests|python-urllib|curl\/|Wget\/|Go-http-client|node-fetch|axios\//i;
+
+// Street words to their USPS abbreviations, so "12 North Main Street" and "12 N. Main St" match
+const streetWords: Record<string, string> = {
+	street: 'st', avenue: 'ave', road: 'rd', drive: 'dr', boulevard: 'blvd', lane: 'ln', court: 'ct', place: 'pl', terrace: 'ter',
+	circle: 'cir', highway: 'hwy', parkway: 'pkwy', square: 'sq', trail: 'trl', north: 'n', south: 's', east: 'e', west: 'w'
+};
+
+// Unit designators are dropped, leaving the unit number: "Apt 4", "Unit 4" and "#4" all match
+const unitWords = new Set(['apt', 'apartment', 'unit', 'suite', 'ste', 'no']);
+
+const pullPageSize = 1000; // JotForm's maximum per request
+
+// Lowercase letters and digits in single-spaced words, accents dropped
+function plain(value: string): string {
+	return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// First and last name only, since middle names, prefixes and suffixes come and go
+export function normalizeName(name: ClaimantRecord['name']): string | null {
+	const first = plain(name?.first ?? '');
+	const last = plain(name?.last ?? '');
+	return first && last ? `${first} ${last}` : null;
+}
+
+// The street lines, then the 5-digit ZIP code (or the city and state without one)
+export function normalizeAddress(address: ClaimantRecord['address']): string | null {
+	const street = plain([address?.addr_line1, address?.addr_line2].filter(Boolean).join(' '))
+		.split(' ')
+		.filter((word) => word && !unitWords.has(word))
+		.map((word) => streetWords[word] ?? word)
+		.join(' ');
+	const zip = (address?.postal ?? '').replace(/\D/g, '');
+	const area = zip.length >= 5 ? zip.slice(0, 5) : plain(`${address?.city ?? ''} ${address?.state ?? ''}`);
+	return street && area ? `${street}|${area}` : null;
+}
+
+// Lowercased, without a +tag; Gmail ignores dots too
+export function normalizeEmail(email: string | null): string | null {
+	const match = email?.trim().toLowerCase().match(/^([^@\s]+)@([^@\s]+)$/);
+	if (!match) return null;
+	const domain = match[2] === 'googlemail.com' ? 'gmail.com' : match[2];
+	let local = match[1].replace(/\+.*$/, '');
+	if (domain === 'gmail.com') local = local.replace(/\./g, '');
+	return local ? `${local}@${domain}` : null;
+}
+
+// Digits only, without the US country code
+export function normalizePhone(phone: string | null): string | null {
+	const digits = (phone ?? '').replace(/\D/g, '');
+	const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+	return national.length >= 7 ? national : null;
+}
+
+export function matchKeys(record: ClaimantRecord): Partial<Record<MatchKind, string>> {
+	const name = normalizeName(record.name);
+	const address = normalizeAddress(record.address);
+	const keys: Record<MatchKind, string | null> = {
+		email: normalizeEmail(record.email),
+		phone: normalizePhone(record.phone),
+		identity: name && address ? `${name}|${address}` : null
+	};
+	return Object.fromEntries(Object.entries(keys).filter(([, value]) => value !== null));
+}
+
+// Where the geo stamp puts the claimant: a US state code, or the country code outside the US
+function locatedIn(geoStamp: ClaimantRecord['geoStamp']): string | undefined {
+	const country = geoStamp?.countryCode?.trim().toUpperCase();
+	if (country && country !== 'US') return country;
+	const region = geoStamp?.region?.trim();
+	if (!region) return undefined;
+	if (region.toUpperCase() in usStates) return region.toUpperCase();
+	return Object.keys(usStates).find((code) => usStates[code].toLowerCase() === region.toLowerCase());
+}
+
+// The signals in the record itself: residency answers the geo stamp disagrees with, and headless user agents
+export function claimantSignals(record: ClaimantRecord, eligibilityQuestions: EligibilityQuestion[] = []): Signal[] {
+	const signals: Signal[] = [];
+	const located = locatedIn(record.geoStamp);
+	for (const question of eligibilityQuestions) {
+		const claimsResidency = question.residency && record.eligibility[question.name] === (question.qualifyingAnswer ?? 'Yes');
+		if (claimsResidency && located && located !== question.residency) {
+			signals.push({ type: 'geoMismatch', question: question.name, claimed: question.residency!, located });
+		}
+	}
+	if (record.userAgent && headlessPattern.test(record.userAgent)) {
+		signals.push({ type: 'headlessUserAgent', userAgent: record.userAgent });
+	}
+	return signals;
+}
+
+// Store the claimant's match keys and look for signals. A submission with any is recorded in submission_flags and
+// returned, for flagSubmission; null when there are none. Only earlier claimants count, so a duplicate is flagged and
+// not the claim it duplicates. Screening a submission again replaces its keys and signals, and drops its flag when it
+// has none any more.
+export async function screenClaimant(env: Env, record: ClaimantRecord): Promise<SubmissionFlag | null> {
+	const form = await getFormRecord(env.DB, record.formId);
+	const scope = record.campaign ?? `form:${record.formId}`;
+	const matches = Object.entries(matchKeys(record));
+	const keys = [...matches, ...(record.ip ? [['ip', record.ip]] : [])];
+
+	// Step 1: Store the keys
+	await env.DB.batch([
+		env.DB.prepare('DELETE FROM claimant_keys WHERE submission_id = ?').bind(record.submissionId),
+		...keys.map(([kind, value]) =>
+			env.DB.prepare('INSERT INTO claimant_keys (submission_id, scope, kind, value, received_at) VALUES (?, ?, ?, ?, ?)').bind(
+				record.submissionId,
+				scope,
+				kind,
+				value,
+				record.receivedAt
+			)
+		)
+	]);
+
+	// Step 2: Earlier claimants in the campaign with the same email, phone, or name and address
+	const signals: Signal[] = [];
+	if (matches.length > 0) {
+		const { results } = await env.DB.prepare(
+			`SELECT kind, submission_id FROM claimant_keys WHERE scope = ? AND submission_id != ? AND received_at <= ?
+			AND (${matches.map(() => '(kind = ? AND value = ?)').join(' OR ')}) ORDER BY received_at, submission_id`
+		)
+			.bind(scope, record.submissionId, record.receivedAt, ...matches.flat())
+			.all<{ kind: MatchKind; submission_id: string }>();
+		for (const [match] of matches) {
+			const submissionIds = results.filter((row) => row.kind === match).map((row) => row.submission_id);
+			if (submissionIds.length > 0) signals.push({ type: 'duplicate', match: match as MatchKind, submissionIds });
+		}
+	}
+
+	// Step 3: A burst of submissions from the claimant's IP
+	if (record.ip) {
+		const since = new Date(Date.parse(record.receivedAt) - burstWindowMinutes * 60 * 1000).toISOString();
+		const row = await env.DB.prepare(
+			"SELECT COUNT(*) AS count FROM claimant_keys WHERE scope = ? AND kind = 'ip' AND value = ? AND received_at > ? AND received_at <= ?"
+		)
+			.bind(scope, record.ip, since, record.receivedAt)
+			.first<{ count: number }>();
+		if (row && row.count >= burstSize) {
+			signals.push({ type: 'ipBurst', ip: record.ip, count: row.count, windowMinutes: burstWindowMinutes });
+		}
+	}
+
+	// Step 4: The geo stamp and user agent
+	signals.push(...claimantSignals(record, form?.config.eligibilityQuestions));
+
+	if (signals.length === 0) {
+		await env.DB.prepare('DELETE FROM submission_flags WHERE submission_id = ?').bind(record.submissionId).run();
+		return null;
+	}
+	const now = new Date().toISOString();
+	const row = await env.DB.prepare(
+		`INSERT INTO submission_flags (submission_id, form_id, campaign, signals, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+		ON CONFLICT (submission_id) DO UPDATE SET signals = excluded.signals, updated_at = excluded.updated_at RETURNING *`
+	)
+		.bind(record.submissionId, record.formId, record.campaign, JSON.stringify(signals), now, now)
+		.first<FlagRow>();
+	return toFlag(row!);
+}
+
+// Set the submission's flag in JotForm, recording whether it worked. True once it's flagged.
+export async function flagSubmission(flag: SubmissionFlag, env: Env, options: HandlerOptions = {}): Promise<boolean> {
+	const client = await jotformClientFor({ account: await accountForForm(flag.formId, env, options) }, env, options);
+	let error = typeof client === 'string' ? client : null;
+	if (typeof client !== 'string') {
+		try {
+			await client.updateSubmission(flag.submissionId, { flag: '1' });
+		} catch (caught) {
+			if (!(caught instanceof JotFormError)) throw caught;
+			error = caught.message;
+		}
+	}
+
+	await env.DB.prepare('UPDATE submission_flags SET flagged = ?, error = ?, updated_at = ? WHERE submission_id = ?')
+		.bind(error === null ? 1 : 0, error, new Date().toISOString(), flag.submissionId)
+		.run();
+	return error === null;
+}
+
+// POST /forms/:id/screen: pull the form's submissions from JotForm and screen them, oldest first, recording claimant
+// records for the ones the webhook never delivered. Pages (?offset=&limit=, up to 1000) follow JotForm's order; screen
+// older pages first, since a duplicate is only found once the claim it duplicates has been screened.
+export async function handleScreenSubmissions(formId: string, query: Record<string, string | undefined>, env: Env, options: HandlerOptions = {}) {
+	const paging = parsePaging(query, pullPageSize, pullPageSize);
+	if (paging instanceof Response) return paging;
+	const { limit, offset } = paging;
+
+	try {
+		const client = await jotformClientFor({ account: await accountForForm(formId, env, options) }, env, options);
+		if (typeof client === 'string') {
+			return Response.json({ error: client }, { status: 400 });
+		}
+
+		// Step 1: Pull the submissions, and the account's time zone to read their created_at in
+		let submissions: JotFormSubmission[];
+		let timeZone: string;
+		try {
+			submissions = (await client.getSubmissions(formId, { offset, limit })).content || [];
+			timeZone = (await client.getUserSettings()).content?.time_zone || defaultTimeZone;
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to get submissions', error);
+			throw error;
+		}
+		const pulled = submissions.filter((submission) => submission.status !== 'DELETED').map((submission) => claimantSubmission(submission, timeZone));
+		pulled.sort((a, b) => (a.receivedAt ?? '').localeCompare(b.receivedAt ?? ''));
+
+		// Step 2: Screen each, flagging what screening finds
+		const flags: SubmissionFlag[] = [];
+		for (const submission of pulled) {
+			const record = (await getClaimant(env.DB, submission.submissionId)) ?? (await recordClaimant(env, submission));
+			const flag = await screenClaimant(env, record);
+			if (!flag) continue;
+			if (!flag.flagged) flag.flagged = await flagSubmission(flag, env, options);
+			flags.push(flag);
+		}
+
+		return Response.json({ success: true, formId, screened: pulled.length, flags, offset, limit });
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// GET /campaigns/:id/flags: flagged submissions on the campaign's forms, newest first, optionally of one ?type= of signal
+export async function handleListFlags(campaign: string, query: Record<string, string | undefined>, env: Env) {
+	const paging = parsePaging(query);
+	if (paging instanceof Response) return paging;
+	const { limit, offset } = paging;
+	if (query.type !== undefined && !signalTypes.includes(query.type as SignalType)) {
+		return Response.json({ error: 'Invalid type', message: `type must be one of: ${signalTypes.join(', ')}` }, { status: 400 });
+	}
+
+	try {
+		const where = ['campaign = ?'];
+		const params: unknown[] = [campaign];
+		if (query.type) {
+			where.push("EXISTS (SELECT 1 FROM json_each(signals) WHERE json_extract(value, '$.type') = ?)");
+			params.push(query.type);
+		}
+
+		const { results } = await env.DB.prepare(
+			`SELECT * FROM submission_flags WHERE ${where.join(' AND ')} ORDER BY created_at DESC, submission_id DESC LIMIT ? OFFSET ?`
+		)
+			.bind(...params, limit, offset)
+			.all<FlagRow>();
+		return Response.json({ campaign, flags: results.map(toFlag), limit, offset });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+function toFlag(row: FlagRow): SubmissionFlag {
+	return {
+		submissionId: row.submission_id,
+		formId: row.form_id,
+		campaign: row.campaign,
+		signals: JSON.parse(row.signals),
+		flagged: row.flagged === 1,
+		...(row.error ? { error: row.error } : {}),
+		createdAt: row.created_at,
+		updatedAt: row.updated_at
+	};
+}
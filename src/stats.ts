@@ -0,0 +1,302 @@
+/**
+ * Form and campaign analytics: submissions by day, eligibility rates, signature completion, tracking (hidden) field
+ * breakdowns and where claimants were, computed from the form's submissions paged out of JotForm. Each form's stats are
+ * cached in the STATS KV namespace for a while, so dashboards polling them don't each page through JotForm.
+ */
+
+import { jotformClientFor, jotformErrorResponse, type HandlerOptions } from './forms';
+import { JotFormError, type JotFormQuestionRecord, type JotFormSubmission } from './jotform-client';
+import { isFlagSet } from './query';
+import { getFormRecord, listFormRecords, type FormRecord } from './registry';
+import { isGeoStampWidget, parseGeoStamp } from './submissions';
+import type { EligibilityQuestion, Env } from './types';
+
+export interface EligibilityStats {
+	answered: number;
+	eligible: number; // Gave the qualifying answer
+	ineligible: number; // Gave the disqualifying answer
+	eligibleRate: number | null; // Of those who answered
+}
+
+export interface SignatureStats {
+	submissions: number; // On forms with the signature field
+	signed: number;
+	signedRate: number | null;
+}
+
+export interface FormStats {
+	submissions: number;
+	truncated: boolean; // More than maxSubmissions; the stats cover the newest
+	byDay: Record<string, number>; // YYYY-MM-DD, in the JotForm account's time zone
+	eligibility: Record<string, EligibilityStats>; // By question name
+	signatures: Record<string, SignatureStats>; // By question name
+	tracking: Record<string, Record<string, number>>; // Hidden field name to each value's count; blank values count as '(none)'
+	geography: {
+		byCountry: Record<string, number>; // Country code from the geo stamp
+		byRegion: Record<string, number>; // Region (state) as stamped
+		unstamped: number; // Submissions without a geo stamp
+	};
+}
+
+interface CachedStats {
+	stats: FormStats;
+	computedAt: string;
+}
+
+// What the form's questions hold, by question ID
+interface StatsQuestions {
+	eligibility: Map<string, { name: string; qualifying: string; disqualifying: string }>;
+	signatures: Map<string, string>;
+	tracking: Map<string, string>;
+	geoStamps: string[];
+}
+
+const cacheSeconds = 15 * 60;
+const pageSize = 1000; // JotForm's maximum per request
+const maxSubmissions = 10000; // Per form, across pages
+const refreshesPerRequest = 4; // Forms a campaign request computes, at up to 11 JotForm calls each, within Workers' 50 subrequests
+
+function emptyStats(): FormStats {
+	return { submissions: 0, truncated: false, byDay: {}, eligibility: {}, signatures: {}, tracking: {}, geography: { byCountry: {}, byRegion: {}, unstamped: 0 } };
+}
+
+function rate(count: number, of: number): number | null {
+	return of > 0 ? Math.round((count / of) * 10000) / 10000 : null;
+}
+
+function increment(counts: Record<string, number>, key: string, by = 1) {
+	counts[key] = (counts[key] ?? 0) + by;
+}
+
+function sortedKeys<T>(values: Record<string, T>): Record<string, T> {
+	return Object.fromEntries(Object.entries(values).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// Eligibility questions are the config's when the form is in the registry, else the builder's eligibility_question_N
+function statsQuestions(questions: Record<string, JotFormQuestionRecord>, eligibilityQuestions: EligibilityQuestion[] | undefined): StatsQuestions {
+	const configured = new Map((eligibilityQuestions || []).map((question) => [question.name, question]));
+	const result: StatsQuestions = { eligibility: new Map(), signatures: new Map(), tracking: new Map(), geoStamps: [] };
+
+	for (const [qid, question] of Object.entries(questions)) {
+		const eligibility = configured.get(question.name);
+		if (eligibility || (!eligibilityQuestions && /^eligibility_question_\d+$/.test(question.name))) {
+			const qualifying = eligibility?.qualifyingAnswer ?? 'Yes';
+			result.eligibility.set(qid, { name: question.name, qualifying, disqualifying: eligibility?.disqualifyingAnswer ?? (qualifying === 'Yes' ? 'No' : 'Yes') });
+		} else if (question.type === 'control_signature') {
+			result.signatures.set(qid, question.name);
+		} else if (question.type === 'control_textbox' && question.hidden === 'Yes') {
+			result.tracking.set(qid, question.name);
+		} else if (isGeoStampWidget(question)) {
+			result.geoStamps.push(qid);
+		}
+	}
+	return result;
+}
+
+export function computeStats(questions: Record<string, JotFormQuestionRecord>, submissions: JotFormSubmission[], eligibilityQuestions?: EligibilityQuestion[]): FormStats {
+	const kinds = statsQuestions(questions, eligibilityQuestions);
+	const stats = emptyStats();
+	for (const { name } of kinds.eligibility.values()) stats.eligibility[name] = { answered: 0, eligible: 0, ineligible: 0, eligibleRate: null };
+	for (const name of kinds.signatures.values()) stats.signatures[name] = { submissions: 0, signed: 0, signedRate: null };
+	for (const name of kinds.tracking.values()) stats.tracking[name] = {};
+
+	for (const submission of submissions) {
+		const answer = (qid: string) => {
+			const value = submission.answers?.[qid]?.answer;
+			return typeof value === 'string' ? value.trim() : '';
+		};
+		stats.submissions++;
+		increment(stats.byDay, submission.created_at.slice(0, 10));
+
+		for (const [qid, question] of kinds.eligibility) {
+			const given = answer(qid);
+			const counts = stats.eligibility[question.name];
+			if (!given) continue;
+			counts.answered++;
+			if (given === question.qualifying) counts.eligible++;
+			else if (given === question.disqualifying) counts.ineligible++;
+		}
+		for (const [qid, name] of kinds.signatures) {
+			stats.signatures[name].submissions++;
+			if (answer(qid)) stats.signatures[name].signed++;
+		}
+		for (const [qid, name] of kinds.tracking) {
+			increment(stats.tracking[name], answer(qid) || '(none)');
+		}
+
+		const stamp = kinds.geoStamps.map(answer).find(Boolean);
+		if (stamp) {
+			const { countryCode, country, region } = parseGeoStamp(stamp);
+			if (countryCode || country) increment(stats.geography.byCountry, countryCode || country!);
+			if (region) increment(stats.geography.byRegion, region);
+		} else {
+			stats.geography.unstamped++;
+		}
+	}
+	return withRates(stats);
+}
+
+// Add up forms' stats, e.g. a campaign's
+export function mergeStats(all: FormStats[]): FormStats {
+	const merged = emptyStats();
+	for (const stats of all) {
+		merged.submissions += stats.submissions;
+		merged.truncated ||= stats.truncated;
+		for (const [day, count] of Object.entries(stats.byDay)) increment(merged.byDay, day, count);
+		for (const [name, counts] of Object.entries(stats.eligibility)) {
+			const into = (merged.eligibility[name] ??= { answered: 0, eligible: 0, ineligible: 0, eligibleRate: null });
+			into.answered += counts.answered;
+			into.eligible += counts.eligible;
+			into.ineligible += counts.ineligible;
+		}
+		for (const [name, counts] of Object.entries(stats.signatures)) {
+			const into = (merged.signatures[name] ??= { submissions: 0, signed: 0, signedRate: null });
+			into.submissions += counts.submissions;
+			into.signed += counts.signed;
+		}
+		for (const [name, values] of Object.entries(stats.tracking)) {
+			merged.tracking[name] ??= {};
+			for (const [value, count] of Object.entries(values)) increment(merged.tracking[name], value, count);
+		}
+		for (const [country, count] of Object.entries(stats.geography.byCountry)) increment(merged.geography.byCountry, country, count);
+		for (const [region, count] of Object.entries(stats.geography.byRegion)) increment(merged.geography.byRegion, region, count);
+		merged.geography.unstamped += stats.geography.unstamped;
+	}
+	return withRates(merged);
+}
+
+function withRates(stats: FormStats): FormStats {
+	for (const counts of Object.values(stats.eligibility)) counts.eligibleRate = rate(counts.eligible, counts.answered);
+	for (const counts of Object.values(stats.signatures)) counts.signedRate = rate(counts.signed, counts.submissions);
+	stats.byDay = sortedKeys(stats.byDay);
+	return stats;
+}
+
+// Stats are cached per form and account, so stats read with one account's key aren't served for another's
+function cacheKey(formId: string, account: string | undefined): string {
+	return account ? `form:${formId}:account:${account}` : `form:${formId}`;
+}
+
+// The form's stats from the cache, else paged out of JotForm and cached. Uses ?account= if given, else the account the
+// form was created under; returns an error message instead when there's no client for it.
+async function formStats(formId: string, record: FormRecord | null, env: Env, options: HandlerOptions & { refresh?: boolean }): Promise<CachedStats & { cached: boolean } | string> {
+	const account = options.account ?? record?.config.account;
+	if (!options.refresh) {
+		const cached = await env.STATS.get<CachedStats>(cacheKey(formId, account), 'json');
+		if (cached) return { ...cached, cached: true };
+	}
+
+	const client = await jotformClientFor({ account }, env, options);
+	if (typeof client === 'string') return client;
+
+	const questions = (await client.getQuestions(formId)).content || {};
+	const submissions: JotFormSubmission[] = [];
+	let truncated = false;
+	for (let offset = 0; ; offset += pageSize) {
+		const page = (await client.getSubmissions(formId, { offset, limit: pageSize })).content || [];
+		submissions.push(...page.filter((submission) => submission.status !== 'DELETED'));
+		if (page.length < pageSize) break;
+		if (offset + pageSize >= maxSubmissions) {
+			truncated = true;
+			break;
+		}
+	}
+
+	const entry: CachedStats = { stats: { ...computeStats(questions, submissions, record?.config.eligibilityQuestions), truncated }, computedAt: new Date().toISOString() };
+	await env.STATS.put(cacheKey(formId, account), JSON.stringify(entry), { expirationTtl: cacheSeconds });
+	return { ...entry, cached: false };
+}
+
+// GET /forms/:id/stats. ?refresh=true skips the cache.
+export async function handleFormStats(formId: string, query: Record<string, string | undefined>, env: Env, options: HandlerOptions = {}) {
+	try {
+		const record = await getFormRecord(env.DB, formId);
+		let result: Awaited<ReturnType<typeof formStats>>;
+		try {
+			result = await formStats(formId, record, env, { ...options, refresh: isFlagSet(query.refresh) });
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to get submissions', error);
+			throw error;
+		}
+		if (typeof result === 'string') {
+			return Response.json({ error: result }, { status: 400 });
+		}
+
+		return Response.json({ formId, ...result.stats, computedAt: result.computedAt, cached: result.cached });
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// GET /campaigns/:id/stats: the stats of every registered form in the campaign added up, each form's from its own cache.
+// Paging a form out of JotForm takes up to 11 calls, so only refreshesPerRequest forms are computed per request, those
+// never computed first, then the stalest; the rest are listed as pending until a later request gets to them. A form
+// that fails is listed and left out, rather than failing the whole campaign. ?refresh=true recomputes cached forms too.
+export async function handleCampaignStats(campaign: string, query: Record<string, string | undefined>, env: Env, options: HandlerOptions = {}) {
+	try {
+		const records: FormRecord[] = [];
+		for (let offset = 0; ; offset += pageSize) {
+			const page = await listFormRecords(env.DB, { campaign, limit: pageSize, offset });
+			records.push(...page);
+			if (page.length < pageSize) break;
+		}
+		if (records.length === 0) {
+			return Response.json({ error: 'Campaign not found', campaign }, { status: 404 });
+		}
+
+		// Each under the account it was created with
+		const cached = await Promise.all(records.map((record) => env.STATS.get<CachedStats>(cacheKey(record.formId, record.config.account), 'json')));
+		const due = records
+			.map((record, index) => ({ record, cached: cached[index] }))
+			.filter((form) => !form.cached || isFlagSet(query.refresh))
+			.sort((a, b) => (a.cached?.computedAt ?? '').localeCompare(b.cached?.computedAt ?? ''))
+			.slice(0, refreshesPerRequest)
+			.map((form) => form.record.formId);
+
+		const all: FormStats[] = [];
+		const failed: Array<{ formId: string; error: string }> = [];
+		const pending: string[] = [];
+		let computedAt = '';
+		for (const [index, record] of records.entries()) {
+			let result: CachedStats | string | null = cached[index];
+			if (due.includes(record.formId)) {
+				try {
+					result = await formStats(record.formId, record, env, { ...options, account: record.config.account, refresh: true });
+				} catch (error) {
+					if (!(error instanceof JotFormError)) throw error;
+					result = error.message;
+				}
+			}
+			if (result === null) {
+				pending.push(record.formId);
+				continue;
+			}
+			if (typeof result === 'string') {
+				failed.push({ formId: record.formId, error: result });
+				continue;
+			}
+			all.push(result.stats);
+			// The oldest, so dashboards know how stale the total can be
+			if (!computedAt || result.computedAt < computedAt) computedAt = result.computedAt;
+		}
+
+		return Response.json({
+			campaign,
+			forms: records.length,
+			...mergeStats(all),
+			computedAt: computedAt || null,
+			...(pending.length > 0 ? { pending } : {}),
+			...(failed.length > 0 ? { failed } : {})
+		});
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
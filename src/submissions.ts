@@ -0,0 +1,270 @@
+/**
+ * Submission export: flattens JotForm answers into columns named after the questions
+ */
+
+import { widgetDefinitions } from './form-builder';
+import { accountForForm, jotformClientFor, jotformErrorResponse, type HandlerOptions } from './forms';
+import { JotFormError, type JotFormAnswer, type JotFormQuestionRecord, type JotFormSubmission } from './jotform-client';
+import { parsePaging, type Paging } from './query';
+import type { Env } from './types';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export interface SubmissionQuery extends Paging {
+	format: ExportFormat;
+	from?: string; // YYYY-MM-DD or YYYY-MM-DD HH:MM:SS, inclusive
+	to?: string; // Inclusive too; a date alone runs to the end of that day
+	status?: string; // e.g. ACTIVE, DELETED
+}
+
+// A question's export columns: one per part of a compound answer
+interface QuestionColumns {
+	name: string;
+	type: string;
+	columns: string[];
+	flatten: (answer: JotFormAnswer | undefined) => string[];
+}
+
+export interface GeoStamp {
+	timestamp?: string;
+	street?: string;
+	city?: string;
+	region?: string;
+	county?: string;
+	country?: string;
+	countryCode?: string;
+	zip?: string;
+	latitude?: string;
+	longitude?: string;
+}
+
+// Columns every export starts with, from the submission itself
+export const submissionColumns = ['submission_id', 'created_at', 'status', 'ip'];
+
+// Layout and decoration that never holds an answer
+const noAnswerTypes = new Set(['control_head', 'control_text', 'control_button', 'control_pagebreak', 'control_captcha', 'control_image', 'control_divider', 'control_collapse']);
+
+const pageSize = 1000; // JotForm's maximum per request
+const maxLimit = 10000; // Per export, across pages
+// JotForm pages read per export. A filter JotForm ignores can leave most pages empty here, so reading stops at this
+// many and nextOffset says where to carry on; each page is a subrequest.
+const maxPages = maxLimit / pageSize;
+
+export function isGeoStampWidget(question: { type: string; cfname?: string; selectedField?: string }): boolean {
+	return question.type === 'control_widget' && (question.cfname === widgetDefinitions.geoStamp.cfname || question.selectedField === widgetDefinitions.geoStamp.selectedField);
+}
+
+// "2025-08-18 03:55PM -0700\nStreet: ...\nCity: ...\nLatitude: ..." to its parts
+export function parseGeoStamp(answer: string): GeoStamp {
+	const keys: Record<string, keyof GeoStamp> = {
+		Street: 'street',
+		City: 'city',
+		Region: 'region',
+		County: 'county',
+		Country: 'country',
+		'Country Code': 'countryCode',
+		'Zip Code': 'zip',
+		Latitude: 'latitude',
+		Longitude: 'longitude'
+	};
+	const stamp: GeoStamp = {};
+	for (const [index, line] of answer.split(/\r?\n/).entries()) {
+		const match = line.match(/^([^:]+):\s*(.*)$/);
+		const key = match && keys[match[1].trim()];
+		if (key) {
+			stamp[key] = match[2].trim();
+		} else if (index === 0 && line.trim()) {
+			stamp.timestamp = line.trim();
+		}
+	}
+	return stamp;
+}
+
+// Export columns for a form's questions, in form order
+export function questionColumns(questions: Record<string, JotFormQuestionRecord>): QuestionColumns[] {
+	return Object.values(questions)
+		.filter((question) => !noAnswerTypes.has(question.type))
+		.sort((a, b) => Number(a.order) - Number(b.order))
+		.map((question) => columnsFor(question));
+}
+
+function columnsFor(question: JotFormQuestionRecord): QuestionColumns {
+	const { name, type } = question;
+	const part = (answer: JotFormAnswer | undefined, key: string) => String(answer?.answer?.[key] ?? '');
+
+	switch (type) {
+		case 'control_fullname':
+			return { name, type, columns: [`${name}.first`, `${name}.last`], flatten: (a) => [part(a, 'first'), part(a, 'last')] };
+		case 'control_address':
+			return {
+				name,
+				type,
+				columns: ['line1', 'line2', 'city', 'state', 'postal'].map((key) => `${name}.${key}`),
+				flatten: (a) => [part(a, 'addr_line1'), part(a, 'addr_line2'), part(a, 'city'), part(a, 'state'), part(a, 'postal')]
+			};
+		case 'control_phone':
+			return {
+				name,
+				type,
+				columns: [name],
+				flatten: (a) => [typeof a?.answer === 'object' ? a.answer.full ?? [a.answer.area, a.answer.phone].filter(Boolean).join(' ') : String(a?.answer ?? '')]
+			};
+		default:
+			if (isGeoStampWidget(question)) {
+				return {
+					name,
+					type,
+					columns: [`${name}.latitude`, `${name}.longitude`, `${name}.address`],
+					flatten: (a) => {
+						const stamp = typeof a?.answer === 'string' ? parseGeoStamp(a.answer) : {};
+						const address = [stamp.street, stamp.city, [stamp.region, stamp.zip].filter(Boolean).join(' '), stamp.country].filter(Boolean).join(', ');
+						return [stamp.latitude ?? '', stamp.longitude ?? '', address];
+					}
+				};
+			}
+			// Signatures and uploads come through as their URL, checkboxes as a list
+			return { name, type, columns: [name], flatten: (a) => [plainAnswer(a)] };
+	}
+}
+
+function plainAnswer(answer: JotFormAnswer | undefined): string {
+	const value = answer?.answer;
+	if (value === undefined || value === null) return '';
+	if (Array.isArray(value)) return value.join(', ');
+	if (typeof value === 'object') return answer?.prettyFormat ?? JSON.stringify(value);
+	return String(value);
+}
+
+export function flattenSubmission(submission: JotFormSubmission, questions: QuestionColumns[]): Record<string, string> {
+	const answersByName = new Map(Object.values(submission.answers || {}).map((answer) => [answer.name, answer]));
+	const row: Record<string, string> = {
+		submission_id: submission.id,
+		created_at: submission.created_at,
+		status: submission.status,
+		ip: submission.ip
+	};
+	for (const question of questions) {
+		const values = question.flatten(answersByName.get(question.name));
+		question.columns.forEach((column, index) => (row[column] = values[index]));
+	}
+	return row;
+}
+
+// Answers are the claimant's to write, so a cell a spreadsheet would read as a formula gets a leading ' to keep it text
+export function toCsv(columns: string[], rows: Array<Record<string, string>>): string {
+	const escape = (cell: string) => {
+		const value = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+		return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+	};
+	return [columns, ...rows.map((row) => columns.map((column) => row[column] ?? ''))].map((line) => line.map(escape).join(',')).join('\r\n') + '\r\n';
+}
+
+// Parse ?format=&from=&to=&status=, alongside the paging. Returns an error message when something is off.
+export function parseSubmissionQuery(query: Record<string, string | undefined>, paging: Paging): SubmissionQuery | string {
+	const format = query.format ?? 'json';
+	if (format !== 'csv' && format !== 'json' && format !== 'ndjson') {
+		return 'format must be csv, json or ndjson';
+	}
+
+	const dateTime = /^\d{4}-\d{2}-\d{2}( \d{2}:\d{2}:\d{2})?$/;
+	for (const key of ['from', 'to'] as const) {
+		if (query[key] !== undefined && !dateTime.test(query[key]!)) {
+			return `${key} must be YYYY-MM-DD or YYYY-MM-DD HH:MM:SS`;
+		}
+	}
+
+	return {
+		format,
+		from: query.from && query.from.length === 10 ? `${query.from} 00:00:00` : query.from,
+		to: query.to && query.to.length === 10 ? `${query.to} 23:59:59` : query.to,
+		status: query.status?.toUpperCase(),
+		...paging
+	};
+}
+
+function matches(submission: JotFormSubmission, query: SubmissionQuery): boolean {
+	return (
+		(!query.from || submission.created_at >= query.from) &&
+		(!query.to || submission.created_at <= query.to) &&
+		(!query.status || submission.status === query.status)
+	);
+}
+
+export async function handleExportSubmissions(formId: string, rawQuery: Record<string, string | undefined>, env: Env, options: HandlerOptions = {}) {
+	try {
+		const paging = parsePaging(rawQuery, maxLimit, pageSize);
+		if (paging instanceof Response) return paging;
+		const query = parseSubmissionQuery(rawQuery, paging);
+		if (typeof query === 'string') {
+			return Response.json({ error: 'Invalid query', message: query }, { status: 400 });
+		}
+
+		const client = await jotformClientFor({ account: await accountForForm(formId, env, options) }, env, options);
+
+		if (typeof client === 'string') {
+			return Response.json({ error: client }, { status: 400 });
+		}
+
+		// JotForm filters on its side; the same filter is applied here too in case it's ignored
+		const filter: Record<string, string> = {};
+		if (query.from) filter['created_at:gte'] = query.from;
+		if (query.to) filter['created_at:lte'] = query.to;
+		if (query.status) filter.status = query.status;
+
+		let questions: QuestionColumns[];
+		const submissions: JotFormSubmission[] = [];
+		// Where the next page starts: past every submission JotForm returned, including any the filter here dropped
+		let offset = query.offset;
+		try {
+			questions = questionColumns((await client.getQuestions(formId)).content || {});
+
+			for (let pages = 0; pages < maxPages && submissions.length < query.limit; pages++) {
+				const limit = Math.min(pageSize, query.limit - submissions.length);
+				const page = await client.getSubmissions(formId, { offset, limit, filter: Object.keys(filter).length > 0 ? filter : undefined });
+				const content = page.content || [];
+				submissions.push(...content.filter((submission) => matches(submission, query)));
+				offset += content.length;
+				if (content.length < limit) break;
+			}
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to get submissions', error);
+			throw error;
+		}
+
+		const columns = [...submissionColumns, ...questions.flatMap((question) => question.columns)];
+		const rows = submissions.map((submission) => flattenSubmission(submission, questions));
+
+		// CSV and NDJSON carry nextOffset in a header
+		if (query.format === 'csv') {
+			return new Response(toCsv(columns, rows), {
+				headers: {
+					'Content-Type': 'text/csv; charset=utf-8',
+					'Content-Disposition': `attachment; filename="submissions-${formId}.csv"`,
+					'X-Next-Offset': String(offset)
+				}
+			});
+		}
+
+		if (query.format === 'ndjson') {
+			return new Response(rows.map((row) => JSON.stringify(row) + '\n').join(''), {
+				headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'X-Next-Offset': String(offset) }
+			});
+		}
+
+		return Response.json({
+			formId,
+			columns,
+			count: rows.length,
+			offset: query.offset,
+			limit: query.limit,
+			nextOffset: offset,
+			submissions: rows
+		});
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
@@ -0,0 +1,195 @@
+/**
+ * Named themes: the properties, CSS and header settings shared by many forms, one JSON value per name in the THEMES KV
+ * namespace. Forms refer to a theme by name (config.theme) and layer their own settings on top of it.
+ */
+
+import { buildFormData, headerSettings, themeProperties } from './form-builder';
+import { jotformClientFor, type HandlerOptions } from './forms';
+import { JotFormError, type JotFormCall } from './jotform-client';
+import { parsePaging } from './query';
+import { listFormRecords } from './registry';
+import type { Env, FormConfig, TemplateFormConfig, ThemeConfig, ThemeHeader } from './types';
+
+export interface ThemeRecord extends ThemeConfig {
+	name: string;
+	updatedAt: string;
+}
+
+// Names go in configs and URLs
+const namePattern = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+const applyPageSize = 10; // Forms per apply request, at up to 3 JotForm calls each
+
+export async function getTheme(env: Env, name: string): Promise<ThemeRecord | null> {
+	return env.THEMES.get<ThemeRecord>(name, 'json');
+}
+
+// The theme a config names, undefined when it names none, or the error response when there's no such theme
+export async function themeFor(env: Env, name: string | undefined): Promise<ThemeRecord | undefined | Response> {
+	if (name === undefined) return undefined;
+	const theme = await getTheme(env, name);
+	return theme ?? Response.json({ error: `Unknown theme '${name}'` }, { status: 400 });
+}
+
+// Set the form's header (control_head) question to the theme's header settings; undefined when there's nothing to set
+export function headerCall(formId: string, header: ThemeHeader | undefined, questions: Record<string, any>): JotFormCall | undefined {
+	const qid = Object.keys(questions).find((key) => questions[key]?.type === 'control_head');
+	const settings = header ? headerSettings(header) : {};
+	if (!qid || Object.keys(settings).length === 0) return undefined;
+
+	return {
+		description: 'update header',
+		method: 'POST',
+		path: `/form/${formId}/question/${qid}`,
+		form: Object.fromEntries(Object.entries(settings).map(([key, value]) => [`question[${key}]`, value]))
+	};
+}
+
+// What a registered form gets from the theme: each property the theme sets, as the form's config resolves it with its
+// own settings on top. Properties the theme doesn't set are left as they are.
+export function themedProperties(theme: ThemeConfig, config: FormConfig | TemplateFormConfig): Record<string, string> {
+	const resolved: Record<string, any> =
+		'templateFormId' in config
+			? { ...themeProperties(theme), ...config.properties }
+			: buildFormData(config as FormConfig, theme).properties;
+	return Object.fromEntries(Object.keys(themeProperties(theme)).map((key) => [key, String(resolved[key])]));
+}
+
+export async function handleGetTheme(name: string, env: Env) {
+	try {
+		const theme = await getTheme(env, name);
+		if (!theme) {
+			return Response.json({ error: 'Theme not found', name }, { status: 404 });
+		}
+		return Response.json(theme);
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// Create or replace a theme. Forms already using it keep their look until POST /themes/:name/apply.
+export async function handlePutTheme(name: string, theme: ThemeConfig, env: Env) {
+	try {
+		if (!namePattern.test(name)) {
+			return Response.json({
+				error: 'Invalid theme name',
+				message: 'Use up to 64 letters, digits, dashes and underscores, starting with a letter or digit'
+			}, { status: 400 });
+		}
+
+		const existing = await getTheme(env, name);
+		const record: ThemeRecord = {
+			name,
+			...(theme.properties ? { properties: theme.properties } : {}),
+			...(theme.css !== undefined ? { css: theme.css } : {}),
+			...(theme.header ? { header: theme.header } : {}),
+			updatedAt: new Date().toISOString()
+		};
+		await env.THEMES.put(name, JSON.stringify(record));
+
+		return Response.json(record, { status: existing ? 200 : 201 });
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// Re-apply a theme to the registered forms that use it, e.g. after changing it. Each form keeps its own settings on top.
+// A request covers a page of the forms (?limit=, up to applyPageSize, newest first) so it stays within the Workers
+// subrequest limit. nextCursor marks the last form done: pass it as ?cursor= for the next page. It's left out once every
+// form is done, and forms registered in between don't shift the pages. One form failing doesn't stop the rest; with
+// dryRun, the calls each form would get are listed instead.
+export async function handleApplyTheme(name: string, query: Record<string, string | undefined>, env: Env, options: HandlerOptions = {}) {
+	// Pages go by cursor, not offset
+	const paging = parsePaging({ limit: query.limit }, applyPageSize);
+	if (paging instanceof Response) return paging;
+	const { limit } = paging;
+	const before = query.cursor === undefined ? undefined : parseCursor(query.cursor);
+	if (before === null) {
+		return Response.json({ error: 'Invalid paging', message: "cursor must be a previous response's nextCursor" }, { status: 400 });
+	}
+
+	try {
+		const theme = await getTheme(env, name);
+		if (!theme) {
+			return Response.json({ error: 'Theme not found', name }, { status: 404 });
+		}
+
+		// Step 1: Find this page of the forms using it, and whether there are more
+		const page = await listFormRecords(env.DB, { theme: name, before, limit: limit + 1 });
+		const records = page.slice(0, limit);
+
+		// Step 2: Apply it to each, one at a time
+		const forms: Array<{ formId: string; title: string; status: 'applied' | 'planned' | 'failed'; calls?: JotFormCall[]; error?: string }> = [];
+		for (const record of records) {
+			const summary = { formId: record.formId, title: record.title };
+			// Each under the account it was created with
+			const client = await jotformClientFor({ account: record.config.account }, env, options);
+			if (typeof client === 'string') {
+				forms.push({ ...summary, status: 'failed', error: client });
+				continue;
+			}
+
+			try {
+				const questions = theme.header ? (await client.getQuestions(record.formId)).content || {} : {};
+				const header = headerCall(record.formId, theme.header, questions);
+				const properties = themedProperties(theme, record.config as FormConfig | TemplateFormConfig);
+				const calls: JotFormCall[] = [
+					...(header ? [header] : []),
+					...(Object.keys(properties).length > 0 ? [propertiesCall(record.formId, properties)] : [])
+				];
+
+				if (options.dryRun) {
+					forms.push({ ...summary, status: 'planned', calls });
+					continue;
+				}
+				for (const call of calls) {
+					await client.send(call);
+				}
+				forms.push({ ...summary, status: 'applied' });
+			} catch (error) {
+				if (!(error instanceof JotFormError)) throw error;
+				forms.push({ ...summary, status: 'failed', error: error.message });
+			}
+		}
+
+		const failed = forms.filter((form) => form.status === 'failed').length;
+		return Response.json({
+			success: failed === 0,
+			...(options.dryRun ? { dryRun: true } : {}),
+			...(failed > 0 ? { error: `Failed to apply the theme to ${failed} of ${forms.length} forms` } : {}),
+			theme: name,
+			forms,
+			limit,
+			...(page.length > limit ? { nextCursor: `${records[limit - 1].createdAt}_${records[limit - 1].formId}` } : {})
+		}, { status: failed > 0 ? 502 : 200 });
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// A nextCursor's record, or null when it isn't one
+function parseCursor(cursor: string): { createdAt: string; formId: string } | null {
+	const separator = cursor.lastIndexOf('_');
+	const createdAt = cursor.slice(0, separator);
+	const formId = cursor.slice(separator + 1);
+	return separator > 0 && formId && !Number.isNaN(Date.parse(createdAt)) ? { createdAt, formId } : null;
+}
+
+function propertiesCall(formId: string, properties: Record<string, string>): JotFormCall {
+	return {
+		description: 'apply theme',
+		method: 'POST',
+		path: `/form/${formId}/properties`,
+		form: Object.fromEntries(Object.entries(properties).map(([key, value]) => [`properties[${key}]`, value]))
+	};
+}
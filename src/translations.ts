@@ -0,0 +1,150 @@
+/**
+ * Locale variants of a FormConfig: one JotForm form per locale, linked as a translation group in the registry
+ */
+
+import { formFields } from './fields';
+import { handleCreateForm, jotformClientFor, type HandlerOptions } from './forms';
+import { saveSchedule } from './lifecycle';
+import { linkTranslations, touchForm } from './registry';
+import type { Env, FormConfig } from './types';
+
+export const defaultLocale = 'en';
+
+// The config's own locale first, then the translations in the order given
+export function configLocales(config: FormConfig): string[] {
+	return [...new Set([config.locale || defaultLocale, ...Object.keys(config.translations || {})])];
+}
+
+// The config with a locale's strings swapped in, ready for handleCreateForm. The personal info toggles are expanded
+// into fields so their labels can be translated too; the questions built are the same.
+export function localizeConfig(config: FormConfig, locale: string): FormConfig {
+	const { translations, personalInfoFields, ...base } = config;
+	const strings = translations?.[locale] || {};
+	const fields = formFields(config);
+
+	return {
+		...base,
+		locale,
+		title: strings.title ?? base.title,
+		...(base.eligibilityQuestions && {
+			eligibilityQuestions: base.eligibilityQuestions.map((eq) => ({ ...eq, text: strings.eligibilityQuestions?.[eq.name] ?? eq.text }))
+		}),
+		...(fields.length > 0 && {
+			fields: fields.map((field) => ({ ...field, ...strings.fields?.[field.name] }))
+		}),
+		...(base.legalTextBlocks && {
+			legalTextBlocks: base.legalTextBlocks.map((block, index) => ({
+				...block,
+				content: strings.legalTextBlocks?.[block.name || `legalText${index}`] ?? block.content
+			}))
+		}),
+		...(base.signatureFields && {
+			signatureFields: base.signatureFields.map((sig) => ({ ...sig, text: strings.signatureFields?.[sig.name] ?? sig.text }))
+		}),
+		...((strings.submitText ?? base.submitText) !== undefined && { submitText: strings.submitText ?? base.submitText }),
+		...(base.disqualification && {
+			disqualification: { ...base.disqualification, message: strings.disqualificationMessage ?? base.disqualification.message }
+		})
+	};
+}
+
+// POST /create-form with translations: create each locale's form, then link them in the registry. If a locale fails, the
+// forms already created are deleted so a half-translated set isn't left live; any that can't be are listed as orphaned.
+export async function handleCreateTranslatedForms(config: FormConfig, env: Env, options: HandlerOptions = {}) {
+	try {
+		const locales = configLocales(config);
+		const results: Record<string, any> = {};
+
+		// One at a time, stopping at the first failure; the rest would most likely fail the same way
+		let failure: { locale: string; status: number } | undefined;
+		for (const locale of locales) {
+			const response = await handleCreateForm(localizeConfig(config, locale), env, options);
+			results[locale] = await response.json();
+			if (!response.ok) {
+				failure = { locale, status: response.status };
+				break;
+			}
+		}
+
+		if (options.dryRun && !failure) {
+			return Response.json({ success: true, dryRun: true, locales: results });
+		}
+
+		const created = locales.filter((locale) => results[locale]?.success && results[locale].formId);
+
+		if (failure) {
+			const deleted = await deleteForms(config, created.map((locale) => results[locale].formId), env, options);
+			const summary: Record<string, Record<string, any>> = {};
+			for (const locale of locales) {
+				const result = results[locale];
+				if (created.includes(locale)) {
+					summary[locale] = deleted.has(result.formId) ? { formId: result.formId, deleted: true } : { formId: result.formId, formUrl: result.formUrl, orphaned: true };
+				} else if (result) {
+					summary[locale] = { error: result.error, details: result.details ?? result.message ?? result.issues };
+				} else {
+					summary[locale] = { skipped: true };
+				}
+			}
+			const orphaned = created.map((locale) => results[locale].formId).filter((formId) => !deleted.has(formId));
+
+			return Response.json({
+				success: false,
+				error: `Failed to create the '${failure.locale}' form`,
+				rolledBack: orphaned.length === 0,
+				...(orphaned.length > 0 ? { orphaned } : {}),
+				locales: summary
+			}, { status: failure.status });
+		}
+
+		const translationGroup = crypto.randomUUID();
+		let linked = true;
+		try {
+			await linkTranslations(env.DB, translationGroup, created.map((locale) => results[locale].formId));
+		} catch (error) {
+			console.error('Failed to link translations in the form registry:', error instanceof Error ? error.message : error);
+			linked = false;
+		}
+
+		const summary: Record<string, Record<string, any>> = {};
+		for (const locale of locales) {
+			const result = results[locale];
+			summary[locale] = { formId: result.formId, formUrl: result.formUrl, conditionsApplied: result.conditionsApplied };
+		}
+
+		const base = summary[locales[0]];
+		return Response.json({
+			success: true,
+			formId: base.formId,
+			formUrl: base.formUrl,
+			linked,
+			translationGroup: linked ? translationGroup : undefined,
+			locales: summary
+		});
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// Delete forms created for the config, and their schedules. Returns the ones deleted; a failure is logged and the form left.
+async function deleteForms(config: FormConfig, formIds: string[], env: Env, options: HandlerOptions): Promise<Set<string>> {
+	const deleted = new Set<string>();
+	if (formIds.length === 0) return deleted;
+	const client = await jotformClientFor(config, env, options);
+	if (typeof client === 'string') return deleted;
+
+	for (const formId of formIds) {
+		try {
+			await client.deleteForm(formId);
+			deleted.add(formId);
+			await saveSchedule(env.DB, formId, {});
+			await touchForm(env.DB, formId);
+		} catch (error) {
+			console.error(`Failed to delete form ${formId}:`, error instanceof Error ? error.message : error);
+		}
+	}
+	return deleted;
+}
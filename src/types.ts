@@ -0,0 +1,296 @@
+/**
+ * Request configs and shared types for the JotForm Manager worker
+ */
+
+import type { DeliveryMessage } from './deliveries';
+import type { JobMessage } from './jobs';
+import type { JotFormRegion } from './jotform-client';
+
+export interface Env {
+	JOTFORM_API_KEY: string;
+	JOTFORM_REGION?: JotFormRegion; // 'us' (default), 'eu' or 'hipaa'
+	JOTFORM_BASE_URL?: string; // Overrides JOTFORM_REGION, e.g. an Enterprise API domain
+	JOTFORM_ACCOUNTS?: string; // Secret JSON of named accounts: {"acme": {"apiKey": "...", "region": "eu"}}
+	ACCOUNTS: KVNamespace; // More named accounts, one JSON value per name in the same shape
+	JOBS: Queue<JobMessage>; // Background job items, consumed by this worker (see jobs.ts)
+	DELIVERIES: Queue<DeliveryMessage>; // Submission events for downstream destinations, consumed by this worker (see deliveries.ts)
+	DB: D1Database; // Form registry, see migrations/
+	EVIDENCE: R2Bucket; // Consent evidence bundles
+	ADMIN_TOKEN?: string; // Secret bearer token with every scope, for issuing the first tokens
+	CORS_ORIGINS?: string; // Comma-separated origins allowed to call the worker from a browser
+	ALLOW_BODY_API_KEY?: string; // 'false' rejects requests that pass their own JotForm apiKey
+	PUBLIC_URL?: string; // The worker's own URL, for the webhooks it registers (captureSubmissions); default the request's origin
+	THEMES: KVNamespace; // Named themes, one JSON value per name (see themes.ts)
+	STATS: KVNamespace; // Cached form stats (see stats.ts)
+}
+
+export interface FormConfig {
+	title: string;
+	apiKey?: string; // Optional - will use env secret if not provided
+	account?: string; // Named JotForm account to use instead of apiKey (see accounts.ts)
+	campaign?: string; // Tag recorded in the form registry
+	locale?: string; // Language of the config's own text, default 'en'
+	translations?: Record<string, FormTranslation>; // Other locales; /create-form makes one form per locale
+	theme?: string; // Named theme; properties, customCSS/injectCSS, progressBar and lineLayout go on top of it
+	properties?: Record<string, any>;
+	eligibilityQuestions?: EligibilityQuestion[];
+	personalInfoFields?: {
+		includeName?: boolean;
+		includeAddress?: boolean;
+		includeEmail?: boolean;
+		includePhone?: boolean;
+	};
+	fields?: FieldConfig[]; // Input fields beyond the toggles; they go with the personal info unless placed with `after`
+	pages?: FormPage[]; // Custom page layout, replacing the default one (and any field's `after`)
+	progressBar?: boolean; // Show JotForm's page progress bar
+	legalTextBlocks?: Array<{
+		content: string;
+		name?: string;
+	}>;
+	signatureFields?: Array<{
+		text: string;
+		name: string;
+		required?: boolean;
+		size?: string; // For signature box size
+	}>;
+	hiddenFields?: Array<{
+		name: string;
+		text: string;
+		defaultValue?: string;
+		readonly?: boolean;
+	}>;
+	widgets?: Array<{
+		type: 'userAgent' | 'geoStamp';
+		name: string;
+		text?: string;
+	}>;
+	includeCaptcha?: boolean;
+	submitText?: string; // Submit button label, default 'Submit'
+	emailNotification?: {
+		to: string;
+		subject?: string;
+		from?: string;
+	};
+	emails?: EmailConfig[]; // Notifications and autoresponders, sent after emailNotification
+	// Webhook configuration
+	webhookURL?: string;
+	captureSubmissions?: boolean; // Also register this worker's /hooks/jotform/{formId}, storing a claimant record per submission
+	// Conditional logic
+	enableConditionals?: boolean;
+	showPersonalInfoOnlyIfEligible?: boolean;
+	disqualification?: DisqualificationConfig;
+	conditions?: FormCondition[]; // Additional rules, applied after the generated ones
+	// Lifecycle, enforced by the scheduled run (see lifecycle.ts)
+	opensAt?: string; // ISO 8601; the form is disabled until then
+	closesAt?: string; // ISO 8601; the form is disabled, showing closedMessage, from then on
+	maxSubmissions?: number; // Close once the form has this many submissions
+	closedMessage?: string; // Default 'This claim period has ended.'
+	// Custom CSS (can use either customCSS or injectCSS)
+	customCSS?: string;
+	injectCSS?: string;
+	// Line layout settings
+	lineLayout?: {
+		lineSpacing?: string; // Vertical padding (0-50px)
+		horizontalPadding?: string; // Horizontal padding
+		verticalPadding?: string; // Alternative name for lineSpacing
+	};
+}
+
+export interface TemplateFormConfig {
+	templateFormId: string;
+	apiKey?: string;
+	account?: string;
+	campaign?: string;
+	title: string;
+	theme?: string; // Named theme, applied over the template's look
+	properties?: Record<string, any>; // On top of the theme
+	eligibilityQuestions?: EligibilityQuestion[];
+	personalInfoFields?: {
+		includeName?: boolean;
+		includeAddress?: boolean;
+		includeEmail?: boolean;
+		includePhone?: boolean;
+	};
+	legalTextBlocks?: Array<{
+		content: string;
+		name?: string;
+	}>;
+	signatureFields?: Array<{
+		text: string;
+		name: string;
+		required?: boolean;
+		size?: string;
+	}>;
+	hiddenFields?: Array<{
+		name: string;
+		text: string;
+		defaultValue?: string;
+		readonly?: boolean;
+	}>;
+	widgets?: Array<{
+		type: 'userAgent' | 'geoStamp';
+		name: string;
+	}>;
+	includeCaptcha?: boolean;
+	emailNotification?: {
+		to: string;
+		subject?: string;
+		from?: string;
+	};
+	emails?: EmailConfig[]; // With emailNotification, replaces the template's emails
+	// Webhook configuration
+	webhookURL?: string;
+	captureSubmissions?: boolean;
+	removeTemplateWebhooks?: boolean; // Drop webhooks the clone inherited from the template (webhookURL and captureSubmissions' are kept)
+	disqualification?: DisqualificationConfig;
+	// Lifecycle, as for FormConfig
+	opensAt?: string;
+	closesAt?: string;
+	maxSubmissions?: number;
+	closedMessage?: string;
+	// Delete the cloned form if any step fails, instead of returning it half-configured
+	strict?: boolean;
+}
+
+// A named look shared by many forms, stored with PUT /themes/:name. Forms refer to it by name and layer their own settings on top.
+export interface ThemeConfig {
+	properties?: Record<string, string>; // Form properties such as font, fontcolor, pageColor, formWidth, styles and themeID
+	css?: string; // Injected ahead of the form's own customCSS/injectCSS
+	header?: ThemeHeader;
+}
+
+// Settings for the form's header question
+export interface ThemeHeader {
+	logoURL?: string; // Image shown in the header
+	logoAlign?: 'Left' | 'Right' | 'Top';
+	subHeader?: string;
+	size?: 'Default' | 'Large' | 'Small';
+	alignment?: 'Left' | 'Center' | 'Right';
+}
+
+// A FormConfig's text in another language. Questions are keyed by name; anything left out keeps the config's text.
+export interface FormTranslation {
+	title?: string;
+	eligibilityQuestions?: Record<string, string>;
+	legalTextBlocks?: Record<string, string>; // By block name, or legalText{index} for unnamed blocks
+	fields?: Record<string, Pick<FieldConfig, 'label' | 'sublabel' | 'sublabels' | 'placeholder' | 'options'>>; // Including the personal info toggles' fields
+	signatureFields?: Record<string, string>;
+	submitText?: string;
+	disqualificationMessage?: string;
+}
+
+// One page of the form: its questions by name, in order. Questions are referred to by the names they get in the
+// config, e.g. a legal block's name (or legalText{index}), a field's or signature's name, 'captcha' or 'submit'.
+export interface FormPage {
+	name?: string; // Name of the page break that starts the page, default pageBreak{page number}; unused on the first page
+	title?: string; // The page break's text
+	blocks: string[];
+	nextText?: string; // Button labels on the page break
+	backText?: string;
+}
+
+export type FieldType = 'textbox' | 'textarea' | 'dropdown' | 'checkbox' | 'radio' | 'date' | 'number' | 'file' | 'email' | 'phone' | 'fullname' | 'address';
+
+// An input field; each personalInfoFields toggle is shorthand for one of these (see fields.ts)
+export interface FieldConfig {
+	type: FieldType;
+	name: string;
+	label: string;
+	sublabel?: string; // Help text under the input, for single-part fields
+	sublabels?: Record<string, string>; // Labels of the parts of fullname, address, phone and date, e.g. { first: 'Given name' }
+	required?: boolean;
+	placeholder?: string;
+	defaultValue?: string;
+	readonly?: boolean;
+	options?: string[]; // dropdown, checkbox and radio
+	validation?: 'None' | 'Email' | 'AlphaNumeric' | 'Alphabetic' | 'Numeric' | 'Url'; // textbox
+	inputMask?: string; // textbox and phone; # is a digit and @ a letter, e.g. '(###) ###-####'
+	maxLength?: number; // textbox and textarea
+	min?: number; // number
+	max?: number;
+	dateFormat?: 'mmddyyyy' | 'ddmmyyyy' | 'yyyymmdd'; // date
+	extensions?: string[]; // file, e.g. ['pdf', 'jpg']
+	maxFileSizeKB?: number; // file, default 10240
+	after?: string; // Name of the question this follows, e.g. 'header' or a signature; default is with the personal info
+}
+
+export interface EligibilityQuestion {
+	text: string;
+	name: string;
+	required?: boolean;
+	qualifyingAnswer?: 'Yes' | 'No'; // Defaults to 'Yes'
+	disqualifyingAnswer?: 'Yes' | 'No'; // Defaults to the other answer
+	residency?: string; // US state code the question asks about, e.g. 'CA'; screening checks a qualifying answer against the geo stamp
+}
+
+// What ineligible claimants see: a message instead of the signature page and submit button
+export interface DisqualificationConfig {
+	message: string;
+	name?: string; // Question name for the message block, defaults to 'disqualification_message'
+	redirectURL?: string; // Send disqualified claimants here instead of the thank you page
+	skipToEnd?: boolean;
+}
+
+export interface UpdateFormConfig {
+	formId: string;
+	apiKey?: string;
+	account?: string;
+	updateType: 'properties' | 'questions' | 'conditions' | 'emails';
+	// For property updates: a named theme, and/or properties on top of it
+	theme?: string;
+	properties?: Record<string, any>;
+	// For question updates
+	questionUpdates?: Array<{
+		questionId: string;
+		action: 'update' | 'delete' | 'add';
+		questionData?: any;
+		newOrder?: number;
+	}>;
+	// For adding new questions
+	newQuestions?: Array<JotFormQuestion>;
+	// For conditional updates
+	conditions?: FormCondition[];
+	// For email updates; replaces all of the form's emails
+	emails?: EmailConfig[];
+}
+
+// An email sent on each submission. Subject, body and replyTo can use answers by question name: {eligibility_question_2},
+// or one part of a compound answer such as {name.first} or {address.city}.
+export interface EmailConfig {
+	type: 'notification' | 'autoresponder';
+	name?: string; // Default notification{n} or autoresponder{n}, counting each type from 1
+	to?: string; // Required for notifications; an autoresponder goes to the claimant's email field unless set
+	from?: string; // JotForm sender, default 'default'
+	replyTo?: string; // An address, or an answer such as {email}
+	bcc?: string; // Comma-separated addresses
+	subject?: string;
+	body?: string; // HTML; default JotForm's table of answers
+	condition?: 'eligible' | { terms: FormCondition['terms']; link?: 'All' | 'Any' }; // Only send when this holds; 'eligible' = every eligibility question answered as qualifying
+}
+
+// Conditional rule. Fields may be question names or qids; names are resolved to qids before sending.
+export interface FormCondition {
+	id?: string;
+	type?: 'field' | 'page' | 'url' | 'mail'; // Show/hide fields (default), skip to a page, change the thank you URL, or send an email
+	terms: Array<{
+		field: string;
+		operator: string;
+		value: string;
+	}>;
+	actions: Array<{
+		field?: string; // 'field' conditions
+		visibility?: 'Show' | 'Hide';
+		skipTo?: string; // 'page' conditions, e.g. 'end'
+		redirect?: string; // 'url' conditions
+		email?: string; // 'mail' conditions: the email's index in the form's email list
+	}>;
+	link: 'All' | 'Any';
+}
+
+export interface JotFormQuestion {
+	type: string;
+	text: string;
+	order: string;
+	name: string;
+	[key: string]: any;
+}
@@ -0,0 +1,774 @@
+/**
+ * Runtime validation of request bodies.
+ * Each problem is reported with a JSON pointer to the offending value, e.g. /eligibilityQuestions/0/name.
+ */
+
+import { scopes } from './auth';
+import { fieldTypes, personalInfoFieldDefinitions } from './fields';
+import { usStates } from './screening';
+
+export interface ValidationIssue {
+	path: string;
+	message: string;
+}
+
+type Validator = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+interface Field {
+	validate: Validator;
+	required?: boolean;
+}
+
+type Shape = Record<string, Validator | Field>;
+
+// Schema building blocks
+
+function required(validate: Validator): Field {
+	return { validate, required: true };
+}
+
+function describe(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+function string(options: { nonEmpty?: boolean } = {}): Validator {
+	return (value, path, issues) => {
+		if (typeof value !== 'string') {
+			issues.push({ path, message: `Expected string, got ${describe(value)}` });
+		} else if (options.nonEmpty && value.trim() === '') {
+			issues.push({ path, message: 'Must not be empty' });
+		}
+	};
+}
+
+function boolean(): Validator {
+	return (value, path, issues) => {
+		if (typeof value !== 'boolean') {
+			issues.push({ path, message: `Expected boolean, got ${describe(value)}` });
+		}
+	};
+}
+
+function number(): Validator {
+	return (value, path, issues) => {
+		if (typeof value !== 'number' || !Number.isFinite(value)) {
+			issues.push({ path, message: `Expected number, got ${describe(value)}` });
+		}
+	};
+}
+
+function positiveInteger(): Validator {
+	return (value, path, issues) => {
+		if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+			issues.push({ path, message: 'Must be a positive integer' });
+		}
+	};
+}
+
+// ISO 8601 with a time zone, since a deadline without one is ambiguous
+function dateTime(): Validator {
+	const pattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+	return (value, path, issues) => {
+		if (typeof value !== 'string' || !pattern.test(value) || Number.isNaN(Date.parse(value))) {
+			issues.push({ path, message: 'Must be an ISO 8601 date and time with a time zone, e.g. 2025-12-31T23:59:59-05:00' });
+		}
+	};
+}
+
+function oneOf(values: readonly string[]): Validator {
+	return (value, path, issues) => {
+		if (typeof value !== 'string' || !values.includes(value)) {
+			issues.push({ path, message: `Must be one of: ${values.join(', ')}` });
+		}
+	};
+}
+
+function stateCode(): Validator {
+	return (value, path, issues) => {
+		if (typeof value !== 'string' || !/^[A-Z]{2}$/.test(value) || !(value in usStates)) {
+			issues.push({ path, message: 'Must be a two-letter US state code, e.g. CA' });
+		}
+	};
+}
+
+function url(): Validator {
+	return (value, path, issues) => {
+		if (typeof value !== 'string') {
+			issues.push({ path, message: `Expected string, got ${describe(value)}` });
+			return;
+		}
+		try {
+			const parsed = new URL(value);
+			if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+				issues.push({ path, message: 'Must be an http(s) URL' });
+			}
+		} catch {
+			issues.push({ path, message: 'Must be a valid URL' });
+		}
+	};
+}
+
+// Raw JotForm question: any properties, but type, text, order and name are needed
+function jotformQuestion(): Validator {
+	return (value, path, issues) => {
+		if (!isObject(value)) {
+			issues.push({ path, message: `Expected object, got ${describe(value)}` });
+			return;
+		}
+		for (const key of ['type', 'text', 'order', 'name']) {
+			if (typeof value[key] !== 'string') {
+				issues.push({ path: `${path}/${key}`, message: 'Required string' });
+			}
+		}
+	};
+}
+
+// Any JSON object, contents unchecked (e.g. raw JotForm properties)
+function record(): Validator {
+	return (value, path, issues) => {
+		if (!isObject(value)) {
+			issues.push({ path, message: `Expected object, got ${describe(value)}` });
+		}
+	};
+}
+
+// Object with any keys, each value checked by item
+function recordOf(item: Validator): Validator {
+	return (value, path, issues) => {
+		if (!isObject(value)) {
+			issues.push({ path, message: `Expected object, got ${describe(value)}` });
+			return;
+		}
+		for (const [key, element] of Object.entries(value)) {
+			item(element, `${path}/${escapePointer(key)}`, issues);
+		}
+	};
+}
+
+function array(item: Validator, options: { nonEmpty?: boolean } = {}): Validator {
+	return (value, path, issues) => {
+		if (!Array.isArray(value)) {
+			issues.push({ path, message: `Expected array, got ${describe(value)}` });
+			return;
+		}
+		if (options.nonEmpty && value.length === 0) {
+			issues.push({ path, message: 'Must contain at least one item' });
+		}
+		value.forEach((element, index) => item(element, `${path}/${index}`, issues));
+	};
+}
+
+// Object with a fixed set of keys; unknown keys are rejected so typos don't get silently ignored
+function object(shape: Shape, check?: (value: Record<string, any>, path: string, issues: ValidationIssue[]) => void): Validator {
+	return (value, path, issues) => {
+		if (!isObject(value)) {
+			issues.push({ path, message: `Expected object, got ${describe(value)}` });
+			return;
+		}
+
+		for (const [key, spec] of Object.entries(shape)) {
+			const field = typeof spec === 'function' ? { validate: spec } : spec;
+			const childPath = `${path}/${escapePointer(key)}`;
+			if (value[key] === undefined) {
+				if (field.required) {
+					issues.push({ path: childPath, message: 'Required' });
+				}
+				continue;
+			}
+			field.validate(value[key], childPath, issues);
+		}
+
+		for (const key of Object.keys(value)) {
+			if (!(key in shape)) {
+				issues.push({ path: `${path}/${escapePointer(key)}`, message: 'Unknown property' });
+			}
+		}
+
+		check?.(value, path, issues);
+	};
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(key: string): string {
+	return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// Shared pieces of the form configs
+
+const eligibilityQuestion = object({
+	text: required(string()),
+	name: required(string({ nonEmpty: true })),
+	required: boolean(),
+	qualifyingAnswer: oneOf(['Yes', 'No']),
+	disqualifyingAnswer: oneOf(['Yes', 'No']),
+	residency: stateCode()
+});
+
+const personalInfoFields = object({
+	includeName: boolean(),
+	includeAddress: boolean(),
+	includeEmail: boolean(),
+	includePhone: boolean()
+});
+
+const field = object(
+	{
+		type: required(oneOf(Object.keys(fieldTypes))),
+		name: required(string({ nonEmpty: true })),
+		label: required(string()),
+		sublabel: string(),
+		sublabels: record(),
+		required: boolean(),
+		placeholder: string(),
+		defaultValue: string(),
+		readonly: boolean(),
+		options: array(string({ nonEmpty: true }), { nonEmpty: true }),
+		validation: oneOf(['None', 'Email', 'AlphaNumeric', 'Alphabetic', 'Numeric', 'Url']),
+		inputMask: string({ nonEmpty: true }),
+		maxLength: number(),
+		min: number(),
+		max: number(),
+		dateFormat: oneOf(['mmddyyyy', 'ddmmyyyy', 'yyyymmdd']),
+		extensions: array(string({ nonEmpty: true }), { nonEmpty: true }),
+		maxFileSizeKB: number(),
+		after: string({ nonEmpty: true })
+	},
+	(value, path, issues) => {
+		const hasOptions = ['dropdown', 'checkbox', 'radio'].includes(value.type);
+		if (hasOptions && value.options === undefined) {
+			issues.push({ path: `${path}/options`, message: `Required for ${value.type} fields` });
+		} else if (!hasOptions && value.options !== undefined) {
+			issues.push({ path: `${path}/options`, message: 'Only dropdown, checkbox and radio fields have options' });
+		}
+	}
+);
+
+const page = object({
+	name: string({ nonEmpty: true }),
+	title: string(),
+	blocks: required(array(string({ nonEmpty: true }))),
+	nextText: string(),
+	backText: string()
+});
+
+const localePattern = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+function locale(): Validator {
+	return (value, path, issues) => {
+		if (typeof value !== 'string' || !localePattern.test(value)) {
+			issues.push({ path, message: 'Must be a locale like en or es-MX' });
+		}
+	};
+}
+
+// Locale → strings; the names they translate are checked in checkTranslations
+function translations(): Validator {
+	const each = recordOf(object({
+		title: string(),
+		eligibilityQuestions: recordOf(string()),
+		legalTextBlocks: recordOf(string()),
+		fields: recordOf(object({
+			label: string(),
+			sublabel: string(),
+			sublabels: record(),
+			placeholder: string(),
+			options: array(string({ nonEmpty: true }), { nonEmpty: true })
+		})),
+		signatureFields: recordOf(string()),
+		submitText: string(),
+		disqualificationMessage: string()
+	}));
+	return (value, path, issues) => {
+		each(value, path, issues);
+		if (!isObject(value)) return;
+		for (const key of Object.keys(value)) {
+			if (!localePattern.test(key)) issues.push({ path: `${path}/${escapePointer(key)}`, message: 'Must be a locale like en or es-MX' });
+		}
+	};
+}
+
+const legalTextBlock = object({
+	content: required(string()),
+	name: string({ nonEmpty: true })
+});
+
+const signatureField = object({
+	text: required(string()),
+	name: required(string({ nonEmpty: true })),
+	required: boolean(),
+	size: string()
+});
+
+const hiddenField = object({
+	name: required(string({ nonEmpty: true })),
+	text: required(string()),
+	defaultValue: string(),
+	readonly: boolean()
+});
+
+const widget = object({
+	type: required(oneOf(['userAgent', 'geoStamp'])),
+	name: required(string({ nonEmpty: true })),
+	text: string()
+});
+
+const emailNotification = object({
+	to: required(string({ nonEmpty: true })),
+	subject: string(),
+	from: string()
+});
+
+const conditionTerm = object({
+	field: required(string({ nonEmpty: true })),
+	operator: required(string({ nonEmpty: true })),
+	value: required(string())
+});
+
+// 'eligible', or the terms that must hold for the email to be sent
+function emailCondition(): Validator {
+	const terms = object({
+		terms: required(array(conditionTerm, { nonEmpty: true })),
+		link: oneOf(['All', 'Any'])
+	});
+	return (value, path, issues) => {
+		if (typeof value === 'string') {
+			if (value !== 'eligible') issues.push({ path, message: "Must be 'eligible' or an object with terms" });
+		} else {
+			terms(value, path, issues);
+		}
+	};
+}
+
+const email = object(
+	{
+		type: required(oneOf(['notification', 'autoresponder'])),
+		name: string({ nonEmpty: true }),
+		to: string({ nonEmpty: true }),
+		from: string(),
+		replyTo: string(),
+		bcc: string(),
+		subject: string(),
+		body: string(),
+		condition: emailCondition()
+	},
+	(value, path, issues) => {
+		if (value.type === 'notification' && value.to === undefined) {
+			issues.push({ path: `${path}/to`, message: 'Notifications need to' });
+		}
+	}
+);
+
+const disqualification = object({
+	message: required(string()),
+	name: string({ nonEmpty: true }),
+	redirectURL: url(),
+	skipToEnd: boolean()
+});
+
+const condition = object(
+	{
+		id: string(),
+		type: oneOf(['field', 'page', 'url', 'mail']),
+		terms: required(array(conditionTerm, { nonEmpty: true })),
+		actions: required(array(object({
+			field: string({ nonEmpty: true }),
+			visibility: oneOf(['Show', 'Hide']),
+			skipTo: string({ nonEmpty: true }),
+			redirect: url(),
+			email: string({ nonEmpty: true })
+		}), { nonEmpty: true })),
+		link: required(oneOf(['All', 'Any']))
+	},
+	(value, path, issues) => {
+		// Each action must carry what its condition type needs
+		const type = value.type || 'field';
+		if (!Array.isArray(value.actions)) return;
+		value.actions.forEach((action: any, index: number) => {
+			if (!isObject(action)) return;
+			const actionPath = `${path}/actions/${index}`;
+			if (type === 'field' && (action.field === undefined || action.visibility === undefined)) {
+				issues.push({ path: actionPath, message: "'field' conditions need field and visibility" });
+			} else if (type === 'page' && action.skipTo === undefined) {
+				issues.push({ path: actionPath, message: "'page' conditions need skipTo" });
+			} else if (type === 'url' && action.redirect === undefined) {
+				issues.push({ path: actionPath, message: "'url' conditions need redirect" });
+			} else if (type === 'mail' && action.email === undefined) {
+				issues.push({ path: actionPath, message: "'mail' conditions need email" });
+			}
+		});
+	}
+);
+
+// An email's {placeholders} must name the config's questions, and an autoresponder needs an address to go to.
+// A template's own questions aren't known here, so its names go unchecked.
+function checkEmails(value: Record<string, any>, path: string, issues: ValidationIssue[], checkNames: boolean) {
+	if (!Array.isArray(value.emails)) return;
+
+	const names = new Set<string>();
+	let hasEmailField = false;
+	if (isObject(value.personalInfoFields)) {
+		for (const { toggle, field } of personalInfoFieldDefinitions) {
+			if (value.personalInfoFields[toggle] !== true) continue;
+			names.add(field.name);
+			hasEmailField ||= field.type === 'email';
+		}
+	}
+	for (const key of ['fields', 'hiddenFields', 'eligibilityQuestions', 'signatureFields', 'widgets']) {
+		for (const item of Array.isArray(value[key]) ? value[key] : []) {
+			if (!isObject(item) || typeof item.name !== 'string') continue;
+			names.add(item.name);
+			hasEmailField ||= key === 'fields' && item.type === 'email';
+		}
+	}
+	const hasEligibility = Array.isArray(value.eligibilityQuestions) && value.eligibilityQuestions.length > 0;
+
+	value.emails.forEach((item: unknown, index: number) => {
+		if (!isObject(item)) return;
+		const emailPath = `${path}/emails/${index}`;
+		if (checkNames && item.type === 'autoresponder' && item.to === undefined && !hasEmailField) {
+			issues.push({ path: `${emailPath}/to`, message: 'Autoresponders need to when the form has no email field' });
+		}
+		if (item.condition === 'eligible' && !hasEligibility) {
+			issues.push({ path: `${emailPath}/condition`, message: "'eligible' needs eligibilityQuestions" });
+		}
+		if (!checkNames) return;
+		for (const key of ['to', 'replyTo', 'subject', 'body']) {
+			if (typeof item[key] !== 'string') continue;
+			for (const [, name] of item[key].matchAll(/\{(\w+)(?:[.:]\w+)?\}/g)) {
+				if (!names.has(name)) issues.push({ path: `${emailPath}/${key}`, message: `No question named '${name}'` });
+			}
+		}
+	});
+}
+
+function checkSchedule(value: Record<string, any>, path: string, issues: ValidationIssue[]) {
+	if (typeof value.opensAt === 'string' && typeof value.closesAt === 'string' && Date.parse(value.closesAt) <= Date.parse(value.opensAt)) {
+		issues.push({ path: `${path}/closesAt`, message: 'Must be after opensAt' });
+	}
+}
+
+// A named account and a raw key would be two answers to which JotForm account to use
+function checkCredentials(value: Record<string, any>, path: string, issues: ValidationIssue[]) {
+	if (value.apiKey !== undefined && value.account !== undefined) {
+		issues.push({ path: `${path}/account`, message: 'Pass either apiKey or account, not both' });
+	}
+}
+
+// Translations may only name questions the config has, of the kind they're listed under
+function checkTranslations(value: Record<string, any>, path: string, issues: ValidationIssue[]) {
+	if (!isObject(value.translations)) return;
+	const namesOf = (key: string, nameOf: (item: any, index: number) => unknown) =>
+		new Set(Array.isArray(value[key]) ? value[key].filter(isObject).map(nameOf) : []);
+	const known: Record<string, Set<unknown>> = {
+		eligibilityQuestions: namesOf('eligibilityQuestions', (item) => item.name),
+		legalTextBlocks: namesOf('legalTextBlocks', (item, index) => item.name ?? `legalText${index}`),
+		fields: new Set([
+			...personalInfoFieldDefinitions.filter(({ toggle }) => isObject(value.personalInfoFields) && value.personalInfoFields[toggle] === true).map(({ field }) => field.name),
+			...namesOf('fields', (item) => item.name)
+		]),
+		signatureFields: namesOf('signatureFields', (item) => item.name)
+	};
+
+	for (const [localeKey, translation] of Object.entries(value.translations)) {
+		if (!isObject(translation)) continue;
+		for (const [key, names] of Object.entries(known)) {
+			if (!isObject(translation[key])) continue;
+			for (const name of Object.keys(translation[key])) {
+				if (!names.has(name)) {
+					issues.push({ path: `${path}/translations/${escapePointer(localeKey)}/${key}/${escapePointer(name)}`, message: `No ${key} entry named '${name}'` });
+				}
+			}
+		}
+		if (translation.disqualificationMessage !== undefined && value.disqualification === undefined) {
+			issues.push({ path: `${path}/translations/${escapePointer(localeKey)}/disqualificationMessage`, message: 'The config has no disqualification' });
+		}
+	}
+}
+
+// Question names must be unique across every block that becomes a question
+function checkUniqueNames(value: Record<string, any>, path: string, issues: ValidationIssue[]) {
+	const seen = new Map<string, string>();
+	const add = (name: unknown, namePath: string) => {
+		if (typeof name !== 'string') return;
+		const previous = seen.get(name);
+		if (previous) {
+			issues.push({ path: namePath, message: `Duplicate question name '${name}' (also used at ${previous})` });
+		} else {
+			seen.set(name, namePath);
+		}
+	};
+	const each = (key: string, nameOf: (item: any, index: number) => unknown) => {
+		if (!Array.isArray(value[key])) return;
+		value[key].forEach((item: unknown, index: number) => {
+			if (isObject(item)) add(nameOf(item, index), `${path}/${key}/${index}/name`);
+		});
+	};
+
+	if (isObject(value.personalInfoFields)) {
+		for (const { toggle, field } of personalInfoFieldDefinitions) {
+			if (value.personalInfoFields[toggle] === true) add(field.name, `${path}/personalInfoFields/${toggle}`);
+		}
+	}
+	each('fields', (item) => item.name);
+	each('hiddenFields', (item) => item.name);
+	each('eligibilityQuestions', (item) => item.name);
+	each('legalTextBlocks', (item, index) => item.name ?? `legalText${index}`);
+	each('signatureFields', (item) => item.name);
+	each('widgets', (item) => item.name);
+	if (isObject(value.disqualification)) {
+		add(value.disqualification.name ?? 'disqualification_message', `${path}/disqualification/name`);
+	}
+
+	// Page blocks must name a question, each once; page breaks need names of their own
+	const breakNames = new Set<string>();
+	if (Array.isArray(value.pages)) {
+		const placed = new Set<string>();
+		value.pages.forEach((item: unknown, index: number) => {
+			if (!isObject(item)) return;
+			if (index > 0) {
+				const breakName = typeof item.name === 'string' ? item.name : `pageBreak${index + 1}`;
+				if (seen.has(breakName) || breakNames.has(breakName)) {
+					issues.push({ path: `${path}/pages/${index}/name`, message: `Page break name '${breakName}' is already used` });
+				}
+				breakNames.add(breakName);
+			}
+			if (!Array.isArray(item.blocks)) return;
+			item.blocks.forEach((name: unknown, blockIndex: number) => {
+				if (typeof name !== 'string') return;
+				const blockPath = `${path}/pages/${index}/blocks/${blockIndex}`;
+				if (!seen.has(name) && !(name === 'captcha' && value.includeCaptcha === true) && name !== 'submit') {
+					issues.push({ path: blockPath, message: `No question named '${name}'` });
+				} else if (placed.has(name)) {
+					issues.push({ path: blockPath, message: `'${name}' is already on a page` });
+				}
+				placed.add(name);
+			});
+		});
+	}
+
+	// A field can follow any question, including the header, page break, captcha and submit button the builder adds,
+	// but not a field that is itself placed later on
+	const layoutNames = ['header', 'pageBreak2', 'captcha', 'submit'];
+	if (Array.isArray(value.fields)) {
+		const fields: unknown[] = value.fields;
+		fields.forEach((item, index) => {
+			if (!isObject(item) || typeof item.after !== 'string') return;
+			const target = fields.findIndex((other) => isObject(other) && other.name === item.after);
+			if (!seen.has(item.after) && !layoutNames.includes(item.after)) {
+				issues.push({ path: `${path}/fields/${index}/after`, message: `No question named '${item.after}'` });
+			} else if (target >= index && (fields[target] as Record<string, any>).after !== undefined) {
+				issues.push({ path: `${path}/fields/${index}/after`, message: `'${item.after}' is placed later on; list it before this field` });
+			}
+		});
+	}
+
+	// Conditions' terms and actions must name a question too (or give its qid), so a typo fails here rather than once the
+	// form exists
+	if (Array.isArray(value.conditions)) {
+		const known = (name: string) => seen.has(name) || breakNames.has(name) || layoutNames.includes(name) || /^\d+$/.test(name);
+		value.conditions.forEach((item: unknown, index: number) => {
+			if (!isObject(item)) return;
+			for (const key of ['terms', 'actions']) {
+				if (!Array.isArray(item[key])) continue;
+				item[key].forEach((entry: unknown, entryIndex: number) => {
+					if (isObject(entry) && typeof entry.field === 'string' && !known(entry.field)) {
+						issues.push({ path: `${path}/conditions/${index}/${key}/${entryIndex}/field`, message: `No question named '${entry.field}'` });
+					}
+				});
+			}
+		});
+	}
+}
+
+const formConfig = object(
+	{
+		title: required(string()),
+		apiKey: string(),
+		account: string({ nonEmpty: true }),
+		campaign: string({ nonEmpty: true }),
+		locale: locale(),
+		translations: translations(),
+		theme: string({ nonEmpty: true }),
+		properties: record(),
+		eligibilityQuestions: array(eligibilityQuestion),
+		personalInfoFields,
+		fields: array(field),
+		pages: array(page, { nonEmpty: true }),
+		progressBar: boolean(),
+		legalTextBlocks: array(legalTextBlock),
+		signatureFields: array(signatureField),
+		hiddenFields: array(hiddenField),
+		widgets: array(widget),
+		includeCaptcha: boolean(),
+		submitText: string({ nonEmpty: true }),
+		emailNotification,
+		emails: array(email),
+		webhookURL: url(),
+		captureSubmissions: boolean(),
+		enableConditionals: boolean(),
+		showPersonalInfoOnlyIfEligible: boolean(),
+		disqualification,
+		conditions: array(condition),
+		opensAt: dateTime(),
+		closesAt: dateTime(),
+		maxSubmissions: positiveInteger(),
+		closedMessage: string({ nonEmpty: true }),
+		customCSS: string(),
+		injectCSS: string(),
+		lineLayout: object({
+			lineSpacing: string(),
+			horizontalPadding: string(),
+			verticalPadding: string()
+		})
+	},
+	(value, path, issues) => {
+		checkCredentials(value, path, issues);
+		checkUniqueNames(value, path, issues);
+		checkTranslations(value, path, issues);
+		checkEmails(value, path, issues, true);
+		checkSchedule(value, path, issues);
+	}
+);
+
+const templateFormConfig = object(
+	{
+		templateFormId: required(string({ nonEmpty: true })),
+		apiKey: string(),
+		account: string({ nonEmpty: true }),
+		campaign: string({ nonEmpty: true }),
+		title: required(string()),
+		theme: string({ nonEmpty: true }),
+		properties: record(),
+		eligibilityQuestions: array(eligibilityQuestion),
+		personalInfoFields,
+		legalTextBlocks: array(legalTextBlock),
+		signatureFields: array(signatureField),
+		hiddenFields: array(hiddenField),
+		widgets: array(widget),
+		includeCaptcha: boolean(),
+		emailNotification,
+		emails: array(email),
+		webhookURL: url(),
+		captureSubmissions: boolean(),
+		removeTemplateWebhooks: boolean(),
+		disqualification,
+		opensAt: dateTime(),
+		closesAt: dateTime(),
+		maxSubmissions: positiveInteger(),
+		closedMessage: string({ nonEmpty: true }),
+		strict: boolean()
+	},
+	(value, path, issues) => {
+		checkCredentials(value, path, issues);
+		checkUniqueNames(value, path, issues);
+		checkEmails(value, path, issues, false);
+		checkSchedule(value, path, issues);
+	}
+);
+
+const updateFormConfig = object({
+	formId: required(string({ nonEmpty: true })),
+	apiKey: string(),
+	account: string({ nonEmpty: true }),
+	updateType: required(oneOf(['properties', 'questions', 'conditions', 'emails'])),
+	theme: string({ nonEmpty: true }),
+	properties: record(),
+	questionUpdates: array(object({
+		questionId: required(string({ nonEmpty: true })),
+		action: required(oneOf(['update', 'delete', 'add'])),
+		questionData: record(),
+		newOrder: number()
+	})),
+	newQuestions: array(jotformQuestion()),
+	conditions: array(condition),
+	emails: array(email)
+}, checkCredentials);
+
+// Only the outline: each form's merged config is validated in jobs.ts
+const campaignRequest = object({
+	campaign: required(string({ nonEmpty: true })),
+	base: required(record()),
+	forms: required(array(record(), { nonEmpty: true }))
+});
+
+const destinationsRequest = object({
+	destinations: required(array(object({
+		name: required(string({ nonEmpty: true })),
+		url: required(url()),
+		secret: string({ nonEmpty: true }),
+		bodyTemplate: record()
+	})))
+}, (value, path, issues) => {
+	const seen = new Set<string>();
+	(Array.isArray(value.destinations) ? value.destinations : []).forEach((destination: any, index: number) => {
+		if (typeof destination?.name !== 'string') return;
+		if (seen.has(destination.name)) {
+			issues.push({ path: `${path}/destinations/${index}/name`, message: `Duplicate destination name '${destination.name}'` });
+		}
+		seen.add(destination.name);
+	});
+});
+
+const webhooksRequest = object({
+	webhooks: required(array(url()))
+});
+
+const themeRequest = object({
+	properties: recordOf(string()),
+	css: string(),
+	header: object({
+		logoURL: url(),
+		logoAlign: oneOf(['Left', 'Right', 'Top']),
+		subHeader: string(),
+		size: oneOf(['Default', 'Large', 'Small']),
+		alignment: oneOf(['Left', 'Center', 'Right'])
+	})
+});
+
+const tokenRequest = object({
+	name: required(string({ nonEmpty: true })),
+	scopes: required(array(oneOf(scopes), { nonEmpty: true }))
+});
+
+function run(validator: Validator, value: unknown): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	validator(value, '', issues);
+	return issues;
+}
+
+export function validateFormConfig(value: unknown): ValidationIssue[] {
+	return run(formConfig, value);
+}
+
+export function validateTemplateFormConfig(value: unknown): ValidationIssue[] {
+	return run(templateFormConfig, value);
+}
+
+export function validateUpdateFormConfig(value: unknown): ValidationIssue[] {
+	return run(updateFormConfig, value);
+}
+
+export function validateCampaignRequest(value: unknown): ValidationIssue[] {
+	return run(campaignRequest, value);
+}
+
+export function validateDestinationsRequest(value: unknown): ValidationIssue[] {
+	return run(destinationsRequest, value);
+}
+
+export function validateWebhooksRequest(value: unknown): ValidationIssue[] {
+	return run(webhooksRequest, value);
+}
+
+export function validateThemeRequest(value: unknown): ValidationIssue[] {
+	return run(themeRequest, value);
+}
+
+export function validateTokenRequest(value: unknown): ValidationIssue[] {
+	return run(tokenRequest, value);
+}
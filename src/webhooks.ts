@@ -0,0 +1,156 @@
+/**
+ * A form's JotForm webhooks, managed as a set of URLs: registering one that's already there is a no-op,
+ * so re-runs and template clones don't end up delivering each submission twice.
+ */
+
+import { accountForForm, jotformClientFor, jotformErrorResponse, type HandlerOptions } from './forms';
+import { JotFormError, type JotFormCall, type JotFormClient } from './jotform-client';
+import type { Env } from './types';
+
+export interface WebhookChanges {
+	added: string[];
+	removed: string[];
+	unchanged: string[];
+}
+
+// The calls that turn the live webhooks (keyed by ID) into `urls`, keeping any others unless removeOthers.
+// JotForm's webhook IDs are positions that shift on delete, so deletes go highest ID first, before any adds.
+export function planWebhooks(formId: string, live: Record<string, string>, urls: string[], removeOthers: boolean): { calls: JotFormCall[]; changes: WebhookChanges } {
+	const wanted = [...new Set(urls)];
+	const liveUrls = new Set(Object.values(live));
+	const changes: WebhookChanges = {
+		added: wanted.filter((url) => !liveUrls.has(url)),
+		removed: [],
+		unchanged: wanted.filter((url) => liveUrls.has(url))
+	};
+
+	const calls: JotFormCall[] = [];
+	const seen = new Set<string>();
+	const ids = Object.keys(live).sort((a, b) => Number(a) - Number(b));
+	const deletes: string[] = [];
+	for (const id of ids) {
+		const url = live[id];
+		// Also drop a URL registered twice, keeping the first
+		if ((removeOthers && !wanted.includes(url)) || seen.has(url)) {
+			deletes.push(id);
+			changes.removed.push(url);
+		}
+		seen.add(url);
+	}
+	for (const id of deletes.reverse()) {
+		calls.push({ description: 'delete webhook', method: 'DELETE', path: `/form/${formId}/webhooks/${id}` });
+	}
+	for (const url of changes.added) {
+		calls.push({ description: 'add webhook', method: 'POST', path: `/form/${formId}/webhooks`, form: { webhookURL: url } });
+	}
+
+	return { calls, changes };
+}
+
+// Read the form's webhooks and make them match `urls`
+export async function syncWebhooks(client: JotFormClient, formId: string, urls: string[], removeOthers = false): Promise<WebhookChanges> {
+	const live = (await client.getWebhooks(formId)).content || {};
+	const { calls, changes } = planWebhooks(formId, live, urls, removeOthers);
+	for (const call of calls) {
+		await client.send(call);
+	}
+	return changes;
+}
+
+function toList(live: Record<string, string>) {
+	return Object.entries(live).map(([id, url]) => ({ id, url }));
+}
+
+// GET /forms/:id/webhooks
+export async function handleListWebhooks(formId: string, env: Env, options: HandlerOptions = {}) {
+	try {
+		const client = await jotformClientFor({ account: await accountForForm(formId, env, options) }, env, options);
+		if (typeof client === 'string') {
+			return Response.json({ error: client }, { status: 400 });
+		}
+
+		try {
+			const webhooks = await client.getWebhooks(formId);
+			return Response.json({ formId, webhooks: toList(webhooks.content || {}) });
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to get webhooks', error);
+			throw error;
+		}
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
+
+// PUT /forms/:id/webhooks: the form ends up with exactly these URLs
+export async function handlePutWebhooks(formId: string, body: { webhooks: string[] }, env: Env, options: HandlerOptions = {}) {
+	return changeWebhooks(formId, env, options, (live) => planWebhooks(formId, live, body.webhooks, true));
+}
+
+// DELETE /forms/:id/webhooks?url=: remove every webhook with the URL
+export async function handleDeleteWebhook(formId: string, url: string | undefined, env: Env, options: HandlerOptions = {}) {
+	if (!url) {
+		return Response.json({ error: 'Missing url', message: 'Pass the webhook URL to remove as ?url=' }, { status: 400 });
+	}
+	return changeWebhooks(formId, env, options, (live) => {
+		if (!Object.values(live).includes(url)) return undefined;
+		const keep = Object.values(live).filter((liveUrl) => liveUrl !== url);
+		return planWebhooks(formId, live, keep, true);
+	}, url);
+}
+
+async function changeWebhooks(
+	formId: string,
+	env: Env,
+	options: HandlerOptions,
+	plan: (live: Record<string, string>) => { calls: JotFormCall[]; changes: WebhookChanges } | undefined,
+	missingUrl?: string
+) {
+	try {
+		const client = await jotformClientFor({ account: await accountForForm(formId, env, options) }, env, options);
+		if (typeof client === 'string') {
+			return Response.json({ error: client }, { status: 400 });
+		}
+
+		let live: Record<string, string>;
+		try {
+			live = (await client.getWebhooks(formId)).content || {};
+		} catch (error) {
+			if (error instanceof JotFormError) return jotformErrorResponse('Failed to get webhooks', error);
+			throw error;
+		}
+
+		const planned = plan(live);
+		if (!planned) {
+			return Response.json({ error: 'Webhook not found', formId, url: missingUrl }, { status: 404 });
+		}
+
+		if (options.dryRun) {
+			return Response.json({ success: true, dryRun: true, formId, ...planned.changes, calls: planned.calls });
+		}
+
+		for (const call of planned.calls) {
+			try {
+				await client.send(call);
+			} catch (error) {
+				if (error instanceof JotFormError) return jotformErrorResponse(`Failed to ${call.description}`, error);
+				throw error;
+			}
+		}
+
+		const after = await client.getWebhooks(formId).catch((error) => {
+			if (!(error instanceof JotFormError)) throw error;
+			return undefined;
+		});
+		return Response.json({ success: true, formId, ...planned.changes, webhooks: after ? toList(after.content || {}) : undefined });
+
+	} catch (error) {
+		return Response.json({
+			error: 'Internal server error',
+			message: error instanceof Error ? error.message : 'Unknown error'
+		}, { status: 500 });
+	}
+}
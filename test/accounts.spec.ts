@@ -0,0 +1,54 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleListAccounts } from '../src/accounts';
+import { handleCreateForm } from '../src/forms';
+import { handleExportSubmissions } from '../src/submissions';
+import { validateFormConfig } from '../src/validation';
+import { createFakeJotForm } from './fake-jotform';
+
+const baseUrl = 'https://fake.jotform.test';
+const testEnv = {
+	...env,
+	JOTFORM_API_KEY: 'test-key',
+	JOTFORM_BASE_URL: baseUrl,
+	JOTFORM_ACCOUNTS: JSON.stringify({ acme: { apiKey: 'acme-key', baseUrl } })
+};
+
+describe('named accounts', () => {
+	it('lists accounts from the secret, KV and JOTFORM_API_KEY without their keys, verifying each', async () => {
+		const fake = createFakeJotForm();
+		await env.ACCOUNTS.put('globex', JSON.stringify({ apiKey: 'globex-key', region: 'eu', baseUrl }));
+
+		const body = (await (await handleListAccounts(testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(body.accounts).toEqual([
+			{ name: 'acme', region: 'us', source: 'secret', verified: true, username: 'fake' },
+			{ name: 'default', region: 'us', source: 'env', verified: true, username: 'fake' },
+			{ name: 'globex', region: 'eu', source: 'kv', verified: true, username: 'fake' }
+		]);
+		expect(fake.requests.map((request) => request.apiKey).sort()).toEqual(['acme-key', 'globex-key', 'test-key']);
+
+		fake.failNext('GET', /^\/user$/, 401, 3);
+		const failed = (await (await handleListAccounts(testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(failed.accounts.every((account: any) => account.verified === false && account.error)).toBe(true);
+	});
+
+	it('uses the account for the request and for later form-id routes', async () => {
+		const fake = createFakeJotForm();
+
+		const created = (await (await handleCreateForm({ title: 'Claim', account: 'acme' }, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(created.success).toBe(true);
+
+		await handleExportSubmissions(created.formId, {}, testEnv, { fetch: fake.fetch });
+		expect(fake.requests.every((request) => request.apiKey === 'acme-key')).toBe(true);
+
+		const unknown = await handleCreateForm({ title: 'Claim', account: 'initech' }, testEnv, { fetch: fake.fetch });
+		expect(unknown.status).toBe(400);
+		expect(await unknown.json()).toEqual({ error: "Unknown account 'initech'" });
+	});
+
+	it('rejects an apiKey alongside an account', () => {
+		expect(validateFormConfig({ title: 'Claim', apiKey: 'key', account: 'acme' })).toEqual([
+			{ path: '/account', message: 'Pass either apiKey or account, not both' }
+		]);
+	});
+});
@@ -0,0 +1,4 @@
+import { applyD1Migrations, env } from 'cloudflare:test';
+
+// Setup files run outside isolated storage and may run multiple times; applyD1Migrations only applies new ones
+await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
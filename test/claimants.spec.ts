@@ -0,0 +1,107 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { getClaimant, normalizeClaimant } from '../src/claimants';
+import { handleCreateForm } from '../src/forms';
+import { handleJotFormWebhook } from '../src/hooks';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+function webhook(formId: string, submissionId: string, rawRequest: Record<string, unknown>) {
+	const body = new FormData();
+	body.append('submissionID', submissionId);
+	body.append('formID', formId);
+	body.append('ip', '203.0.113.7');
+	body.append('rawRequest', JSON.stringify(rawRequest));
+	return new Request(`https://worker.test/hooks/jotform/${formId}`, { method: 'POST', body });
+}
+
+describe('claimant records', () => {
+	it('registers the capture webhook and stores a normalized record per submission', async () => {
+		const fake = createFakeJotForm();
+		const created = await handleCreateForm(
+			{
+				title: 'Claim',
+				campaign: 'fall',
+				captureSubmissions: true,
+				eligibilityQuestions: [{ text: 'Did you buy a widget?', name: 'bought' }],
+				personalInfoFields: { includeName: true, includeEmail: true, includePhone: true, includeAddress: true },
+				signatureFields: [{ text: 'Sign here', name: 'claimantSignature' }],
+				hiddenFields: [{ name: 'utm_source', text: 'Source' }],
+				widgets: [{ type: 'userAgent', name: 'ua' }, { type: 'geoStamp', name: 'geo' }],
+			},
+			testEnv,
+			{ fetch: fake.fetch, origin: 'https://worker.test' }
+		);
+		const { formId, submissionsCaptured } = (await created.json()) as any;
+		expect(submissionsCaptured).toBe(true);
+		expect(fake.forms.get(formId)!.webhooks).toEqual([`https://worker.test/hooks/jotform/${formId}`]);
+
+		const answers = {
+			slug: `submit/${formId}`,
+			q3_bought: 'Yes',
+			q5_name: { first: 'John', last: 'Smith' },
+			q6_address: { addr_line1: '1 Main St', addr_line2: '', city: 'San Diego', state: 'CA', postal: '92101' },
+			q7_email: 'John.Smith@Example.com ',
+			q8_phoneNumber: { full: '(555) 555-0100' },
+			q12_claimantSignature: 'https://www.jotform.com/uploads/fake/signature.png',
+			q14_utm_source: 'mailer',
+			q15_ua: 'Mozilla/5.0',
+			q16_geo: '2025-08-18 03:55PM -0700\nCity: San Diego\nLatitude: 32.7699',
+			q20_comments: 'Thanks',
+		};
+		fake.addSubmission(fake.forms.get(formId)!, '6313669433267634627', answers);
+		const response = await handleJotFormWebhook(formId, webhook(formId, '6313669433267634627', answers), testEnv, { fetch: fake.fetch });
+		expect(response.status).toBe(200);
+
+		expect(await getClaimant(env.DB, '6313669433267634627')).toMatchObject({
+			formId,
+			campaign: 'fall',
+			eligibility: { bought: 'Yes' },
+			name: { first: 'John', last: 'Smith' },
+			address: { addr_line1: '1 Main St', city: 'San Diego', state: 'CA', postal: '92101' },
+			email: 'john.smith@example.com',
+			phone: '(555) 555-0100',
+			signatureUrl: 'https://www.jotform.com/uploads/fake/signature.png',
+			userAgent: 'Mozilla/5.0',
+			geoStamp: { city: 'San Diego', latitude: '32.7699' },
+			hidden: { utm_source: 'mailer' },
+			answers: { comments: 'Thanks' },
+			ip: '203.0.113.7',
+		});
+	});
+
+	it("uses the builder's default names for forms that aren't in the registry", () => {
+		const record = normalizeClaimant(
+			{
+				submissionId: '1',
+				formId: '2',
+				ip: null,
+				rawRequest: { q4_eligibility_question_1: 'No', q10_name: { first: 'Ann', last: '' }, q13_phoneNumber: { area: '555', phone: '5550100' } },
+			},
+			{ campaign: null, config: null }
+		);
+
+		expect(record).toMatchObject({ eligibility: { eligibility_question_1: 'No' }, name: { first: 'Ann' }, phone: '555 5550100', email: null, answers: {} });
+	});
+
+	it("records only what JotForm has, rejecting submissions it doesn't know or that belong to another form", async () => {
+		const fake = createFakeJotForm();
+		const form = fake.addForm({ title: 'Claim' });
+		const other = fake.addForm({ title: 'Other' });
+		fake.addSubmission(form, '1001', { q7_email: 'real@example.com' });
+		fake.addSubmission(other, '1002', { q7_email: 'other@example.com' });
+
+		const forged = await handleJotFormWebhook(form.id, webhook(form.id, '1003', { q7_email: 'forged@example.com' }), testEnv, { fetch: fake.fetch });
+		expect(forged.status).toBe(404);
+		const elsewhere = await handleJotFormWebhook(form.id, webhook(form.id, '1002', { q7_email: 'forged@example.com' }), testEnv, { fetch: fake.fetch });
+		expect(elsewhere.status).toBe(404);
+		expect(await getClaimant(env.DB, '1003')).toBeNull();
+		expect(await getClaimant(env.DB, '1002')).toBeNull();
+
+		// A post for a real submission can't change its answers
+		const response = await handleJotFormWebhook(form.id, webhook(form.id, '1001', { q7_email: 'forged@example.com' }), testEnv, { fetch: fake.fetch });
+		expect(response.status).toBe(200);
+		expect(await getClaimant(env.DB, '1001')).toMatchObject({ formId: form.id, email: 'real@example.com' });
+	});
+});
@@ -0,0 +1,131 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import {
+	attemptDelivery,
+	backoffSeconds,
+	handleDeliveryBatch,
+	handleGetDestinations,
+	handleListDeliveries,
+	handlePutDestinations,
+	handleReplayDelivery,
+	maxDeliveryAttempts,
+	renderTemplate,
+	type DeliveryMessage,
+} from '../src/deliveries';
+import { hmacSha256 } from '../src/hash';
+import { handleJotFormWebhook } from '../src/hooks';
+import { createFakeJotForm } from './fake-jotform';
+
+// A queue that only records what's sent; the tests deliver the messages themselves
+function createFakeQueue() {
+	const sent: DeliveryMessage[] = [];
+	const queue = {
+		send: async (body: DeliveryMessage) => void sent.push(body),
+		sendBatch: async (messages: Iterable<{ body: DeliveryMessage }>) => void sent.push(...[...messages].map((message) => message.body)),
+	} as unknown as Queue<DeliveryMessage>;
+	return { queue, sent };
+}
+
+// Downstream systems: case management is up, reporting is down
+function createReceivers() {
+	const received: Array<{ url: string; headers: Headers; body: string }> = [];
+	const fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+		const url = String(input);
+		received.push({ url, headers: new Headers(init?.headers), body: String(init?.body) });
+		return new Response(null, { status: url.startsWith('https://cases.example') ? 204 : 503 });
+	}) as typeof globalThis.fetch;
+	return { fetch, received };
+}
+
+async function submit(formId: string, testEnv: any) {
+	const fake = createFakeJotForm();
+	const rawRequest = { q3_name: { first: 'Ann', last: 'Lee' }, q4_email: 'ann@example.com' };
+	fake.addSubmission(fake.addForm({ id: formId }), '7000000000000000001', rawRequest);
+	const body = new FormData();
+	body.append('submissionID', '7000000000000000001');
+	body.append('formID', formId);
+	body.append('rawRequest', JSON.stringify(rawRequest));
+	return handleJotFormWebhook(formId, new Request(`https://worker.test/hooks/jotform/${formId}`, { method: 'POST', body }), testEnv, { fetch: fake.fetch });
+}
+
+describe('deliveries', () => {
+	it('signs each delivery and retries failures with backoff until they go dead', async () => {
+		const { queue, sent } = createFakeQueue();
+		const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test', DELIVERIES: queue };
+		const { fetch, received } = createReceivers();
+
+		const put = (await (
+			await handlePutDestinations(
+				'900',
+				{
+					destinations: [
+						{ name: 'cases', url: 'https://cases.example/intake', secret: 'shh', bodyTemplate: { caseRef: 'JF-{{submissionId}}', person: '{{claimant.name}}' } },
+						{ name: 'reporting', url: 'https://reports.example/events' },
+					],
+				},
+				testEnv
+			)
+		).json()) as any;
+		expect(put.destinations[0].secret).toBeUndefined();
+		expect(put.destinations[1].secret).toMatch(/^[0-9a-f]{64}$/);
+		const listed = (await (await handleGetDestinations('900', testEnv)).json()) as any;
+		expect(listed.destinations.map((destination: any) => [destination.name, 'secret' in destination])).toEqual([
+			['cases', false],
+			['reporting', false],
+		]);
+
+		expect((await submit('900', testEnv)).status).toBe(200);
+		expect(sent).toHaveLength(2);
+		// JotForm sending the webhook again doesn't deliver it twice
+		expect((await submit('900', testEnv)).status).toBe(200);
+		expect(sent).toHaveLength(2);
+
+		const retries: Array<number | undefined> = [];
+		const batch = {
+			queue: 'jotform-manager-deliveries',
+			messages: sent.splice(0).map((body) => ({ body, ack: () => undefined, retry: (options?: { delaySeconds?: number }) => retries.push(options?.delaySeconds) })),
+		} as unknown as MessageBatch<DeliveryMessage>;
+		await handleDeliveryBatch(batch, testEnv, { fetch });
+
+		const toCases = received.find((request) => request.url.startsWith('https://cases.example'))!;
+		expect(JSON.parse(toCases.body)).toEqual({ caseRef: 'JF-7000000000000000001', person: { first: 'Ann', last: 'Lee' } });
+		const timestamp = toCases.headers.get('X-Delivery-Timestamp');
+		expect(toCases.headers.get('X-Signature-256')).toBe(`sha256=${await hmacSha256('shh', `${timestamp}.${toCases.body}`)}`);
+		const toReporting = received.find((request) => request.url.startsWith('https://reports.example'))!;
+		expect(JSON.parse(toReporting.body)).toMatchObject({ event: 'submission.received', formId: '900', claimant: { email: 'ann@example.com' } });
+		expect(retries).toEqual([backoffSeconds(1)]);
+
+		const reporting = ((await (await handleListDeliveries({ formId: '900', destination: 'reporting' }, testEnv)).json()) as any).deliveries[0];
+		expect(reporting).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 503, lastError: 'HTTP 503' });
+		for (let attempt = 2; attempt <= maxDeliveryAttempts; attempt++) {
+			await attemptDelivery(reporting.id, testEnv, { fetch });
+		}
+
+		const dead = (await (await handleListDeliveries({ status: 'dead' }, testEnv)).json()) as any;
+		expect(dead.deliveries).toMatchObject([{ id: reporting.id, attempts: maxDeliveryAttempts }]);
+		const delivered = (await (await handleListDeliveries({ status: 'delivered' }, testEnv)).json()) as any;
+		expect(delivered.deliveries).toMatchObject([{ destination: 'cases', attempts: 1, responseStatus: 204 }]);
+
+		const replay = await handleReplayDelivery(reporting.id, testEnv);
+		expect(replay.status).toBe(202);
+		expect(((await replay.json()) as any).delivery).toMatchObject({ status: 'pending', attempts: 0 });
+		expect(sent).toEqual([{ deliveryId: reporting.id }]);
+		expect((await handleReplayDelivery(reporting.id, testEnv)).status).toBe(409);
+		expect((await handleReplayDelivery('missing', testEnv)).status).toBe(404);
+	});
+
+	it('renders templates, keeping whole-value placeholders typed', () => {
+		const event = { submissionId: '1', claimant: { name: { first: 'Ann' }, age: 40 } };
+		expect(renderTemplate({ id: '{{submissionId}}', age: '{{claimant.age}}', who: 'Hi {{claimant.name.first}}{{missing}}', tags: ['{{nope}}'] }, event)).toEqual({
+			id: '1',
+			age: 40,
+			who: 'Hi Ann',
+			tags: [null],
+		});
+	});
+
+	it('backs off exponentially up to a cap', () => {
+		expect([1, 2, 3, 4].map(backoffSeconds)).toEqual([30, 60, 120, 240]);
+		expect(backoffSeconds(20)).toBe(6 * 60 * 60);
+	});
+});
@@ -0,0 +1,124 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { exportFormConfig } from '../src/form-export';
+import { handleCreateForm, handleCreateFormFromTemplate, handleUpdateForm } from '../src/forms';
+import type { EmailConfig, FormConfig } from '../src/types';
+import { validateFormConfig } from '../src/validation';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+const emails: EmailConfig[] = [
+	{ type: 'notification', name: 'intake', to: 'intake@example.com', bcc: 'audit@example.com', replyTo: '{email}', condition: 'eligible' },
+	{ type: 'autoresponder', subject: 'Thanks, {name.first}', body: '<p>You answered {eligibility_question_1}.</p>' },
+];
+
+const config: FormConfig = {
+	title: 'Claim',
+	eligibilityQuestions: [{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1' }],
+	personalInfoFields: { includeName: true, includeEmail: true },
+	emails,
+};
+
+describe('emails', () => {
+	it('creates the emails with answer tags and a mail condition for the eligible-only one', async () => {
+		const fake = createFakeJotForm();
+		const response = await handleCreateForm(config, testEnv, { fetch: fake.fetch });
+		const body = (await response.json()) as any;
+		expect(body.success).toBe(true);
+
+		const form = fake.forms.get(body.formId)!;
+		expect(form.emails).toMatchObject([
+			{ type: 'notification', name: 'intake', to: 'intake@example.com', bcc: 'audit@example.com', replyTo: '{email}' },
+			{ type: 'autorespond', name: 'autoresponder1', to: '{email}', subject: 'Thanks, {name:first}', body: '<p>You answered {eligibility_question_1}.</p>' },
+		]);
+
+		const qidOf = (name: string) => Object.keys(form.questions).find((qid) => form.questions[qid].name === name);
+		const mail = form.properties.conditions.find((condition: any) => condition.type === 'mail');
+		expect(JSON.parse(mail.terms)).toMatchObject([{ field: qidOf('eligibility_question_1'), operator: 'equals', value: 'Yes' }]);
+		expect(JSON.parse(mail.action)[0]).toMatchObject({ email: '0', visibility: 'Send' });
+	});
+
+	it('lists a conditions call on a dry run only when there are conditions to apply', async () => {
+		const plan = async (config: FormConfig) =>
+			((await (await handleCreateForm(config, testEnv, { dryRun: true })).json()) as any).calls.map((call: any) => call.description);
+
+		expect(await plan({ title: 'Claim', emails: [{ type: 'notification', to: 'intake@example.com' }] })).toEqual(['create form']);
+		expect(await plan(config)).toEqual(['create form', 'get form questions', 'update conditions']);
+	});
+
+	it("replaces a template's emails and its email conditions", async () => {
+		const fake = createFakeJotForm();
+		const template = fake.addForm({
+			title: 'Template',
+			questions: {
+				'3': { type: 'control_email', name: 'email', text: 'Email', order: '3' },
+				'4': { type: 'control_radio', name: 'eligibility_question_1', text: 'Q1', order: '4', options: 'Yes|No' },
+			},
+			emails: [{ type: 'notification', name: 'old', to: 'old@example.com' }],
+			properties: {
+				conditions: [
+					{ type: 'mail', link: 'All', terms: JSON.stringify([{ field: '4', operator: 'equals', value: 'Yes' }]), action: JSON.stringify([{ email: '0' }]) },
+				],
+			},
+		});
+
+		const response = await handleCreateFormFromTemplate(
+			{ templateFormId: template.id, title: 'Claim', emails: [{ type: 'autoresponder', condition: { terms: [{ field: 'eligibility_question_1', operator: 'equals', value: 'Yes' }] } }] },
+			testEnv,
+			{ fetch: fake.fetch },
+		);
+		const body = (await response.json()) as any;
+		expect(body.success).toBe(true);
+
+		const form = fake.forms.get(body.formId)!;
+		expect(form.emails).toMatchObject([{ type: 'autorespond', to: '{email}' }]);
+		expect(form.properties.conditions).toHaveLength(1);
+		expect(JSON.parse(form.properties.conditions[0].terms)[0].field).toBe('4');
+	});
+
+	it('updates the emails of a live form, keeping its other conditions', async () => {
+		const fake = createFakeJotForm();
+		const created = (await (await handleCreateForm(
+			{ ...config, emails: undefined, enableConditionals: true, showPersonalInfoOnlyIfEligible: true },
+			testEnv,
+			{ fetch: fake.fetch },
+		)).json()) as any;
+
+		const response = await handleUpdateForm({ formId: created.formId, updateType: 'emails', emails }, testEnv, { fetch: fake.fetch });
+		expect(response.status).toBe(200);
+
+		const form = fake.forms.get(created.formId)!;
+		expect(form.emails.map((email: any) => email.name)).toEqual(['intake', 'autoresponder1']);
+		expect(form.properties.conditions.map((condition: any) => condition.type ?? 'field')).toEqual(['field', 'mail']);
+		expect(form.properties.conditions.map((condition: any) => condition.index)).toEqual(['0', '1']);
+	});
+
+	it('exports the emails back to the config they were built from', async () => {
+		const fake = createFakeJotForm();
+		const created = (await (await handleCreateForm(config, testEnv, { fetch: fake.fetch })).json()) as any;
+		const form = fake.forms.get(created.formId)!;
+
+		const exported = exportFormConfig(form.questions, { ...form.properties, emails: form.emails });
+
+		expect(exported.config.emails).toEqual(emails);
+		expect(exported.config.conditions).toBeUndefined();
+		expect(exported.warnings).toEqual([]);
+	});
+
+	it('rejects placeholders that name no question and autoresponders with nowhere to go', () => {
+		expect(
+			validateFormConfig({
+				title: 'Claim',
+				emails: [
+					{ type: 'notification', to: 'intake@example.com', subject: 'New claim from {name.first}', condition: 'eligible' },
+					{ type: 'autoresponder' },
+				],
+			}),
+		).toEqual([
+			{ path: '/emails/0/condition', message: "'eligible' needs eligibilityQuestions" },
+			{ path: '/emails/0/subject', message: "No question named 'name'" },
+			{ path: '/emails/1/to', message: 'Autoresponders need to when the form has no email field' },
+		]);
+	});
+});
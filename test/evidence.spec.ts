@@ -0,0 +1,94 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleGetEvidence, htmlToText } from '../src/evidence';
+import { sha256 } from '../src/hash';
+import { handleJotFormWebhook } from '../src/hooks';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+// 1x1 transparent PNG
+const png = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='), (c) => c.charCodeAt(0));
+
+function signedForm() {
+	const fake = createFakeJotForm();
+	const questions: Record<string, any> = {
+		'4': { type: 'control_radio', name: 'eligibility_question_1', text: 'Are you 18?', order: '2' },
+		'10': { type: 'control_fullname', name: 'name', text: 'Name', order: '3' },
+		'29': { type: 'control_text', name: 'retainer0', text: '<p><strong>Retainer</strong> v1 &amp; terms</p>', order: '4' },
+		'30': { type: 'control_signature', name: 'signature', text: 'Signature', order: '5' },
+		'42': { type: 'control_widget', name: 'typeA', text: 'userAgent', order: '6', cfname: 'Get User Agent' },
+		'43': { type: 'control_widget', name: 'typeA43', text: 'geoStamp', order: '7', cfname: 'Geo Stamp' },
+	};
+	const form = fake.addForm({ title: 'Claim', questions });
+	form.submissions.push({
+		id: '6313669433267634627',
+		form_id: form.id,
+		ip: '203.0.113.7',
+		created_at: '2025-08-18 18:55:44',
+		status: 'ACTIVE',
+		answers: {
+			'4': { ...questions['4'], answer: 'Yes' },
+			'10': { ...questions['10'], answer: { first: 'John', last: 'Smith' }, prettyFormat: 'John Smith' },
+			'30': { ...questions['30'], answer: 'https://www.jotform.com/uploads/fake/signature_30.png' },
+			'42': { ...questions['42'], answer: 'Mozilla/5.0' },
+			'43': { ...questions['43'], answer: '2025-08-18 03:55PM -0700\nCity: San Diego\nLatitude: 32.7699\nLongitude: -117.1502' },
+		},
+	});
+	const fetch = ((input: RequestInfo | URL, init?: RequestInit) =>
+		String(input).includes('/uploads/') ? Promise.resolve(new Response(png)) : fake.fetch(input, init)) as typeof globalThis.fetch;
+	return { fake, form, fetch };
+}
+
+describe('consent evidence', () => {
+	it('is generated from the webhook and keeps the text shown at submission time', async () => {
+		const { form, fetch } = signedForm();
+		const body = new FormData();
+		body.append('submissionID', '6313669433267634627');
+		body.append('formID', form.id);
+		body.append('rawRequest', '{}');
+
+		const hook = await handleJotFormWebhook(form.id, new Request('https://worker.test/hooks', { method: 'POST', body }), testEnv, { fetch });
+		expect(hook.status).toBe(200);
+
+		// Edited after the claimant signed
+		form.questions['29'].text = '<p>Retainer v2</p>';
+
+		const evidence = (await (await handleGetEvidence('6313669433267634627', 'json', testEnv, { fetch })).json()) as any;
+		expect(evidence.manifest).toMatchObject({
+			trigger: 'webhook',
+			ip: '203.0.113.7',
+			createdAt: '2025-08-18 18:55:44',
+			userAgent: 'Mozilla/5.0',
+			geoStamp: { city: 'San Diego', latitude: '32.7699' },
+			legalText: [{ name: 'retainer0', html: '<p><strong>Retainer</strong> v1 &amp; terms</p>' }],
+			answers: [
+				{ name: 'eligibility_question_1', value: 'Yes' },
+				{ name: 'name', value: 'John Smith' },
+			],
+			signatures: [{ name: 'signature', sha256: await sha256(png) }],
+		});
+
+		const pdf = await handleGetEvidence('6313669433267634627', undefined, testEnv, { fetch });
+		const bytes = new Uint8Array(await pdf.arrayBuffer());
+		expect(pdf.headers.get('Content-Type')).toBe('application/pdf');
+		expect(new TextDecoder().decode(bytes.slice(0, 5))).toBe('%PDF-');
+		expect(pdf.headers.get('X-Evidence-SHA256')).toBe(await sha256(bytes));
+		expect(evidence.hashes['bundle.pdf']).toBe(await sha256(bytes));
+	});
+
+	it('rejects webhooks for a different form', async () => {
+		const body = new FormData();
+		body.append('submissionID', '1');
+		body.append('formID', '2');
+
+		const response = await handleJotFormWebhook('3', new Request('https://worker.test/hooks', { method: 'POST', body }), testEnv);
+		expect(response.status).toBe(400);
+	});
+});
+
+describe('htmlToText', () => {
+	it('keeps paragraphs and decodes entities', () => {
+		expect(htmlToText('<p>One &amp; two</p>\r\n<ul><li>A</li><li>B</li></ul>')).toBe('One & two\n\n- A\n- B');
+	});
+});
@@ -0,0 +1,254 @@
+/**
+ * In-memory stand-in for the JotForm API, passed to handlers as their fetch.
+ */
+
+export interface FakeForm {
+	id: string;
+	title: string;
+	status: string;
+	url: string;
+	created_at: string;
+	updated_at: string | null;
+	questions: Record<string, any>;
+	properties: Record<string, any>;
+	emails: any[];
+	webhooks: string[];
+	submissions: any[];
+}
+
+interface Failure {
+	method: string;
+	path: RegExp;
+	status: number;
+	times: number;
+}
+
+export function createFakeJotForm() {
+	const forms = new Map<string, FakeForm>();
+	const requests: Array<{ method: string; path: string; apiKey: string | null }> = [];
+	const failures: Failure[] = [];
+	let nextId = 250000000000000;
+
+	function addForm(partial: Partial<FakeForm> = {}): FakeForm {
+		const id = partial.id || String(nextId++);
+		const form: FakeForm = {
+			id,
+			title: 'Untitled',
+			status: 'ENABLED',
+			url: `https://form.jotform.com/${id}`,
+			created_at: '2025-08-18 12:00:00',
+			updated_at: null,
+			questions: {},
+			properties: {},
+			emails: [],
+			webhooks: [],
+			submissions: [],
+			...partial
+		};
+		form.properties = { id, title: form.title, ...form.properties };
+		for (const [qid, question] of Object.entries(form.questions)) {
+			question.qid = qid;
+		}
+		forms.set(id, form);
+		return form;
+	}
+
+	// A submission whose answers are given the way the webhook's rawRequest posts them: q{qid}_{name} keys
+	function addSubmission(form: FakeForm, id: string, rawRequest: Record<string, unknown>, fields: Record<string, any> = {}) {
+		const answers: Record<string, any> = {};
+		for (const [key, answer] of Object.entries(rawRequest)) {
+			const match = key.match(/^q(\d+)_(.+)$/);
+			if (match) answers[match[1]] = { name: match[2], answer };
+		}
+		const submission = { id, form_id: form.id, ip: '203.0.113.7', created_at: '2025-08-18 12:00:00', status: 'ACTIVE', flag: '0', answers, ...fields };
+		form.submissions.push(submission);
+		return submission;
+	}
+
+	// Make the next `times` requests matching method and path fail with status
+	function failNext(method: string, path: RegExp, status: number, times = 1) {
+		failures.push({ method, path, status, times });
+	}
+
+	function envelope(content: any, status = 200, extra: Record<string, any> = {}) {
+		return Response.json({ responseCode: status, message: status === 200 ? 'success' : 'error', content, 'limit-left': 9999, ...extra }, { status });
+	}
+
+	function notFound() {
+		return envelope(null, 404);
+	}
+
+	// properties[title]=X style form fields to { title: 'X' }
+	async function readBracketed(request: Request, prefix: string): Promise<Record<string, string>> {
+		const formData = await request.formData();
+		const values: Record<string, string> = {};
+		for (const [key, value] of formData.entries()) {
+			const match = key.match(new RegExp(`^${prefix}\\[(.+)\\]$`));
+			if (match) values[match[1]] = String(value);
+		}
+		return values;
+	}
+
+	function formSummary(form: FakeForm) {
+		const { questions, properties, emails, webhooks, submissions, ...summary } = form;
+		return { ...summary, count: String(submissions.length) };
+	}
+
+	function nextQid(form: FakeForm): number {
+		return Math.max(0, ...Object.keys(form.questions).map(Number)) + 1;
+	}
+
+	function addQuestions(form: FakeForm, questions: any[] | Record<string, any>) {
+		for (const question of Object.values(questions)) {
+			const qid = String(nextQid(form));
+			form.questions[qid] = { ...question, qid };
+		}
+	}
+
+	async function handle(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+		const method = request.method;
+		const path = url.pathname;
+		requests.push({ method, path, apiKey: request.headers.get('APIKEY') });
+
+		const failure = failures.find((f) => f.method === method && f.path.test(path) && f.times > 0);
+		if (failure) {
+			failure.times--;
+			return envelope(null, failure.status);
+		}
+
+		let match: RegExpMatchArray | null;
+
+		if (path === '/user' && method === 'GET') {
+			return envelope({ username: 'fake', email: 'fake@example.com', account_type: 'SILVER' });
+		}
+
+		if (path === '/user/settings' && method === 'GET') {
+			return envelope({ username: 'fake', time_zone: 'America/New_York', language: 'en-US' });
+		}
+
+		if (path === '/form' && method === 'PUT') {
+			const body = (await request.json()) as any;
+			const form = addForm({
+				title: body.properties?.title || 'New Form',
+				status: body.properties?.status || 'ENABLED',
+				properties: { ...body.properties },
+				emails: body.emails || []
+			});
+			addQuestions(form, body.questions || []);
+			return envelope(formSummary(form));
+		}
+
+		if ((match = path.match(/^\/form\/(\d+)$/))) {
+			const form = forms.get(match[1]);
+			if (!form) return notFound();
+			if (method === 'GET') return envelope(formSummary(form));
+			if (method === 'DELETE') {
+				form.status = 'DELETED';
+				return envelope(formSummary(form));
+			}
+		}
+
+		if ((match = path.match(/^\/form\/(\d+)\/clone$/)) && method === 'POST') {
+			const source = forms.get(match[1]);
+			if (!source) return notFound();
+			const clone = addForm({
+				title: `Clone of ${source.title}`,
+				questions: structuredClone(source.questions),
+				properties: structuredClone({ ...source.properties, id: undefined }),
+				emails: structuredClone(source.emails),
+				webhooks: [...source.webhooks]
+			});
+			return envelope(formSummary(clone));
+		}
+
+		if ((match = path.match(/^\/form\/(\d+)\/questions$/))) {
+			const form = forms.get(match[1]);
+			if (!form) return notFound();
+			if (method === 'GET') return envelope(form.questions);
+			if (method === 'PUT') {
+				const body = (await request.json()) as any;
+				addQuestions(form, body.questions || {});
+				return envelope(form.questions);
+			}
+		}
+
+		if ((match = path.match(/^\/form\/(\d+)\/question\/(\d+)$/))) {
+			const form = forms.get(match[1]);
+			const question = form?.questions[match[2]];
+			if (!form || !question) return notFound();
+			if (method === 'GET') return envelope(question);
+			if (method === 'POST') {
+				Object.assign(question, await readBracketed(request, 'question'));
+				return envelope(question);
+			}
+			if (method === 'DELETE') {
+				delete form.questions[match[2]];
+				return envelope(`QuestionID #${match[2]} deleted successfully.`);
+			}
+		}
+
+		if ((match = path.match(/^\/form\/(\d+)\/properties$/))) {
+			const form = forms.get(match[1]);
+			if (!form) return notFound();
+			if (method === 'GET') return envelope({ ...form.properties, emails: form.emails });
+			if (method === 'POST') {
+				const values = await readBracketed(request, 'properties');
+				for (const [key, value] of Object.entries(values)) {
+					form.properties[key] = key === 'conditions' || key === 'emails' ? JSON.parse(value) : value;
+					if (key === 'title') form.title = value;
+					if (key === 'status') form.status = value;
+					if (key === 'emails') form.emails = form.properties.emails;
+				}
+				return envelope(form.properties);
+			}
+		}
+
+		if ((match = path.match(/^\/form\/(\d+)\/webhooks$/))) {
+			const form = forms.get(match[1]);
+			if (!form) return notFound();
+			if (method === 'POST') {
+				const formData = await request.formData();
+				form.webhooks.push(String(formData.get('webhookURL')));
+			}
+			return envelope(Object.fromEntries(form.webhooks.map((hook, index) => [String(index), hook])));
+		}
+
+		if ((match = path.match(/^\/form\/(\d+)\/webhooks\/(\d+)$/)) && method === 'DELETE') {
+			const form = forms.get(match[1]);
+			if (!form || !form.webhooks[Number(match[2])]) return notFound();
+			form.webhooks.splice(Number(match[2]), 1);
+			return envelope(Object.fromEntries(form.webhooks.map((hook, index) => [String(index), hook])));
+		}
+
+		if ((match = path.match(/^\/form\/(\d+)\/submissions$/)) && method === 'GET') {
+			const form = forms.get(match[1]);
+			if (!form) return notFound();
+			const offset = Number(url.searchParams.get('offset') || 0);
+			const limit = Number(url.searchParams.get('limit') || 20);
+			const page = form.submissions.slice(offset, offset + limit);
+			return envelope(page, 200, { resultSet: { offset, limit, count: page.length } });
+		}
+
+		if ((match = path.match(/^\/submission\/(\d+)$/))) {
+			const submission = [...forms.values()].flatMap((form) => form.submissions).find((s) => s.id === match![1]);
+			if (!submission) return notFound();
+			if (method === 'GET') return envelope(submission);
+			if (method === 'POST') {
+				Object.assign(submission, await readBracketed(request, 'submission'));
+				return envelope(submission);
+			}
+		}
+
+		return notFound();
+	}
+
+	return {
+		forms,
+		requests,
+		addForm,
+		addSubmission,
+		failNext,
+		fetch: ((input: RequestInfo | URL, init?: RequestInit) => handle(new Request(input, init))) as typeof fetch
+	};
+}
@@ -0,0 +1,70 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { buildConditions, buildFormData } from '../src/form-builder';
+import { personalInfoFieldDefinitions } from '../src/fields';
+import { handleCreateForm, handleExportFormConfig } from '../src/forms';
+import type { FormConfig } from '../src/types';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+describe('fields', () => {
+	it('builds the same questions from the personal info toggles as from the fields they stand for', () => {
+		const toggled = buildFormData({ title: 'Claim', personalInfoFields: { includeName: true, includeAddress: true, includeEmail: true, includePhone: true } });
+		const explicit = buildFormData({ title: 'Claim', fields: personalInfoFieldDefinitions.map(({ field }) => field) });
+
+		expect(explicit.questions).toEqual(toggled.questions);
+		expect(toggled.questions.find((q: any) => q.name === 'phoneNumber')).toMatchObject({ inputMask: 'enable', inputMaskValue: '(###) ###-####' });
+	});
+
+	it('builds typed questions and places fields after the question they follow', () => {
+		const config: FormConfig = {
+			title: 'Claim',
+			eligibilityQuestions: [{ text: 'Are you 18 or older?', name: 'adult' }],
+			enableConditionals: true,
+			showPersonalInfoOnlyIfEligible: true,
+			personalInfoFields: { includeEmail: true },
+			fields: [
+				{ type: 'dropdown', name: 'state', label: 'State', options: ['CA', 'NY'], required: true },
+				{ type: 'textbox', name: 'ssn_last4', label: 'Last 4 of SSN', inputMask: '####', sublabel: 'For identity checks only' },
+				{ type: 'file', name: 'receipt', label: 'Receipt', extensions: ['pdf'], after: 'signature' },
+				{ type: 'textarea', name: 'notes', label: 'Notes', maxLength: 500, after: 'signature' },
+				{ type: 'date', name: 'purchased', label: 'Purchase date', sublabels: { month: 'MM' }, after: 'header' },
+			],
+			signatureFields: [{ text: 'Signature', name: 'signature' }],
+		};
+
+		const questions = buildFormData(config).questions as any[];
+
+		expect(questions.map((q) => q.name)).toEqual([
+			'header', 'purchased', 'adult', 'email', 'state', 'ssn_last4', 'pageBreak2', 'signature', 'receipt', 'notes', 'submit',
+		]);
+		expect(questions.map((q) => q.order)).toEqual(questions.map((_, index) => String(index + 1)));
+		expect(questions.find((q) => q.name === 'state')).toMatchObject({ type: 'control_dropdown', options: 'CA|NY', required: 'Yes' });
+		expect(questions.find((q) => q.name === 'ssn_last4')).toMatchObject({ inputMask: 'enable', inputMaskValue: '####', subLabel: 'For identity checks only' });
+		expect(questions.find((q) => q.name === 'receipt')).toMatchObject({ type: 'control_fileupload', extensions: 'pdf' });
+		expect(questions.find((q) => q.name === 'notes')).toMatchObject({ type: 'control_textarea', entryLimit: 'Characters-500' });
+		expect(JSON.parse(questions.find((q) => q.name === 'purchased').sublabels)).toMatchObject({ month: 'MM', day: 'Day' });
+
+		// Only the fields left with the personal info wait for eligibility
+		expect(buildConditions(config)[0].actions.map((action) => action.field)).toEqual(['email', 'state', 'ssn_last4']);
+	});
+
+	it('round-trips fields through the exported config', async () => {
+		const fake = createFakeJotForm();
+		const config: FormConfig = {
+			title: 'Claim',
+			personalInfoFields: { includeName: true },
+			fields: [
+				{ type: 'phone', name: 'mobile', label: 'Mobile', sublabels: { area: 'Area' } },
+				{ type: 'checkbox', name: 'products', label: 'Products bought', options: ['Widget', 'Gadget'] },
+				{ type: 'number', name: 'quantity', label: 'Quantity', min: 1, max: 10, after: 'submit' },
+			],
+		};
+
+		const created = (await (await handleCreateForm(config, testEnv, { fetch: fake.fetch })).json()) as any;
+		const body = (await (await handleExportFormConfig(created.formId, testEnv, { fetch: fake.fetch })).json()) as any;
+
+		expect(body.config).toEqual(config);
+	});
+});
@@ -0,0 +1,59 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleApplyFormConfig, handleCreateForm, handleExportFormConfig } from '../src/forms';
+import type { FormConfig } from '../src/types';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+const config: FormConfig = {
+	title: 'Claim',
+	eligibilityQuestions: [{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1', required: true }],
+	personalInfoFields: { includeName: true, includeEmail: true },
+	legalTextBlocks: [{ content: '<p>You qualify</p>' }, { content: '<p>Terms v1</p>', name: 'terms' }],
+	signatureFields: [{ text: 'Signature', name: 'signature', required: true }],
+	enableConditionals: true,
+	showPersonalInfoOnlyIfEligible: true,
+};
+
+describe('handleApplyFormConfig', () => {
+	it('changes nothing when the form already matches', async () => {
+		const fake = createFakeJotForm();
+		const created = (await (await handleCreateForm(config, testEnv, { fetch: fake.fetch })).json()) as any;
+		const before = fake.requests.length;
+
+		const body = (await (await handleApplyFormConfig(created.formId, config, testEnv, { fetch: fake.fetch })).json()) as any;
+
+		expect(body.changed).toBe(false);
+		expect(fake.requests.slice(before).every((request) => request.method === 'GET')).toBe(true);
+	});
+
+	it('plans and applies only the differences', async () => {
+		const fake = createFakeJotForm();
+		const created = (await (await handleCreateForm(config, testEnv, { fetch: fake.fetch })).json()) as any;
+		const desired: FormConfig = {
+			...config,
+			legalTextBlocks: [{ content: '<p>You qualify</p>' }, { content: '<p>Terms v2</p>', name: 'terms' }],
+			personalInfoFields: { includeName: true },
+			hiddenFields: [{ name: 'utm_source', text: 'utm_source' }],
+		};
+
+		const plan = (await (await handleApplyFormConfig(created.formId, desired, testEnv, { fetch: fake.fetch, dryRun: true })).json()) as any;
+		expect(plan.diff.questions.add.map((q: any) => q.name)).toEqual(['utm_source']);
+		expect(plan.diff.questions.delete.map((q: any) => q.name)).toEqual(['email']);
+		expect(plan.diff.questions.update.find((u: any) => u.name === 'terms').changes.text.to).toBe('<p>Terms v2</p>');
+		expect(plan.diff.conditions).toBeDefined();
+		expect(Object.values(fake.forms.get(created.formId)!.questions).some((q: any) => q.name === 'email')).toBe(true);
+
+		const response = await handleApplyFormConfig(created.formId, desired, testEnv, { fetch: fake.fetch });
+		const body = (await response.json()) as any;
+		expect(response.status).toBe(200);
+		expect(body.steps.every((step: any) => step.status === 'ok')).toBe(true);
+
+		const exported = (await (await handleExportFormConfig(created.formId, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(exported.config).toEqual(desired);
+
+		const again = (await (await handleApplyFormConfig(created.formId, desired, testEnv, { fetch: fake.fetch, dryRun: true })).json()) as any;
+		expect(again.changed).toBe(false);
+	});
+});
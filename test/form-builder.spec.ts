@@ -0,0 +1,58 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { buildConditions, buildFormData } from '../src/form-builder';
+import { handleCreateForm, handleExportFormConfig } from '../src/forms';
+import type { FormConfig } from '../src/types';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+// Eligibility, then the signature up front, then a purchase-details page
+const config: FormConfig = {
+	title: 'Claim',
+	eligibilityQuestions: [{ text: 'Did you buy a widget?', name: 'bought' }],
+	disqualification: { message: 'Sorry, you do not qualify' },
+	personalInfoFields: { includeName: true },
+	fields: [{ type: 'date', name: 'purchased', label: 'Purchase date' }],
+	legalTextBlocks: [{ content: '<p>Terms</p>', name: 'terms' }],
+	signatureFields: [{ text: 'Signature', name: 'signature' }],
+	hiddenFields: [{ name: 'utm_source', text: 'utm_source' }],
+	widgets: [{ type: 'userAgent', name: 'userAgent' }],
+	pages: [
+		{ blocks: ['bought', 'disqualification_message'] },
+		{ title: 'Sign', blocks: ['name', 'terms', 'signature'] },
+		{ name: 'purchasePage', title: 'Your purchase', nextText: 'Continue', blocks: ['purchased'] },
+	],
+	progressBar: true,
+};
+
+describe('pages', () => {
+	it('lays the questions out page by page with a page break before each page', () => {
+		const formData = buildFormData(config);
+		const questions = formData.questions as any[];
+
+		expect(questions.map((q) => q.name)).toEqual([
+			'utm_source', 'header', 'bought', 'disqualification_message', 'pageBreak2', 'name', 'terms', 'signature',
+			'purchasePage', 'purchased', 'submit', 'userAgent',
+		]);
+		expect(questions.map((q) => q.order)).toEqual(questions.map((_, index) => String(index + 1)));
+		expect(questions.find((q) => q.name === 'pageBreak2')).toMatchObject({ type: 'control_pagebreak', text: 'Sign' });
+		expect(questions.find((q) => q.name === 'purchasePage')).toMatchObject({ text: 'Your purchase', nextText: 'Continue' });
+		expect(formData.properties.showProgressBar).toBe('enable');
+
+		// Disqualified claimants don't see anything after the eligibility page
+		expect(buildConditions(config)[0].actions.map((action) => action.field)).toEqual([
+			'disqualification_message', 'pageBreak2', 'name', 'terms', 'signature', 'purchasePage', 'purchased', 'submit',
+		]);
+	});
+
+	it('round-trips the pages through the exported config', async () => {
+		const fake = createFakeJotForm();
+
+		const created = (await (await handleCreateForm(config, testEnv, { fetch: fake.fetch })).json()) as any;
+		const body = (await (await handleExportFormConfig(created.formId, testEnv, { fetch: fake.fetch })).json()) as any;
+
+		expect(body.unmapped).toEqual([]);
+		expect(body.config).toEqual(config);
+	});
+});
@@ -0,0 +1,67 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleCreateForm, handleExportFormConfig } from '../src/forms';
+import type { FormConfig } from '../src/types';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+describe('handleExportFormConfig', () => {
+	it('round-trips a form created by handleCreateForm', async () => {
+		const fake = createFakeJotForm();
+		const config: FormConfig = {
+			title: 'Claim',
+			properties: { font: 'Roboto' },
+			eligibilityQuestions: [
+				{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1', required: true },
+				{ text: 'Have you ever opted out?', name: 'eligibility_question_2', qualifyingAnswer: 'No' },
+			],
+			personalInfoFields: { includeName: true, includeEmail: true },
+			legalTextBlocks: [{ content: '<p>You qualify</p>' }, { content: '<p>Terms</p>', name: 'terms' }],
+			signatureFields: [{ text: 'Signature', name: 'signature', required: true }],
+			hiddenFields: [{ name: 'utm_source', text: 'utm_source', defaultValue: 'direct', readonly: true }],
+			widgets: [{ type: 'userAgent', name: 'userAgent' }, { type: 'geoStamp', name: 'geoStamp' }],
+			includeCaptcha: true,
+			emailNotification: { to: 'claims@example.com', subject: 'New claim' },
+			enableConditionals: true,
+			showPersonalInfoOnlyIfEligible: true,
+			disqualification: { message: 'Sorry, you do not qualify', skipToEnd: true, redirectURL: 'https://example.com/sorry' },
+			conditions: [{ link: 'All', terms: [{ field: 'utm_source', operator: 'equals', value: 'partner' }], actions: [{ field: 'terms', visibility: 'Hide' }] }],
+			injectCSS: '.form-all { color: red; }',
+			lineLayout: { lineSpacing: '8', horizontalPadding: '12' },
+		};
+
+		const created = (await (await handleCreateForm(config, testEnv, { fetch: fake.fetch })).json()) as any;
+		const response = await handleExportFormConfig(created.formId, testEnv, { fetch: fake.fetch });
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(200);
+		expect(body.unmapped).toEqual([]);
+		expect(body.warnings).toEqual([]);
+		expect(body.config).toEqual(config);
+	});
+
+	it('maps other inputs to fields and reports questions it cannot map', async () => {
+		const fake = createFakeJotForm();
+		const form = fake.addForm({
+			title: 'Hand built',
+			questions: {
+				'1': { type: 'control_head', name: 'heading', text: 'Hand built', order: '1' },
+				'2': { type: 'control_email', name: 'email', text: 'Email', order: '2' },
+				'3': { type: 'control_dropdown', name: 'state', text: 'State', order: '3', options: 'CA|NY', emptyText: 'Pick one' },
+				'4': { type: 'control_matrix', name: 'ratings', text: 'Rate us', order: '4' },
+			},
+		});
+
+		const body = (await (await handleExportFormConfig(form.id, testEnv, { fetch: fake.fetch })).json()) as any;
+
+		expect(body.config).toEqual({
+			title: 'Hand built',
+			fields: [
+				{ type: 'email', name: 'email', label: 'Email', after: 'header' },
+				{ type: 'dropdown', name: 'state', label: 'State', options: ['CA', 'NY'], placeholder: 'Pick one', after: 'email' },
+			],
+		});
+		expect(body.unmapped).toEqual([{ qid: '4', name: 'ratings', type: 'control_matrix', text: 'Rate us' }]);
+	});
+});
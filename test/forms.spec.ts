@@ -0,0 +1,202 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { widgetDefinitions } from '../src/form-builder';
+import { handleCreateForm, handleCreateFormFromTemplate } from '../src/forms';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+describe('handleCreateForm', () => {
+	it('creates the form, then resolves conditions by name to the qids JotForm assigned', async () => {
+		const fake = createFakeJotForm();
+		const response = await handleCreateForm(
+			{
+				title: 'Claim',
+				enableConditionals: true,
+				showPersonalInfoOnlyIfEligible: true,
+				hiddenFields: [{ name: 'utm_source', text: 'utm_source' }],
+				eligibilityQuestions: [{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1' }],
+				personalInfoFields: { includeEmail: true },
+				webhookURL: 'https://example.com/webhook',
+			},
+			testEnv,
+			{ fetch: fake.fetch },
+		);
+		const body = (await response.json()) as any;
+
+		expect(body.success).toBe(true);
+		expect(body.conditionsApplied).toBe(true);
+
+		const form = fake.forms.get(body.formId)!;
+		const qidOf = (name: string) => Object.keys(form.questions).find((qid) => form.questions[qid].name === name);
+		const [condition] = form.properties.conditions;
+		expect(JSON.parse(condition.terms)[0].field).toBe(qidOf('eligibility_question_1'));
+		expect(JSON.parse(condition.action)[0].field).toBe(qidOf('email'));
+		expect(form.webhooks).toEqual(['https://example.com/webhook']);
+		expect(fake.requests.every((r) => r.apiKey === 'test-key')).toBe(true);
+	});
+
+	it('deletes the form and fails when its conditions cannot be added', async () => {
+		const fake = createFakeJotForm();
+		fake.failNext('POST', /^\/form\/\d+\/properties$/, 400);
+
+		const response = await handleCreateForm(
+			{
+				title: 'Claim',
+				enableConditionals: true,
+				showPersonalInfoOnlyIfEligible: true,
+				eligibilityQuestions: [{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1' }],
+				personalInfoFields: { includeEmail: true },
+			},
+			testEnv,
+			{ fetch: fake.fetch },
+		);
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(502);
+		expect(body).toMatchObject({ success: false, error: 'Failed to add conditions; the form was deleted', rolledBack: true });
+		expect([...fake.forms.values()].map((form) => form.status)).toEqual(['DELETED']);
+	});
+
+	it('passes JotForm failures through with their status', async () => {
+		const fake = createFakeJotForm();
+		fake.failNext('PUT', /^\/form$/, 401);
+
+		const response = await handleCreateForm({ title: 'Claim' }, testEnv, { fetch: fake.fetch });
+
+		expect(response.status).toBe(401);
+		expect(((await response.json()) as any).error).toBe('Failed to create form');
+	});
+});
+
+describe('handleCreateFormFromTemplate', () => {
+	it('clones the template and applies the config to the clone', async () => {
+		const fake = createFakeJotForm();
+		const template = fake.addForm({
+			title: 'Template',
+			questions: {
+				'4': { type: 'control_radio', name: 'eligibility_question_1', text: 'Q1', order: '11' },
+				'5': { type: 'control_radio', name: 'eligibility_question_2', text: 'Q2', order: '12' },
+				'10': { type: 'control_fullname', name: 'name', text: 'Name', order: '15' },
+				'13': { type: 'control_phone', name: 'phoneNumber', text: 'Phone Number', order: '18' },
+			},
+		});
+
+		const response = await handleCreateFormFromTemplate(
+			{
+				templateFormId: template.id,
+				title: 'From template',
+				eligibilityQuestions: [{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1', required: true }],
+				personalInfoFields: { includeName: true, includePhone: false },
+			},
+			testEnv,
+			{ fetch: fake.fetch },
+		);
+		const body = (await response.json()) as any;
+		const clone = fake.forms.get(body.formId)!;
+
+		expect(body.success).toBe(true);
+		expect(clone.title).toBe('From template');
+		expect(Object.values(clone.questions).map((q: any) => q.name)).toEqual(['eligibility_question_1', 'name']);
+		expect(clone.questions['4'].text).toBe('Are you 18 years of age or older?');
+	});
+
+	it('reports each step and returns 502 when a step fails', async () => {
+		const fake = createFakeJotForm();
+		const template = fake.addForm({
+			title: 'Template',
+			questions: { '4': { type: 'control_radio', name: 'eligibility_question_1', text: 'Q1', order: '11' } },
+		});
+		fake.failNext('POST', /\/webhooks$/, 400);
+
+		const response = await handleCreateFormFromTemplate(
+			{ templateFormId: template.id, title: 'From template', webhookURL: 'https://example.com/webhook' },
+			testEnv,
+			{ fetch: fake.fetch },
+		);
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(502);
+		expect(body.success).toBe(false);
+		expect(body.rolledBack).toBe(false);
+		expect(fake.forms.get(body.formId)!.status).toBe('ENABLED');
+		expect(body.steps.map((step: any) => [step.name, step.status])).toEqual([
+			['clone template form', 'ok'],
+			['get form questions', 'ok'],
+			['update title', 'ok'],
+			['sync webhooks', 'failed'],
+		]);
+	});
+
+	it("reports template questions it couldn't match as warnings, and fails in strict mode", async () => {
+		const fake = createFakeJotForm();
+		const template = fake.addForm({
+			title: 'Template',
+			questions: { '4': { type: 'control_radio', name: 'eligibility_question_1', text: 'Q1', order: '11' } },
+		});
+		const config = {
+			templateFormId: template.id,
+			title: 'From template',
+			eligibilityQuestions: [
+				{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1' },
+				{ text: 'Did you buy a widget?', name: 'eligibility_question_2' },
+			],
+			widgets: [{ type: 'geoStamp' as const, name: 'geoStamp' }],
+		};
+
+		const response = await handleCreateFormFromTemplate(config, testEnv, { fetch: fake.fetch });
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(200);
+		expect(body.warnings).toEqual(['Eligibility question eligibility_question_2 not found in template']);
+		expect(body.steps.every((step: any) => step.status === 'ok')).toBe(true);
+		const clone = fake.forms.get(body.formId)!;
+		expect(Object.values(clone.questions).find((question: any) => question.name === 'geoStamp')).toMatchObject({
+			cfname: widgetDefinitions.geoStamp.cfname,
+			selectedField: widgetDefinitions.geoStamp.selectedField,
+		});
+
+		const strict = await handleCreateFormFromTemplate({ ...config, strict: true }, testEnv, { fetch: fake.fetch });
+		const strictBody = (await strict.json()) as any;
+
+		expect(strict.status).toBe(502);
+		expect(strictBody.rolledBack).toBe(true);
+		expect(strictBody.steps).toContainEqual({
+			name: 'match template questions',
+			status: 'failed',
+			error: 'Eligibility question eligibility_question_2 not found in template',
+		});
+		expect([...fake.forms.values()].filter((form) => form.status === 'DELETED')).toHaveLength(1);
+	});
+
+	it('deletes the clone in strict mode when a step fails', async () => {
+		const fake = createFakeJotForm();
+		const template = fake.addForm({
+			title: 'Template',
+			questions: { '4': { type: 'control_radio', name: 'eligibility_question_1', text: 'Q1', order: '11' } },
+		});
+		fake.failNext('POST', /\/question\/4$/, 500);
+
+		const response = await handleCreateFormFromTemplate(
+			{
+				templateFormId: template.id,
+				title: 'From template',
+				eligibilityQuestions: [{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1' }],
+				webhookURL: 'https://example.com/webhook',
+				strict: true,
+			},
+			testEnv,
+			{ fetch: fake.fetch },
+		);
+		const body = (await response.json()) as any;
+		const clone = [...fake.forms.values()].find((form) => form.id !== template.id)!;
+
+		expect(response.status).toBe(502);
+		expect(body.rolledBack).toBe(true);
+		expect(body.formId).toBeUndefined();
+		expect(clone.status).toBe('DELETED');
+		expect(clone.webhooks).toEqual([]);
+		expect(body.steps.map((step: any) => step.status)).toEqual(['ok', 'ok', 'ok', 'failed', 'skipped', 'ok']);
+		expect(body.steps.at(-1).name).toBe('delete cloned form (rollback)');
+	});
+});
@@ -38,4 +38,201 @@ describe('Hello World user worker', () => {
 			expect(await response.text()).toMatch(/[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}/);
 		});
 	});
+
+	describe('request for /create-form?dryRun=true', () => {
+		it('returns the planned payload without calling JotForm', async () => {
+			const response = await SELF.fetch('http://example.com/create-form?dryRun=true', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${env.ADMIN_TOKEN}` },
+				body: JSON.stringify({
+					title: 'Dry Run',
+					eligibilityQuestions: [{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1', required: true }],
+					personalInfoFields: { includeName: true, includeEmail: true },
+					signatureFields: [{ text: 'Signature*', name: 'signature', required: true }],
+					webhookURL: 'https://example.com/webhook',
+				}),
+			});
+			const body = (await response.json()) as any;
+
+			expect(response.status).toBe(200);
+			expect(body.dryRun).toBe(true);
+			expect(body.payload.properties.title).toBe('Dry Run');
+			expect(body.payload.questions.map((q: any) => q.name)).toEqual([
+				'header',
+				'eligibility_question_1',
+				'name',
+				'email',
+				'pageBreak2',
+				'signature',
+				'submit',
+			]);
+			expect(body.calls.map((call: any) => `${call.method} ${call.path}`)).toEqual(['PUT /form', 'POST /form/{newFormId}/webhooks']);
+		});
+
+		it('targets conditional fields by name regardless of hidden fields', async () => {
+			const response = await SELF.fetch('http://example.com/create-form?dryRun=true', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${env.ADMIN_TOKEN}` },
+				body: JSON.stringify({
+					title: 'Dry Run',
+					enableConditionals: true,
+					showPersonalInfoOnlyIfEligible: true,
+					hiddenFields: [{ name: 'utm_source', text: 'utm_source' }],
+					eligibilityQuestions: [
+						{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1' },
+						{ text: 'Did you live in California?', name: 'eligibility_question_2' },
+					],
+					personalInfoFields: { includeName: true, includePhone: true },
+				}),
+			});
+			const body = (await response.json()) as any;
+
+			expect(body.conditions).toEqual([
+				{
+					link: 'All',
+					terms: [
+						{ field: 'eligibility_question_1', operator: 'equals', value: 'Yes' },
+						{ field: 'eligibility_question_2', operator: 'equals', value: 'Yes' },
+					],
+					actions: [
+						{ field: 'name', visibility: 'Show' },
+						{ field: 'phoneNumber', visibility: 'Show' },
+					],
+				},
+			]);
+			expect(body.calls.map((call: any) => `${call.method} ${call.path}`)).toEqual([
+				'PUT /form',
+				'GET /form/{newFormId}/questions',
+				'POST /form/{newFormId}/properties',
+			]);
+		});
+
+		it('adds a disqualification path that honours per-question qualifying answers', async () => {
+			const response = await SELF.fetch('http://example.com/create-form?dryRun=true', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${env.ADMIN_TOKEN}` },
+				body: JSON.stringify({
+					title: 'Dry Run',
+					eligibilityQuestions: [
+						{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1' },
+						{ text: 'Have you already hired a lawyer?', name: 'eligibility_question_2', qualifyingAnswer: 'No' },
+					],
+					signatureFields: [{ text: 'Signature*', name: 'signature' }],
+					disqualification: { message: '<p>Sorry, you do not qualify.</p>', skipToEnd: true },
+				}),
+			});
+			const body = (await response.json()) as any;
+
+			expect(body.payload.questions.map((q: any) => q.name)).toContain('disqualification_message');
+			expect(body.conditions).toEqual([
+				{
+					link: 'Any',
+					terms: [
+						{ field: 'eligibility_question_1', operator: 'equals', value: 'No' },
+						{ field: 'eligibility_question_2', operator: 'equals', value: 'Yes' },
+					],
+					actions: [
+						{ field: 'disqualification_message', visibility: 'Show' },
+						{ field: 'pageBreak2', visibility: 'Hide' },
+						{ field: 'signature', visibility: 'Hide' },
+						{ field: 'submit', visibility: 'Hide' },
+					],
+				},
+				{
+					type: 'page',
+					link: 'Any',
+					terms: [
+						{ field: 'eligibility_question_1', operator: 'equals', value: 'No' },
+						{ field: 'eligibility_question_2', operator: 'equals', value: 'Yes' },
+					],
+					actions: [{ skipTo: 'end' }],
+				},
+			]);
+		});
+	});
+
+	describe('request body validation', () => {
+		it('responds 400 to malformed JSON', async () => {
+			const response = await SELF.fetch('http://example.com/create-form', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${env.ADMIN_TOKEN}` },
+				body: '{"title": ',
+			});
+			expect(response.status).toBe(400);
+			expect(((await response.json()) as any).error).toBe('Malformed JSON');
+		});
+
+		it('responds 422 with the problems found', async () => {
+			const response = await SELF.fetch('http://example.com/update-form', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${env.ADMIN_TOKEN}` },
+				body: JSON.stringify({ formId: '123', updateType: 'conditions', conditions: [{ link: 'All', terms: [], actions: [] }] }),
+			});
+			expect(response.status).toBe(422);
+			expect(((await response.json()) as any).issues.map((issue: any) => issue.path)).toEqual([
+				'/conditions/0/terms',
+				'/conditions/0/actions',
+			]);
+		});
+	});
+
+	describe('authentication', () => {
+		const dryRun = (token?: string, body: Record<string, unknown> = { title: 'Dry Run' }) =>
+			SELF.fetch('http://example.com/create-form?dryRun=true', {
+				method: 'POST',
+				headers: token ? { Authorization: `Bearer ${token}` } : {},
+				body: JSON.stringify(body),
+			});
+
+		it('responds 401 without a valid token', async () => {
+			const missing = await dryRun();
+			expect(missing.status).toBe(401);
+			expect(await missing.json()).toEqual({ error: 'Unauthorized', message: 'Missing bearer token' });
+			expect((await dryRun('jfm_not-a-token')).status).toBe(401);
+		});
+
+		it('issues scoped tokens and responds 403 when a scope is missing', async () => {
+			const issued = await SELF.fetch('http://example.com/tokens', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${env.ADMIN_TOKEN}` },
+				body: JSON.stringify({ name: 'crm', scopes: ['submissions:read'] }),
+			});
+			const token = (await issued.json()) as any;
+			expect(issued.status).toBe(201);
+			expect(token.token).toMatch(/^jfm_[0-9a-f]{64}$/);
+
+			const response = await dryRun(token.token);
+			expect(response.status).toBe(403);
+			expect(await response.json()).toEqual({ error: 'Forbidden', message: "Token lacks the 'forms:create' scope" });
+
+			await SELF.fetch(`http://example.com/tokens/${token.id}`, { method: 'DELETE', headers: { Authorization: `Bearer ${env.ADMIN_TOKEN}` } });
+			expect((await dryRun(token.token)).status).toBe(401);
+		});
+
+		it('rejects a body apiKey when ALLOW_BODY_API_KEY is false', async () => {
+			const request = new Request('http://example.com/create-form?dryRun=true', {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${env.ADMIN_TOKEN}` },
+				body: JSON.stringify({ title: 'Dry Run', apiKey: 'someone-elses-key' }),
+			});
+			const ctx = createExecutionContext();
+			const response = await worker.fetch(request, { ...env, ALLOW_BODY_API_KEY: 'false' }, ctx);
+			await waitOnExecutionContext(ctx);
+
+			expect(response.status).toBe(403);
+			expect(((await response.json()) as any).error).toBe('Forbidden');
+		});
+
+		it('only allows CORS from the configured origins', async () => {
+			const preflight = (origin: string) =>
+				worker.fetch(
+					new Request('http://example.com/forms', { method: 'OPTIONS', headers: { Origin: origin, 'Access-Control-Request-Method': 'GET' } }),
+					{ ...env, CORS_ORIGINS: 'https://app.example.com' },
+					createExecutionContext(),
+				);
+
+			expect((await preflight('https://app.example.com')).headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+			expect((await preflight('https://evil.example.com')).headers.get('Access-Control-Allow-Origin')).toBeNull();
+		});
+	});
 });
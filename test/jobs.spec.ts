@@ -0,0 +1,161 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleCreateCampaign, handleGetJob, handleJobBatch, handleRetryJob, type JobMessage } from '../src/jobs';
+import { createFakeJotForm } from './fake-jotform';
+
+// A queue that only records what's sent; the tests deliver the messages themselves
+function createFakeQueue() {
+	const sent: JobMessage[] = [];
+	const queue = {
+		send: async (body: JobMessage) => void sent.push(body),
+		sendBatch: async (messages: Iterable<{ body: JobMessage }>) => void sent.push(...[...messages].map((message) => message.body)),
+	} as unknown as Queue<JobMessage>;
+	return { queue, sent };
+}
+
+function deliver(messages: JobMessage[]) {
+	const acked: JobMessage[] = [];
+	const batch = {
+		queue: 'jotform-manager-jobs',
+		messages: messages.map((body) => ({ id: crypto.randomUUID(), timestamp: new Date(), attempts: 1, body, ack: () => acked.push(body), retry: () => undefined })),
+		ackAll: () => undefined,
+		retryAll: () => undefined,
+	} as unknown as MessageBatch<JobMessage>;
+	return { batch, acked };
+}
+
+describe('campaign jobs', () => {
+	it('creates each form in the background and retries only the failed ones', async () => {
+		const fake = createFakeJotForm();
+		const { queue, sent } = createFakeQueue();
+		const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test', JOBS: queue };
+
+		const created = await handleCreateCampaign(
+			{
+				campaign: 'fall',
+				base: { title: 'Claim', personalInfoFields: { includeName: true } },
+				forms: [{ title: 'Claim (East)' }, { title: 'Claim (West)' }, { title: 'Claim (North)' }],
+			},
+			testEnv,
+			{ caller: 'crm' }
+		);
+		const { jobId, items } = (await created.json()) as any;
+		expect(created.status).toBe(202);
+		expect(items).toBe(3);
+		expect(sent.map((message) => message.index)).toEqual([0, 1, 2]);
+
+		fake.failNext('PUT', /^\/form$/, 401);
+		const first = deliver(sent.splice(0));
+		await handleJobBatch(first.batch, testEnv, { fetch: fake.fetch });
+		expect(first.acked).toHaveLength(3);
+
+		let job = (await (await handleGetJob(jobId, testEnv)).json()) as any;
+		expect(job).toMatchObject({ campaign: 'fall', status: 'completed_with_errors', counts: { succeeded: 2, failed: 1 }, createdBy: 'crm' });
+		expect(job.items[0]).toMatchObject({ index: 0, status: 'failed', title: 'Claim (East)', formId: null, attempts: 1 });
+		expect(job.items[0].error).toBeTruthy();
+		expect(job.items[1]).toMatchObject({ status: 'succeeded', title: 'Claim (West)' });
+		expect(fake.forms.get(job.items[1].formId)!.title).toBe('Claim (West)');
+
+		const retried = (await (await handleRetryJob(jobId, testEnv)).json()) as any;
+		expect(retried.retried).toEqual([0]);
+		expect(sent).toEqual([{ jobId, index: 0 }]);
+
+		await handleJobBatch(deliver(sent.splice(0)).batch, testEnv, { fetch: fake.fetch });
+		job = (await (await handleGetJob(jobId, testEnv)).json()) as any;
+		expect(job).toMatchObject({ status: 'completed', counts: { succeeded: 3, failed: 0 } });
+		expect(job.items[0]).toMatchObject({ status: 'succeeded', attempts: 2, error: null });
+		expect(fake.forms.size).toBe(3);
+	});
+
+	it("deletes a template item's clone when it fails, so a retry doesn't leave it behind", async () => {
+		const fake = createFakeJotForm();
+		const { queue, sent } = createFakeQueue();
+		const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test', JOBS: queue };
+		const template = fake.addForm({
+			title: 'Template',
+			questions: { '4': { type: 'control_radio', name: 'eligibility_question_1', text: 'Q1', order: '11' } },
+		});
+
+		const created = await handleCreateCampaign(
+			{
+				campaign: 'fall',
+				base: { templateFormId: template.id, eligibilityQuestions: [{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1' }] },
+				forms: [{ title: 'Claim (East)' }],
+			},
+			testEnv,
+		);
+		const { jobId } = (await created.json()) as any;
+
+		fake.failNext('POST', /\/question\/4$/, 500);
+		await handleJobBatch(deliver(sent.splice(0)).batch, testEnv, { fetch: fake.fetch });
+		let [item] = ((await (await handleGetJob(jobId, testEnv)).json()) as any).items;
+		expect(item).toMatchObject({ status: 'failed', formId: null });
+
+		await handleRetryJob(jobId, testEnv);
+		await handleJobBatch(deliver(sent.splice(0)).batch, testEnv, { fetch: fake.fetch });
+		[item] = ((await (await handleGetJob(jobId, testEnv)).json()) as any).items;
+		expect(item.status).toBe('succeeded');
+		const live = [...fake.forms.values()].filter((form) => form.id !== template.id && form.status !== 'DELETED');
+		expect(live.map((form) => form.id)).toEqual([item.formId]);
+	});
+
+	it('takes over an item left running by an invocation that died', async () => {
+		const fake = createFakeJotForm();
+		const { queue, sent } = createFakeQueue();
+		const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test', JOBS: queue };
+
+		const created = await handleCreateCampaign({ campaign: 'fall', base: { title: 'Claim' }, forms: [{}, {}] }, testEnv);
+		const { jobId } = (await created.json()) as any;
+		const messages = sent.splice(0);
+		await env.DB.prepare("UPDATE job_items SET status = 'running', updated_at = ? WHERE job_id = ? AND item_index = 0")
+			.bind('2000-01-01T00:00:00.000Z', jobId)
+			.run();
+		await env.DB.prepare("UPDATE job_items SET status = 'running', updated_at = ? WHERE job_id = ? AND item_index = 1")
+			.bind(new Date().toISOString(), jobId)
+			.run();
+
+		await handleJobBatch(deliver(messages).batch, testEnv, { fetch: fake.fetch });
+
+		const job = (await (await handleGetJob(jobId, testEnv)).json()) as any;
+		expect(job.items.map((item: any) => item.status)).toEqual(['succeeded', 'running']);
+		expect(fake.forms.size).toBe(1);
+	});
+
+	it("records each locale's form for items with translations", async () => {
+		const fake = createFakeJotForm();
+		const { queue, sent } = createFakeQueue();
+		const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test', JOBS: queue };
+
+		const created = await handleCreateCampaign(
+			{ campaign: 'fall', base: { title: 'Claim', translations: { es: { title: 'Reclamo' } } }, forms: [{}] },
+			testEnv,
+		);
+		const { jobId } = (await created.json()) as any;
+		await handleJobBatch(deliver(sent.splice(0)).batch, testEnv, { fetch: fake.fetch });
+
+		const [item] = ((await (await handleGetJob(jobId, testEnv)).json()) as any).items;
+		expect(item).toMatchObject({ status: 'succeeded', formId: item.locales.en });
+		expect(fake.forms.get(item.locales.en)!.title).toBe('Claim');
+		expect(fake.forms.get(item.locales.es)!.title).toBe('Reclamo');
+	});
+
+	it('validates every form up front', async () => {
+		const { queue, sent } = createFakeQueue();
+		const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOBS: queue };
+
+		const response = await handleCreateCampaign(
+			{ campaign: 'fall', base: { title: 'Claim' }, forms: [{}, { title: 42, apiKey: 'secret' }] },
+			testEnv
+		);
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(422);
+		expect(body.issues.map((issue: any) => issue.path)).toEqual(expect.arrayContaining(['/forms/1/apiKey', '/forms/1/title']));
+		expect(sent).toHaveLength(0);
+	});
+
+	it('reports an unknown job', async () => {
+		const response = await handleGetJob('missing', { ...env, JOTFORM_API_KEY: 'test-key' });
+		expect(response.status).toBe(404);
+	});
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { createJotFormClient, JotFormError } from '../src/jotform-client';
+import { createFakeJotForm } from './fake-jotform';
+
+describe('JotForm client', () => {
+	it('targets the regional base URL and sends the key as a header', async () => {
+		const urls: string[] = [];
+		const client = createJotFormClient({
+			apiKey: 'secret',
+			region: 'eu',
+			fetch: async (input, init) => {
+				urls.push(String(input));
+				expect(new Headers(init?.headers).get('APIKEY')).toBe('secret');
+				return Response.json({ responseCode: 200, message: 'success', content: { username: 'eu-user' }, 'limit-left': 42 });
+			},
+		});
+
+		const user = await client.getUser();
+
+		expect(urls).toEqual(['https://eu-api.jotform.com/user']);
+		expect(user.content.username).toBe('eu-user');
+		expect(user['limit-left']).toBe(42);
+	});
+
+	it('retries reads after 429 and 5xx responses', async () => {
+		const fake = createFakeJotForm();
+		const form = fake.addForm({ title: 'Retry me' });
+		fake.failNext('GET', /\/questions$/, 429);
+		fake.failNext('GET', /\/questions$/, 503);
+		const client = createJotFormClient({ apiKey: 'key', baseUrl: 'https://fake.jotform.test', fetch: fake.fetch, retryDelayMs: 1 });
+
+		await client.getQuestions(form.id);
+
+		expect(fake.requests.filter((r) => r.path.endsWith('/questions'))).toHaveLength(3);
+	});
+
+	it('does not retry non-idempotent calls on server errors', async () => {
+		const fake = createFakeJotForm();
+		const form = fake.addForm();
+		fake.failNext('POST', /\/clone$/, 500);
+		const client = createJotFormClient({ apiKey: 'key', baseUrl: 'https://fake.jotform.test', fetch: fake.fetch, retryDelayMs: 1 });
+
+		await expect(client.cloneForm(form.id)).rejects.toBeInstanceOf(JotFormError);
+		expect(fake.requests).toHaveLength(1);
+	});
+
+	it('treats an error responseCode in a 200 response as a failure', async () => {
+		const client = createJotFormClient({
+			apiKey: 'key',
+			fetch: async () => Response.json({ responseCode: 401, message: 'You\'re not authorized to use (/user) ', content: '' }),
+		});
+
+		await expect(client.getUser()).rejects.toMatchObject({ name: 'JotFormError', status: 502 });
+	});
+});
@@ -0,0 +1,104 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleCreateForm } from '../src/forms';
+import { closedMessageProperty, defaultClosedMessage, handleDeleteForm, handleListScheduleRuns, handleSetFormStatus, runSchedules, saveSchedule } from '../src/lifecycle';
+import { validateFormConfig } from '../src/validation';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+async function createForm(fake: ReturnType<typeof createFakeJotForm>, config: Record<string, any>) {
+	const body = (await (await handleCreateForm({ title: 'Claim', ...config }, testEnv, { fetch: fake.fetch })).json()) as any;
+	return fake.forms.get(body.formId)!;
+}
+
+describe('form lifecycle', () => {
+	it('enables, disables, archives and deletes forms', async () => {
+		const fake = createFakeJotForm();
+		const form = await createForm(fake, {});
+
+		const disabled = await handleSetFormStatus(form.id, 'disable', testEnv, { fetch: fake.fetch });
+		expect(((await disabled.json()) as any).status).toBe('DISABLED');
+		expect(form.status).toBe('DISABLED');
+
+		await handleSetFormStatus(form.id, 'enable', testEnv, { fetch: fake.fetch });
+		expect(form.status).toBe('ENABLED');
+
+		await handleSetFormStatus(form.id, 'archive', testEnv, { fetch: fake.fetch });
+		expect(form.status).toBe('ARCHIVED');
+
+		const deleted = await handleDeleteForm(form.id, testEnv, { fetch: fake.fetch });
+		expect(deleted.status).toBe(200);
+		expect(form.status).toBe('DELETED');
+
+		expect((await handleDeleteForm('999', testEnv, { fetch: fake.fetch })).status).toBe(404);
+	});
+
+	it('opens and closes forms on schedule and reports what changed', async () => {
+		const fake = createFakeJotForm();
+		const opensLater = await createForm(fake, { opensAt: '2030-01-01T09:00:00Z', closesAt: '2030-02-01T00:00:00-05:00' });
+		const capped = await createForm(fake, { maxSubmissions: 2, closedMessage: 'Submissions are closed.' });
+		const unscheduled = await createForm(fake, {});
+		expect(opensLater.status).toBe('DISABLED');
+
+		// Before it opens: the capped form is still under its cap
+		let report = await runSchedules(testEnv, { fetch: fake.fetch, now: new Date('2029-12-31T00:00:00Z') });
+		expect(report.changed).toEqual([{ formId: capped.id, from: 'pending', to: 'open', reason: 'opensAt' }]);
+
+		capped.submissions.push({ id: '1' }, { id: '2' });
+		report = await runSchedules(testEnv, { fetch: fake.fetch, now: new Date('2030-01-01T09:05:00Z') });
+		expect(report.changed).toEqual(
+			expect.arrayContaining([
+				{ formId: opensLater.id, from: 'waiting', to: 'open', reason: 'opensAt' },
+				{ formId: capped.id, from: 'open', to: 'closed', reason: 'maxSubmissions' },
+			]),
+		);
+		expect(opensLater.status).toBe('ENABLED');
+		expect(capped.status).toBe('DISABLED');
+		expect(capped.properties[closedMessageProperty]).toBe('Submissions are closed.');
+
+		report = await runSchedules(testEnv, { fetch: fake.fetch, now: new Date('2030-02-01T05:00:00Z') });
+		expect(report.changed).toEqual([{ formId: opensLater.id, from: 'open', to: 'closed', reason: 'closesAt' }]);
+		expect(opensLater.properties[closedMessageProperty]).toBe(defaultClosedMessage);
+		expect(unscheduled.status).toBe('ENABLED');
+
+		const runs = (await (await handleListScheduleRuns({}, testEnv)).json()) as any;
+		expect(runs.runs.map((run: any) => run.changed.length)).toEqual([1, 2, 1]);
+	});
+
+	it('leaves a form whose status was set by hand alone', async () => {
+		const fake = createFakeJotForm();
+		const form = await createForm(fake, { closesAt: '2030-01-01T00:00:00Z' });
+		await runSchedules(testEnv, { fetch: fake.fetch, now: new Date('2029-01-01T00:00:00Z') });
+
+		await handleSetFormStatus(form.id, 'disable', testEnv, { fetch: fake.fetch });
+		await handleSetFormStatus(form.id, 'enable', testEnv, { fetch: fake.fetch });
+		const report = await runSchedules(testEnv, { fetch: fake.fetch, now: new Date('2030-06-01T00:00:00Z') });
+
+		expect(report.checked).toBe(0);
+		expect(form.status).toBe('ENABLED');
+	});
+
+	it('enables a closed form again when its schedule moves its close date later', async () => {
+		const fake = createFakeJotForm();
+		const form = await createForm(fake, { closesAt: '2030-01-01T00:00:00Z' });
+		await runSchedules(testEnv, { fetch: fake.fetch, now: new Date('2030-01-02T00:00:00Z') });
+		expect(form.status).toBe('DISABLED');
+
+		await saveSchedule(testEnv.DB, form.id, { closesAt: '2030-03-01T00:00:00Z' });
+		const report = await runSchedules(testEnv, { fetch: fake.fetch, now: new Date('2030-01-03T00:00:00Z') });
+
+		expect(report.changed).toEqual([{ formId: form.id, from: 'pending', to: 'open', reason: 'opensAt' }]);
+		expect(form.status).toBe('ENABLED');
+	});
+
+	it('rejects schedules that close before they open or have no time zone', () => {
+		expect(validateFormConfig({ title: 'Claim', opensAt: '2030-01-02T00:00:00Z', closesAt: '2030-01-01T00:00:00Z', maxSubmissions: 0 })).toEqual([
+			{ path: '/maxSubmissions', message: 'Must be a positive integer' },
+			{ path: '/closesAt', message: 'Must be after opensAt' },
+		]);
+		expect(validateFormConfig({ title: 'Claim', closesAt: '2030-01-01 00:00' })).toEqual([
+			{ path: '/closesAt', message: 'Must be an ISO 8601 date and time with a time zone, e.g. 2025-12-31T23:59:59-05:00' },
+		]);
+	});
+});
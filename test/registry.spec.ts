@@ -0,0 +1,53 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleCreateForm, handleCreateFormFromTemplate, handleUpdateForm } from '../src/forms';
+import { handleGetForm, handleListForms } from '../src/registry';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+describe('form registry', () => {
+	it('records created forms and lists them by campaign and template', async () => {
+		const fake = createFakeJotForm();
+		const template = fake.addForm({ title: 'Template' });
+
+		const created = (await (
+			await handleCreateForm({ title: 'Claim', apiKey: 'secret', campaign: 'spring' }, testEnv, { fetch: fake.fetch, caller: 'crm' })
+		).json()) as any;
+		const cloned = (await (
+			await handleCreateFormFromTemplate({ templateFormId: template.id, title: 'From template', campaign: 'fall' }, testEnv, { fetch: fake.fetch })
+		).json()) as any;
+
+		const record = (await (await handleGetForm(created.formId, testEnv)).json()) as any;
+		expect(record).toMatchObject({ formId: created.formId, url: created.formUrl, title: 'Claim', campaign: 'spring', templateFormId: null, createdBy: 'crm' });
+		expect(record.config).toEqual({ title: 'Claim', campaign: 'spring' });
+
+		const spring = (await (await handleListForms({ campaign: 'spring' }, testEnv)).json()) as any;
+		expect(spring.forms.map((form: any) => form.formId)).toEqual([created.formId]);
+
+		const fromTemplate = (await (await handleListForms({ templateFormId: template.id }, testEnv)).json()) as any;
+		expect(fromTemplate.forms.map((form: any) => form.formId)).toEqual([cloned.formId]);
+	});
+
+	it('updates the title and timestamp on /update-form', async () => {
+		const fake = createFakeJotForm();
+		const created = (await (await handleCreateForm({ title: 'Claim' }, testEnv, { fetch: fake.fetch })).json()) as any;
+		const before = (await (await handleGetForm(created.formId, testEnv)).json()) as any;
+
+		await handleUpdateForm(
+			{ formId: created.formId, updateType: 'properties', properties: { title: 'Renamed' } },
+			testEnv,
+			{ fetch: fake.fetch },
+		);
+		const after = (await (await handleGetForm(created.formId, testEnv)).json()) as any;
+
+		expect(after.title).toBe('Renamed');
+		expect(after.updatedAt >= before.updatedAt).toBe(true);
+		expect(after.createdAt).toBe(before.createdAt);
+	});
+
+	it('returns 404 for forms not in the registry', async () => {
+		const response = await handleGetForm('123', testEnv);
+		expect(response.status).toBe(404);
+	});
+});
@@ -0,0 +1,159 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { claimantSubmission, getClaimant } from '../src/claimants';
+import { handleCreateForm } from '../src/forms';
+import { handleJotFormWebhook } from '../src/hooks';
+import { getFormRecord, touchForm } from '../src/registry';
+import { handleListFlags, handleScreenSubmissions, normalizeAddress, normalizeEmail, normalizeName, normalizePhone } from '../src/screening';
+import { validateFormConfig } from '../src/validation';
+import { createFakeJotForm, type FakeForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+const browser = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36';
+
+async function createForm(fake: ReturnType<typeof createFakeJotForm>, config: Record<string, any>) {
+	const body = (await (await handleCreateForm(
+		{
+			title: 'Claim',
+			campaign: 'fall',
+			personalInfoFields: { includeName: true, includeEmail: true, includePhone: true, includeAddress: true },
+			widgets: [{ type: 'userAgent', name: 'userAgent' }, { type: 'geoStamp', name: 'geoStamp' }],
+			...config,
+		},
+		testEnv,
+		{ fetch: fake.fetch },
+	)).json()) as any;
+	return fake.forms.get(body.formId)!;
+}
+
+// Posts the submission's webhook, after adding it to the fake so it can be read back and flagged
+async function submit(fake: ReturnType<typeof createFakeJotForm>, form: FakeForm, submissionId: string, answers: Record<string, unknown>, ip = '203.0.113.7') {
+	const rawRequest = { q20_userAgent: browser, ...answers };
+	fake.addSubmission(form, submissionId, rawRequest, { ip });
+	const body = new FormData();
+	body.append('submissionID', submissionId);
+	body.append('formID', form.id);
+	body.append('ip', ip);
+	body.append('rawRequest', JSON.stringify(rawRequest));
+	const response = await handleJotFormWebhook(form.id, new Request(`https://worker.test/hooks/jotform/${form.id}`, { method: 'POST', body }), testEnv, {
+		fetch: fake.fetch,
+	});
+	expect(response.status).toBe(200);
+}
+
+async function listFlags(campaign: string, query: Record<string, string> = {}) {
+	return ((await (await handleListFlags(campaign, query, testEnv)).json()) as any).flags;
+}
+
+describe('screening', () => {
+	it('normalizes names, addresses, emails and phone numbers', () => {
+		expect(normalizeName({ prefix: 'Dr.', first: ' José ', middle: 'A', last: "O'Brien" })).toBe('jose o brien');
+		expect(normalizeAddress({ addr_line1: '12 North Main Street', addr_line2: 'Apt. #4', postal: '92101-1234' })).toBe(
+			normalizeAddress({ addr_line1: '12 N. Main St #4', city: 'San Diego', state: 'CA', postal: '92101' }),
+		);
+		expect(normalizeEmail('J.Smith+claims@GoogleMail.com')).toBe('jsmith@gmail.com');
+		expect(normalizeEmail('j.smith+claims@example.com')).toBe('j.smith@example.com');
+		expect(normalizePhone('+1 (555) 555-0100')).toBe(normalizePhone('555.555.0100'));
+		expect(normalizePhone('555')).toBeNull();
+	});
+
+	it("flags a claimant who already claimed on another of the campaign's forms", async () => {
+		const fake = createFakeJotForm();
+		const first = await createForm(fake, {});
+		const second = await createForm(fake, {});
+		const elsewhere = await createForm(fake, { campaign: 'spring' });
+
+		await submit(fake, first, '100', { q3_name: { first: 'John', last: 'Smith' }, q4_email: 'john.smith@gmail.com' });
+		await submit(fake, elsewhere, '101', { q3_name: { first: 'John', last: 'Smith' }, q4_email: 'john.smith@gmail.com' });
+		await submit(fake, second, '102', { q3_name: { first: 'Jon', last: 'Smith' }, q4_email: 'JohnSmith+fall@gmail.com' }, '198.51.100.9');
+
+		const flags = await listFlags('fall');
+		expect(flags).toEqual([
+			expect.objectContaining({
+				submissionId: '102',
+				formId: second.id,
+				signals: [{ type: 'duplicate', match: 'email', submissionIds: ['100'] }],
+				flagged: true,
+			}),
+		]);
+		expect(second.submissions[0].flag).toBe('1');
+		expect(first.submissions[0].flag).toBe('0');
+		expect(await listFlags('spring')).toEqual([]);
+	});
+
+	it('flags geo stamps outside the state claimed, headless browsers and bursts from one IP', async () => {
+		const fake = createFakeJotForm();
+		const form = await createForm(fake, {
+			eligibilityQuestions: [{ text: 'Did you live in California between 2018 and 2022?', name: 'livedInCA', residency: 'CA' }],
+		});
+		const geoStamp = (region: string) => `2025-08-18 03:55PM -0700\nCity: Somewhere\nRegion: ${region}\nCountry Code: US`;
+
+		await submit(fake, form, '200', { q1_livedInCA: 'Yes', q21_geoStamp: geoStamp('California') }, '192.0.2.1');
+		await submit(fake, form, '201', { q1_livedInCA: 'Yes', q21_geoStamp: geoStamp('Nevada') }, '192.0.2.2');
+		await submit(fake, form, '202', { q1_livedInCA: 'No', q21_geoStamp: geoStamp('Nevada'), q20_userAgent: 'Mozilla/5.0 HeadlessChrome/120.0.0.0' }, '192.0.2.3');
+		for (const id of ['203', '204', '205', '206', '207']) {
+			await submit(fake, form, id, { q1_livedInCA: 'Yes' }, '192.0.2.99');
+		}
+
+		const flags = await listFlags('fall');
+		expect(Object.fromEntries(flags.map((flag: any) => [flag.submissionId, flag.signals]))).toEqual({
+			'201': [{ type: 'geoMismatch', question: 'livedInCA', claimed: 'CA', located: 'NV' }],
+			'202': [{ type: 'headlessUserAgent', userAgent: 'Mozilla/5.0 HeadlessChrome/120.0.0.0' }],
+			'207': [{ type: 'ipBurst', ip: '192.0.2.99', count: 5, windowMinutes: 10 }],
+		});
+		expect((await listFlags('fall', { type: 'ipBurst' })).map((flag: any) => flag.submissionId)).toEqual(['207']);
+		expect((await handleListFlags('fall', { type: 'spam' }, testEnv)).status).toBe(400);
+	});
+
+	it('screens pulled submissions oldest first, retrying flags that failed', async () => {
+		const fake = createFakeJotForm();
+		const form = await createForm(fake, {});
+		const answers = (email: string) => ({
+			'3': { name: 'name', type: 'control_fullname', answer: { first: 'Ann', last: 'Lee' } },
+			'4': { name: 'email', type: 'control_email', answer: email },
+		});
+		form.submissions.push(
+			{ id: '302', form_id: form.id, ip: '192.0.2.5', created_at: '2025-08-19 10:00:00', status: 'ACTIVE', flag: '0', answers: answers('ann.lee@example.com') },
+			{ id: '301', form_id: form.id, ip: '192.0.2.4', created_at: '2025-08-18 10:00:00', status: 'ACTIVE', flag: '0', answers: answers('Ann.Lee@Example.com') },
+		);
+
+		fake.failNext('POST', /^\/submission\/302$/, 400);
+		let body = (await (await handleScreenSubmissions(form.id, {}, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(body.screened).toBe(2);
+		expect(body.flags.map((flag: any) => [flag.submissionId, flag.flagged])).toEqual([['302', false]]);
+		expect(await getClaimant(env.DB, '301')).toMatchObject({ email: 'ann.lee@example.com', receivedAt: '2025-08-18T14:00:00.000Z' });
+		expect((await listFlags('fall'))[0].error).toBeDefined();
+
+		body = (await (await handleScreenSubmissions(form.id, {}, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(body.flags.map((flag: any) => [flag.submissionId, flag.flagged])).toEqual([['302', true]]);
+		expect(form.submissions[0].flag).toBe('1');
+	});
+
+	it('clears the flag when a re-screen finds nothing', async () => {
+		const fake = createFakeJotForm();
+		const config = { eligibilityQuestions: [{ text: 'Did you live in California between 2018 and 2022?', name: 'livedInCA', residency: 'CA' }] };
+		const form = await createForm(fake, config);
+		await submit(fake, form, '210', { q1_livedInCA: 'Yes', q21_geoStamp: '2025-08-18 03:55PM -0700\nRegion: Nevada\nCountry Code: US' });
+		expect((await listFlags('fall')).map((flag: any) => flag.submissionId)).toEqual(['210']);
+
+		// The question no longer asks about residency, so the geo stamp can't contradict it
+		const { config: registered } = (await getFormRecord(env.DB, form.id))!;
+		await touchForm(env.DB, form.id, { config: { ...registered, eligibilityQuestions: [{ ...config.eligibilityQuestions[0], residency: undefined }] } });
+		await handleScreenSubmissions(form.id, {}, testEnv, { fetch: fake.fetch });
+		expect(await listFlags('fall')).toEqual([]);
+	});
+
+	it("reads created_at on the account's clock", () => {
+		const submission = { id: '1', form_id: '2', created_at: '2025-01-15 09:00:00', answers: {} } as any;
+		expect(claimantSubmission(submission, 'America/Los_Angeles').receivedAt).toBe('2025-01-15T17:00:00.000Z');
+		expect(claimantSubmission({ ...submission, created_at: '2025-07-15 09:00:00' }, 'America/Los_Angeles').receivedAt).toBe('2025-07-15T16:00:00.000Z');
+		expect(claimantSubmission({ ...submission, created_at: '2025-07-15 09:00:00' }).receivedAt).toBe('2025-07-15T13:00:00.000Z');
+	});
+
+	it('rejects residency that is not a US state code', () => {
+		expect(validateFormConfig({ title: 'Claim', eligibilityQuestions: [{ text: 'California?', name: 'ca', residency: 'California' }] })).toEqual([
+			{ path: '/eligibilityQuestions/0/residency', message: 'Must be a two-letter US state code, e.g. CA' },
+		]);
+	});
+});
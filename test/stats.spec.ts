@@ -0,0 +1,155 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleCreateForm } from '../src/forms';
+import { handleCampaignStats, handleFormStats } from '../src/stats';
+import { createFakeJotForm, type FakeForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+async function createForm(fake: ReturnType<typeof createFakeJotForm>, config: Record<string, any> = {}) {
+	const body = (await (await handleCreateForm(
+		{
+			title: 'Claim',
+			campaign: 'fall',
+			eligibilityQuestions: [
+				{ text: 'Did you buy a widget?', name: 'eligibility_question_1' },
+				{ text: 'Have you already been compensated?', name: 'eligibility_question_2', qualifyingAnswer: 'No' },
+			],
+			signatureFields: [{ text: 'Sign here', name: 'signature' }],
+			hiddenFields: [{ name: 'utm_source', text: 'Source' }],
+			widgets: [{ type: 'geoStamp', name: 'geoStamp' }],
+			...config,
+		},
+		testEnv,
+		{ fetch: fake.fetch },
+	)).json()) as any;
+	return fake.forms.get(body.formId)!;
+}
+
+// A submission with the answers given by question name
+function addSubmission(form: FakeForm, createdAt: string, answers: Record<string, string>) {
+	const qidOf = (name: string) => Object.keys(form.questions).find((qid) => form.questions[qid].name === name)!;
+	form.submissions.push({
+		id: String(form.submissions.length + 1),
+		form_id: form.id,
+		created_at: createdAt,
+		status: 'ACTIVE',
+		answers: Object.fromEntries(Object.entries(answers).map(([name, answer]) => [qidOf(name), { name, answer }])),
+	});
+}
+
+const stamp = (region: string, countryCode = 'US') => `2025-08-18 03:55PM -0700\nRegion: ${region}\nCountry Code: ${countryCode}`;
+
+async function formStats(formId: string, query: Record<string, string> = {}, fake = createFakeJotForm()) {
+	return (await (await handleFormStats(formId, query, testEnv, { fetch: fake.fetch, account: query.account })).json()) as any;
+}
+
+describe('stats', () => {
+	it("counts a form's submissions by day, eligibility, signatures, tracking values and location", async () => {
+		const fake = createFakeJotForm();
+		const form = await createForm(fake);
+		addSubmission(form, '2025-08-18 09:00:00', { eligibility_question_1: 'Yes', eligibility_question_2: 'No', signature: 'https://x/1.png', utm_source: 'mailer', geoStamp: stamp('California') });
+		addSubmission(form, '2025-08-18 17:30:00', { eligibility_question_1: 'No', eligibility_question_2: 'No', utm_source: 'mailer', geoStamp: stamp('Nevada') });
+		addSubmission(form, '2025-08-20 08:00:00', { eligibility_question_1: 'Yes', eligibility_question_2: 'Yes', signature: 'https://x/3.png', geoStamp: stamp('Ontario', 'CA') });
+		addSubmission(form, '2025-08-21 08:00:00', { utm_source: 'affiliate-42' });
+
+		const stats = await formStats(form.id, {}, fake);
+
+		expect(stats).toMatchObject({
+			formId: form.id,
+			submissions: 4,
+			truncated: false,
+			byDay: { '2025-08-18': 2, '2025-08-20': 1, '2025-08-21': 1 },
+			eligibility: {
+				eligibility_question_1: { answered: 3, eligible: 2, ineligible: 1, eligibleRate: 0.6667 },
+				eligibility_question_2: { answered: 3, eligible: 2, ineligible: 1, eligibleRate: 0.6667 },
+			},
+			signatures: { signature: { submissions: 4, signed: 2, signedRate: 0.5 } },
+			tracking: { utm_source: { mailer: 2, 'affiliate-42': 1, '(none)': 1 } },
+			geography: { byCountry: { US: 2, CA: 1 }, byRegion: { California: 1, Nevada: 1, Ontario: 1 }, unstamped: 1 },
+			cached: false,
+		});
+		expect(Object.keys(stats.byDay)).toEqual(['2025-08-18', '2025-08-20', '2025-08-21']);
+	});
+
+	it('serves stats from the cache until asked to refresh', async () => {
+		const fake = createFakeJotForm();
+		const form = await createForm(fake);
+		addSubmission(form, '2025-08-18 09:00:00', { eligibility_question_1: 'Yes' });
+		await formStats(form.id, {}, fake);
+
+		addSubmission(form, '2025-08-19 09:00:00', { eligibility_question_1: 'Yes' });
+		const requests = fake.requests.length;
+		const cached = await formStats(form.id, {}, fake);
+		expect(cached).toMatchObject({ submissions: 1, cached: true });
+		expect(fake.requests).toHaveLength(requests);
+
+		expect(await formStats(form.id, { refresh: 'true' }, fake)).toMatchObject({ submissions: 2, cached: false });
+	});
+
+	it('caches stats per account', async () => {
+		const fake = createFakeJotForm();
+		const form = await createForm(fake);
+		addSubmission(form, '2025-08-18 09:00:00', { eligibility_question_1: 'Yes' });
+		await env.ACCOUNTS.put('acme', JSON.stringify({ apiKey: 'acme-key', baseUrl: 'https://fake.jotform.test' }));
+		await formStats(form.id, {}, fake);
+
+		expect(await formStats(form.id, { account: 'acme' }, fake)).toMatchObject({ submissions: 1, cached: false });
+		expect(fake.requests[fake.requests.length - 1].apiKey).toBe('acme-key');
+		expect(await formStats(form.id, { account: 'acme' }, fake)).toMatchObject({ cached: true });
+	});
+
+	it("adds up a campaign's forms, listing the ones that failed", async () => {
+		const fake = createFakeJotForm();
+		const first = await createForm(fake);
+		const second = await createForm(fake);
+		const failing = await createForm(fake);
+		await createForm(fake, { campaign: 'spring' });
+		addSubmission(first, '2025-08-18 09:00:00', { eligibility_question_1: 'Yes', utm_source: 'mailer' });
+		addSubmission(second, '2025-08-18 10:00:00', { eligibility_question_1: 'No', utm_source: 'mailer' });
+		addSubmission(second, '2025-08-19 10:00:00', { eligibility_question_1: 'Yes', utm_source: 'affiliate-42' });
+
+		fake.failNext('GET', new RegExp(`^/form/${failing.id}/submissions$`), 400);
+		const response = await handleCampaignStats('fall', {}, testEnv, { fetch: fake.fetch });
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(200);
+		expect(body).toMatchObject({
+			campaign: 'fall',
+			forms: 3,
+			submissions: 3,
+			byDay: { '2025-08-18': 2, '2025-08-19': 1 },
+			eligibility: { eligibility_question_1: { answered: 3, eligible: 2, ineligible: 1, eligibleRate: 0.6667 } },
+			tracking: { utm_source: { mailer: 2, 'affiliate-42': 1 } },
+			failed: [{ formId: failing.id }],
+		});
+
+		expect((await handleCampaignStats('none', {}, testEnv, { fetch: fake.fetch })).status).toBe(404);
+	});
+
+	it("computes a few of a campaign's forms per request, listing the rest as pending", async () => {
+		const fake = createFakeJotForm();
+		const forms = [];
+		for (let i = 0; i < 6; i++) {
+			const form = await createForm(fake);
+			addSubmission(form, '2025-08-18 09:00:00', { eligibility_question_1: 'Yes' });
+			forms.push(form);
+		}
+
+		const first = (await (await handleCampaignStats('fall', {}, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(first).toMatchObject({ forms: 6, submissions: 4 });
+		expect(first.pending).toHaveLength(2);
+
+		const second = (await (await handleCampaignStats('fall', {}, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(second).toMatchObject({ forms: 6, submissions: 6 });
+		expect(second.pending).toBeUndefined();
+
+		// A refresh recomputes the stalest forms first: those from the first request, not the pending ones from the second
+		const stalest = forms.find((form) => !first.pending.includes(form.id))!;
+		const freshest = forms.find((form) => first.pending.includes(form.id))!;
+		addSubmission(stalest, '2025-08-19 09:00:00', { eligibility_question_1: 'Yes' });
+		addSubmission(freshest, '2025-08-19 09:00:00', { eligibility_question_1: 'Yes' });
+		const refreshed = (await (await handleCampaignStats('fall', { refresh: 'true' }, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(refreshed.submissions).toBe(7);
+	});
+});
@@ -0,0 +1,121 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleExportSubmissions, parseGeoStamp } from '../src/submissions';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+const geoStamp =
+	'2025-08-18 03:55PM -0700\nStreet: 2433 Camino del Rio South\nCity: San Diego\nRegion: California\nCounty: San Diego County\nCountry: United States\nCountry Code: US\nZip Code: 92108\nLatitude: 32.7699\nLongitude: -117.1502';
+
+function claimForm() {
+	const fake = createFakeJotForm();
+	const questions = {
+		'2': { type: 'control_button', name: 'submit2', text: 'Submit', order: '27' },
+		'4': { type: 'control_radio', name: 'eligibility_question_1', text: 'Are you 18?', order: '11' },
+		'10': { type: 'control_fullname', name: 'name', text: 'Name', order: '15' },
+		'11': { type: 'control_address', name: 'address', text: 'Address', order: '16' },
+		'13': { type: 'control_phone', name: 'phoneNumber', text: 'Phone Number', order: '18' },
+		'30': { type: 'control_signature', name: 'signature', text: 'Signature', order: '23' },
+		'43': { type: 'control_widget', name: 'typeA43', text: 'geoStamp', order: '26', cfname: 'Geo Stamp' },
+	};
+	const submission = (id: string, createdAt: string, first: string) => ({
+		id,
+		form_id: '252295991684170',
+		ip: '203.0.113.7',
+		created_at: createdAt,
+		status: 'ACTIVE',
+		answers: {
+			'4': { ...questions['4'], answer: 'Yes' },
+			'10': { ...questions['10'], answer: { first, last: 'Smith, Jr.' } },
+			'11': { ...questions['11'], answer: { addr_line1: '111 Pine Street', addr_line2: '', city: 'San Francisco', state: 'California', postal: '94111' } },
+			'13': { ...questions['13'], answer: { full: '(999) 999-9999' } },
+			'30': { ...questions['30'], answer: `https://www.jotform.com/uploads/fake/${id}_signature_30.png` },
+			'43': { ...questions['43'], answer: geoStamp },
+		},
+	});
+	const form = fake.addForm({
+		questions,
+		submissions: [submission('1', '2025-08-18 18:55:44', 'John'), submission('2', '2025-07-01 09:00:00', 'Jane')],
+	});
+	return { fake, form };
+}
+
+describe('handleExportSubmissions', () => {
+	it('flattens compound answers into columns named after the questions', async () => {
+		const { fake, form } = claimForm();
+
+		const body = (await (await handleExportSubmissions(form.id, {}, testEnv, { fetch: fake.fetch })).json()) as any;
+
+		expect(body.columns).toEqual([
+			'submission_id', 'created_at', 'status', 'ip',
+			'eligibility_question_1',
+			'name.first', 'name.last',
+			'address.line1', 'address.line2', 'address.city', 'address.state', 'address.postal',
+			'phoneNumber',
+			'signature',
+			'typeA43.latitude', 'typeA43.longitude', 'typeA43.address',
+		]);
+		expect(body.submissions[0]).toMatchObject({
+			'name.first': 'John',
+			'address.city': 'San Francisco',
+			phoneNumber: '(999) 999-9999',
+			signature: 'https://www.jotform.com/uploads/fake/1_signature_30.png',
+			'typeA43.latitude': '32.7699',
+			'typeA43.address': '2433 Camino del Rio South, San Diego, California 92108, United States',
+		});
+	});
+
+	it('exports CSV filtered by date', async () => {
+		const { fake, form } = claimForm();
+
+		const response = await handleExportSubmissions(form.id, { format: 'csv', from: '2025-08-01' }, testEnv, { fetch: fake.fetch });
+		const lines = (await response.text()).trim().split('\r\n');
+
+		expect(response.headers.get('Content-Type')).toContain('text/csv');
+		expect(lines).toHaveLength(2);
+		expect(lines[1]).toContain('1,2025-08-18 18:55:44,ACTIVE,203.0.113.7,Yes,John,"Smith, Jr."');
+	});
+
+	it('pages on past submissions the date filter dropped', async () => {
+		const { fake, form } = claimForm();
+		form.submissions.reverse();
+		form.submissions.push({ ...form.submissions[1], id: '3', created_at: '2025-08-19 08:00:00' });
+
+		const body = (await (await handleExportSubmissions(form.id, { from: '2025-08-01', limit: '2' }, testEnv, { fetch: fake.fetch })).json()) as any;
+
+		expect(body.submissions.map((submission: any) => submission.submission_id)).toEqual(['1', '3']);
+		expect(body.nextOffset).toBe(3);
+	});
+
+	it('stops after a fixed number of pages when the filter drops most of them', async () => {
+		const { fake, form } = claimForm();
+		for (let id = 3; id <= 15; id++) form.submissions.push({ ...form.submissions[0], id: String(id), status: 'DELETED' });
+
+		const response = await handleExportSubmissions(form.id, { format: 'csv', status: 'active', offset: '2', limit: '1' }, testEnv, { fetch: fake.fetch });
+
+		expect((await response.text()).trim().split('\r\n')).toHaveLength(1);
+		expect(response.headers.get('X-Next-Offset')).toBe('12');
+		expect(fake.requests.filter((request) => request.path.endsWith('/submissions'))).toHaveLength(10);
+	});
+
+	it("keeps claimants' answers from running as spreadsheet formulas", async () => {
+		const { fake, form } = claimForm();
+		form.submissions[0].answers['10'].answer = { first: '=HYPERLINK("https://evil.example","Click")', last: '@SUM(A1)' };
+
+		const lines = (await (await handleExportSubmissions(form.id, { format: 'csv' }, testEnv, { fetch: fake.fetch })).text()).split('\r\n');
+
+		expect(lines[1]).toContain(`,"'=HYPERLINK(""https://evil.example"",""Click"")",'@SUM(A1),`);
+	});
+
+	it('rejects unknown formats', async () => {
+		const response = await handleExportSubmissions('1', { format: 'xml' }, testEnv);
+		expect(response.status).toBe(400);
+	});
+});
+
+describe('parseGeoStamp', () => {
+	it('splits the widget answer into its parts', () => {
+		expect(parseGeoStamp(geoStamp)).toMatchObject({ timestamp: '2025-08-18 03:55PM -0700', countryCode: 'US', zip: '92108', longitude: '-117.1502' });
+	});
+});
@@ -0,0 +1,113 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleCreateForm, handleCreateFormFromTemplate, handleUpdateForm } from '../src/forms';
+import { handleApplyTheme, handlePutTheme } from '../src/themes';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+const firmX = {
+	properties: { font: 'Lato', pageColor: '#FFFFFF', formWidth: '640' },
+	css: '.form-all { border-radius: 0; }',
+	header: { logoURL: 'https://cdn.example.com/firm-x.png', logoAlign: 'Left' as const, size: 'Large' as const },
+};
+
+async function createForm(fake: ReturnType<typeof createFakeJotForm>, config: Record<string, any>) {
+	const body = (await (await handleCreateForm({ title: 'Claim', ...config }, testEnv, { fetch: fake.fetch })).json()) as any;
+	return fake.forms.get(body.formId)!;
+}
+
+const headerOf = (form: { questions: Record<string, any> }) => Object.values(form.questions).find((question) => question.type === 'control_head');
+
+describe('themes', () => {
+	it("builds forms with the theme's look, under the form's own settings", async () => {
+		expect((await handlePutTheme('firm-x', firmX, testEnv)).status).toBe(201);
+		const fake = createFakeJotForm();
+
+		const form = await createForm(fake, { theme: 'firm-x', properties: { pageColor: '#000000' }, customCSS: '.extra {}' });
+
+		expect(form.properties).toMatchObject({
+			font: 'Lato',
+			formWidth: '640',
+			pageColor: '#000000',
+			styles: 'nova',
+			injectCSS: '.form-all { border-radius: 0; }\n.extra {}',
+		});
+		expect(headerOf(form)).toMatchObject({ headerImage: 'https://cdn.example.com/firm-x.png', imageAlign: 'Left', headerType: 'Large' });
+	});
+
+	it("applies the theme over a template's look", async () => {
+		await handlePutTheme('firm-x', firmX, testEnv);
+		const fake = createFakeJotForm();
+		const template = fake.addForm({
+			title: 'Template',
+			questions: { '1': { type: 'control_head', name: 'header', text: 'Template', order: '1' } },
+			properties: { font: 'Arial', labelWidth: '150' },
+		});
+
+		const body = (await (await handleCreateFormFromTemplate(
+			{ templateFormId: template.id, title: 'Claim', theme: 'firm-x', properties: { formWidth: '700' } },
+			testEnv,
+			{ fetch: fake.fetch },
+		)).json()) as any;
+
+		const form = fake.forms.get(body.formId)!;
+		expect(form.properties).toMatchObject({ font: 'Lato', labelWidth: '150', formWidth: '700' });
+		expect(headerOf(form)).toMatchObject({ headerImage: 'https://cdn.example.com/firm-x.png' });
+	});
+
+	it('rejects a config naming a theme that does not exist', async () => {
+		const fake = createFakeJotForm();
+		const response = await handleCreateForm({ title: 'Claim', theme: 'nope' }, testEnv, { fetch: fake.fetch });
+
+		expect(response.status).toBe(400);
+		expect(fake.requests).toHaveLength(0);
+	});
+
+	it('re-applies a changed theme to the forms using it, keeping their overrides', async () => {
+		await handlePutTheme('firm-x', firmX, testEnv);
+		const fake = createFakeJotForm();
+		const plain = await createForm(fake, { theme: 'firm-x' });
+		const overridden = await createForm(fake, { theme: 'firm-x', properties: { font: 'Georgia' } });
+		const other = await createForm(fake, {});
+
+		// A form that takes the theme on later, through a property update
+		const updated = await createForm(fake, {});
+		await handleUpdateForm({ formId: updated.id, updateType: 'properties', theme: 'firm-x' }, testEnv, { fetch: fake.fetch });
+
+		await handlePutTheme('firm-x', { ...firmX, properties: { ...firmX.properties, font: 'Roboto' }, header: { logoURL: 'https://cdn.example.com/new.png' } }, testEnv);
+		const response = await handleApplyTheme('firm-x', {}, testEnv, { fetch: fake.fetch });
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(200);
+		expect(body.forms.map((form: any) => form.status)).toEqual(['applied', 'applied', 'applied']);
+		expect(body.nextCursor).toBeUndefined();
+		expect(plain.properties.font).toBe('Roboto');
+		expect(overridden.properties.font).toBe('Georgia');
+		expect(updated.properties.font).toBe('Roboto');
+		expect(other.properties.font).toBe('Inter');
+		expect(headerOf(plain)!.headerImage).toBe('https://cdn.example.com/new.png');
+	});
+
+	it('applies a page of the forms at a time, saying where the next page starts', async () => {
+		await handlePutTheme('firm-x', firmX, testEnv);
+		const fake = createFakeJotForm();
+		const forms = [await createForm(fake, { theme: 'firm-x' }), await createForm(fake, { theme: 'firm-x' }), await createForm(fake, { theme: 'firm-x' })];
+		await handlePutTheme('firm-x', { ...firmX, properties: { ...firmX.properties, font: 'Roboto' } }, testEnv);
+
+		const first = (await (await handleApplyTheme('firm-x', { limit: '2' }, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(first).toMatchObject({ limit: 2, nextCursor: expect.any(String) });
+		expect(forms.map((form) => form.properties.font)).toEqual(['Lato', 'Roboto', 'Roboto']);
+
+		// A form registered between pages doesn't shift the next one
+		const later = await createForm(fake, { theme: 'firm-x' });
+		const second = (await (await handleApplyTheme('firm-x', { limit: '2', cursor: first.nextCursor }, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(second.forms.map((form: any) => form.formId)).toEqual([forms[0].id]);
+		expect(second.nextCursor).toBeUndefined();
+		expect(forms.map((form) => form.properties.font)).toEqual(['Roboto', 'Roboto', 'Roboto']);
+		expect(later.properties.font).toBe('Roboto');
+
+		expect((await handleApplyTheme('firm-x', { limit: '11' }, testEnv)).status).toBe(400);
+		expect((await handleApplyTheme('firm-x', { cursor: 'nope' }, testEnv)).status).toBe(400);
+	});
+});
@@ -0,0 +1,132 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleListForms } from '../src/registry';
+import { handleCreateTranslatedForms } from '../src/translations';
+import type { FormConfig } from '../src/types';
+import { validateFormConfig } from '../src/validation';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+const config: FormConfig = {
+	title: 'Widget Claim',
+	campaign: 'widgets',
+	eligibilityQuestions: [{ text: 'Did you buy a widget?', name: 'bought' }],
+	personalInfoFields: { includeName: true },
+	legalTextBlocks: [{ content: '<p>Terms</p>' }],
+	disqualification: { message: 'Sorry, you do not qualify' },
+	translations: {
+		es: {
+			title: 'Reclamo de Widget',
+			eligibilityQuestions: { bought: '¿Compró un widget?' },
+			fields: { name: { label: 'Nombre *', sublabels: { first: 'Nombre', last: 'Apellido' } } },
+			legalTextBlocks: { legalText0: '<p>Términos</p>' },
+			submitText: 'Enviar',
+			disqualificationMessage: 'Lo sentimos, no califica',
+		},
+	},
+};
+
+describe('translations', () => {
+	it('creates one form per locale and links them as a group', async () => {
+		const fake = createFakeJotForm();
+
+		const response = await handleCreateTranslatedForms(config, testEnv, { fetch: fake.fetch });
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(200);
+		expect(Object.keys(body.locales)).toEqual(['en', 'es']);
+		expect(body.formId).toBe(body.locales.en.formId);
+
+		const texts = (formId: string) => Object.fromEntries(Object.values(fake.forms.get(formId)!.questions).map((q: any) => [q.name, q.text]));
+		expect(texts(body.locales.en.formId)).toMatchObject({ header: 'Widget Claim', bought: 'Did you buy a widget?', name: 'Name *', submit: 'Submit' });
+		expect(texts(body.locales.es.formId)).toMatchObject({
+			header: 'Reclamo de Widget',
+			bought: '¿Compró un widget?',
+			name: 'Nombre *',
+			legalText0: '<p>Términos</p>',
+			disqualification_message: 'Lo sentimos, no califica',
+			submit: 'Enviar',
+		});
+		const esName = Object.values(fake.forms.get(body.locales.es.formId)!.questions).find((q: any) => q.name === 'name') as any;
+		expect(JSON.parse(esName.sublabels)).toMatchObject({ first: 'Nombre', last: 'Apellido', middle: 'Middle Name' });
+
+		const group = (await (await handleListForms({ translationGroup: body.translationGroup }, testEnv)).json()) as any;
+		expect(group.forms.map((form: any) => [form.locale, form.formId]).sort()).toEqual([
+			['en', body.locales.en.formId],
+			['es', body.locales.es.formId],
+		]);
+	});
+
+	it('stops at the first locale that fails', async () => {
+		const fake = createFakeJotForm();
+		fake.failNext('PUT', /^\/form$/, 401);
+
+		const response = await handleCreateTranslatedForms(config, testEnv, { fetch: fake.fetch });
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(401);
+		expect(body).toMatchObject({ success: false, error: "Failed to create the 'en' form", locales: { es: { skipped: true } } });
+		expect(fake.forms.size).toBe(0);
+	});
+
+	it('deletes the locales already created when a later one fails', async () => {
+		const fake = createFakeJotForm();
+		// The second form created fails
+		let creates = 0;
+		const fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+			if (init?.method === 'PUT' && ++creates === 2) fake.failNext('PUT', /^\/form$/, 400);
+			return fake.fetch(input, init);
+		}) as typeof globalThis.fetch;
+
+		const response = await handleCreateTranslatedForms(config, testEnv, { fetch });
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(400);
+		expect(body).toMatchObject({ success: false, error: "Failed to create the 'es' form", rolledBack: true, locales: { en: { deleted: true } } });
+		expect(body.orphaned).toBeUndefined();
+		expect(fake.forms.get(body.locales.en.formId)!.status).toBe('DELETED');
+	});
+
+	it("lists the forms it couldn't delete as orphaned", async () => {
+		const fake = createFakeJotForm();
+		let creates = 0;
+		const fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+			if (init?.method === 'PUT' && ++creates === 2) {
+				fake.failNext('PUT', /^\/form$/, 400);
+				fake.failNext('DELETE', /^\/form\/\d+$/, 400);
+			}
+			return fake.fetch(input, init);
+		}) as typeof globalThis.fetch;
+
+		const body = (await (await handleCreateTranslatedForms(config, testEnv, { fetch })).json()) as any;
+
+		expect(body).toMatchObject({ success: false, rolledBack: false, orphaned: [body.locales.en.formId], locales: { en: { orphaned: true } } });
+		expect(fake.forms.get(body.locales.en.formId)!.status).toBe('ENABLED');
+	});
+
+	it("says so when the forms can't be linked", async () => {
+		const fake = createFakeJotForm();
+		const db = {
+			prepare: (query: string) => {
+				if (query.includes('SET translation_group')) throw new Error('D1 is unavailable');
+				return env.DB.prepare(query);
+			},
+			batch: (statements: D1PreparedStatement[]) => env.DB.batch(statements),
+		} as unknown as D1Database;
+
+		const response = await handleCreateTranslatedForms(config, { ...testEnv, DB: db }, { fetch: fake.fetch });
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(200);
+		expect(body).toMatchObject({ success: true, linked: false });
+		expect(body.translationGroup).toBeUndefined();
+	});
+
+	it('rejects translations of questions the config does not have', () => {
+		expect(validateFormConfig({ ...config, translations: { es: { fields: { address: { label: 'Dirección' } } }, 'Spanish!': {} } })).toEqual([
+			{ path: '/translations/Spanish!', message: 'Must be a locale like en or es-MX' },
+			{ path: '/translations/es/fields/address', message: "No fields entry named 'address'" },
+		]);
+	});
+});
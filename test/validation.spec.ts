@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { validateFormConfig, validateTemplateFormConfig, validateUpdateFormConfig } from '../src/validation';
+
+describe('validateFormConfig', () => {
+	it('accepts a typical create-form payload', () => {
+		expect(
+			validateFormConfig({
+				title: 'TEST4',
+				enableConditionals: true,
+				showPersonalInfoOnlyIfEligible: true,
+				lineLayout: { verticalPadding: '0' },
+				eligibilityQuestions: [{ text: 'Are you 18 years of age or older?', name: 'eligibility_question_1', required: true }],
+				legalTextBlocks: [{ content: '<p>You may qualify</p>', name: 'qualification_message' }],
+				personalInfoFields: { includeName: true, includeAddress: true, includeEmail: true, includePhone: true },
+				signatureFields: [{ text: 'Signature*', name: 'signature', required: true, size: '600' }],
+				hiddenFields: [{ name: 'client_id', text: 'client_id', defaultValue: '10001', readonly: true }],
+				widgets: [
+					{ type: 'userAgent', name: 'userAgentString' },
+					{ type: 'geoStamp', name: 'geoStamp' },
+				],
+				includeCaptcha: true,
+				emailNotification: { to: 'notifications@lawfirm.com', subject: 'New Legal Claim Submission' },
+				webhookURL: 'https://form-docket-sync.example.workers.dev/webhook',
+			}),
+		).toEqual([]);
+	});
+
+	it('reports unknown keys, duplicate names, bad widgets and webhook URLs by JSON pointer', () => {
+		expect(
+			validateFormConfig({
+				title: 'Typos',
+				eligibilityQuestion: [],
+				eligibilityQuestions: [{ text: 'Q1', name: 'signature' }],
+				signatureFields: [{ text: 'Signature*', name: 'signature' }],
+				widgets: [{ type: 'ipAddress', name: 'ip' }],
+				webhookURL: 'not a url',
+			}),
+		).toEqual([
+			{ path: '/widgets/0/type', message: 'Must be one of: userAgent, geoStamp' },
+			{ path: '/webhookURL', message: 'Must be a valid URL' },
+			{ path: '/eligibilityQuestion', message: 'Unknown property' },
+			{ path: '/signatureFields/0/name', message: "Duplicate question name 'signature' (also used at /eligibilityQuestions/0/name)" },
+		]);
+	});
+
+	it('rejects conditions without terms', () => {
+		expect(
+			validateFormConfig({
+				title: 'Conditions',
+				personalInfoFields: { includeName: true },
+				conditions: [{ link: 'All', terms: [], actions: [{ field: 'name', visibility: 'Show' }] }],
+			}),
+		).toEqual([{ path: '/conditions/0/terms', message: 'Must contain at least one item' }]);
+	});
+
+	it("rejects conditions on questions the config doesn't have", () => {
+		expect(
+			validateFormConfig({
+				title: 'Conditions',
+				personalInfoFields: { includeEmail: true },
+				eligibilityQuestions: [{ text: 'Are you 18?', name: 'adult' }],
+				conditions: [
+					{ link: 'All', terms: [{ field: 'adult', operator: 'equals', value: 'Yes' }], actions: [{ field: 'email', visibility: 'Show' }] },
+					{ link: 'Any', terms: [{ field: 'adlut', operator: 'equals', value: 'No' }, { field: '12', operator: 'equals', value: 'No' }], actions: [{ field: 'phone', visibility: 'Hide' }] },
+				],
+			}),
+		).toEqual([
+			{ path: '/conditions/1/terms/0/field', message: "No question named 'adlut'" },
+			{ path: '/conditions/1/actions/0/field', message: "No question named 'phone'" },
+		]);
+	});
+
+	it('checks field options, names and placement', () => {
+		expect(
+			validateFormConfig({
+				title: 'Fields',
+				personalInfoFields: { includeEmail: true },
+				fields: [
+					{ type: 'dropdown', name: 'state', label: 'State' },
+					{ type: 'textbox', name: 'email', label: 'Work email', options: ['a'] },
+					{ type: 'date', name: 'dob', label: 'Date of birth', after: 'middle_name' },
+					{ type: 'textbox', name: 'middle_name', label: 'Middle name', after: 'header' },
+					{ type: 'number', name: 'age', label: 'Age', after: 'nowhere' },
+				],
+			}),
+		).toEqual([
+			{ path: '/fields/0/options', message: 'Required for dropdown fields' },
+			{ path: '/fields/1/options', message: 'Only dropdown, checkbox and radio fields have options' },
+			{ path: '/fields/1/name', message: "Duplicate question name 'email' (also used at /personalInfoFields/includeEmail)" },
+			{ path: '/fields/2/after', message: "'middle_name' is placed later on; list it before this field" },
+			{ path: '/fields/4/after', message: "No question named 'nowhere'" },
+		]);
+	});
+
+	it('checks that page blocks name questions once and page breaks have their own names', () => {
+		expect(
+			validateFormConfig({
+				title: 'Pages',
+				signatureFields: [{ text: 'Signature', name: 'signature' }],
+				pages: [{ blocks: ['signature', 'captcha'] }, { name: 'signature', blocks: ['signature', 'submit'] }],
+			}),
+		).toEqual([
+			{ path: '/pages/0/blocks/1', message: "No question named 'captcha'" },
+			{ path: '/pages/1/name', message: "Page break name 'signature' is already used" },
+			{ path: '/pages/1/blocks/0', message: "'signature' is already on a page" },
+		]);
+	});
+});
+
+describe('validateTemplateFormConfig', () => {
+	it('requires the template form ID', () => {
+		expect(validateTemplateFormConfig({ title: 'From template' })).toEqual([{ path: '/templateFormId', message: 'Required' }]);
+	});
+});
+
+describe('validateUpdateFormConfig', () => {
+	it('rejects an unknown update type', () => {
+		expect(validateUpdateFormConfig({ formId: '123', updateType: 'theme' })).toEqual([
+			{ path: '/updateType', message: 'Must be one of: properties, questions, conditions, emails' },
+		]);
+	});
+
+	it('allows arbitrary JotForm properties on new questions', () => {
+		expect(
+			validateUpdateFormConfig({
+				formId: '123',
+				updateType: 'questions',
+				newQuestions: [{ type: 'control_textbox', text: 'Notes', order: '5', name: 'notes', hidden: 'Yes' }],
+			}),
+		).toEqual([]);
+	});
+});
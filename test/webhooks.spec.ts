@@ -0,0 +1,58 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { handleCreateFormFromTemplate } from '../src/forms';
+import { handleDeleteWebhook, handleListWebhooks, handlePutWebhooks } from '../src/webhooks';
+import { createFakeJotForm } from './fake-jotform';
+
+const testEnv = { ...env, JOTFORM_API_KEY: 'test-key', JOTFORM_BASE_URL: 'https://fake.jotform.test' };
+
+describe('webhooks', () => {
+	it("doesn't add a webhook the template clone already has, and can drop the inherited ones", async () => {
+		const fake = createFakeJotForm();
+		const template = fake.addForm({ title: 'Template', webhooks: ['https://example.com/webhook', 'https://old.example/hook'] });
+
+		const kept = (await (
+			await handleCreateFormFromTemplate({ templateFormId: template.id, title: 'Kept', webhookURL: 'https://example.com/webhook' }, testEnv, { fetch: fake.fetch })
+		).json()) as any;
+		expect(fake.forms.get(kept.formId)!.webhooks).toEqual(['https://example.com/webhook', 'https://old.example/hook']);
+
+		const removed = (await (
+			await handleCreateFormFromTemplate(
+				{ templateFormId: template.id, title: 'Removed', webhookURL: 'https://example.com/webhook', removeTemplateWebhooks: true },
+				testEnv,
+				{ fetch: fake.fetch }
+			)
+		).json()) as any;
+		expect(removed.success).toBe(true);
+		expect(fake.forms.get(removed.formId)!.webhooks).toEqual(['https://example.com/webhook']);
+	});
+
+	it('lists, replaces and removes webhooks by URL', async () => {
+		const fake = createFakeJotForm();
+		const form = fake.addForm({ webhooks: ['https://a.example/hook', 'https://b.example/hook', 'https://a.example/hook'] });
+
+		const listed = (await (await handleListWebhooks(form.id, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(listed.webhooks).toEqual([
+			{ id: '0', url: 'https://a.example/hook' },
+			{ id: '1', url: 'https://b.example/hook' },
+			{ id: '2', url: 'https://a.example/hook' },
+		]);
+
+		const plan = (await (await handlePutWebhooks(form.id, { webhooks: ['https://a.example/hook', 'https://c.example/hook'] }, testEnv, { fetch: fake.fetch, dryRun: true })).json()) as any;
+		expect(plan.calls.map((call: any) => [call.method, call.path])).toEqual([
+			['DELETE', `/form/${form.id}/webhooks/2`],
+			['DELETE', `/form/${form.id}/webhooks/1`],
+			['POST', `/form/${form.id}/webhooks`],
+		]);
+		expect(form.webhooks).toHaveLength(3);
+
+		const put = (await (await handlePutWebhooks(form.id, { webhooks: ['https://a.example/hook', 'https://c.example/hook'] }, testEnv, { fetch: fake.fetch })).json()) as any;
+		expect(put).toMatchObject({ added: ['https://c.example/hook'], removed: ['https://b.example/hook', 'https://a.example/hook'], unchanged: ['https://a.example/hook'] });
+		expect(form.webhooks).toEqual(['https://a.example/hook', 'https://c.example/hook']);
+
+		const deleted = await handleDeleteWebhook(form.id, 'https://a.example/hook', testEnv, { fetch: fake.fetch });
+		expect(deleted.status).toBe(200);
+		expect(form.webhooks).toEqual(['https://c.example/hook']);
+		expect((await handleDeleteWebhook(form.id, 'https://a.example/hook', testEnv, { fetch: fake.fetch })).status).toBe(404);
+	});
+});
@@ -1,8 +1,15 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: 869ac3b4ce0f52ba3b2e0bc70c49089e)
+// Generated by Wrangler by running `wrangler types` (hash: dd17216fd0f4581c587e74844a928f8c)
 // Runtime types generated with workerd@1.20250816.0 2025-08-19 global_fetch_strictly_public
 declare namespace Cloudflare {
 	interface Env {
+		ACCOUNTS: KVNamespace;
+		THEMES: KVNamespace;
+		STATS: KVNamespace;
+		EVIDENCE: R2Bucket;
+		DB: D1Database;
+		JOBS: Queue;
+		DELIVERIES: Queue;
 	}
 }
 interface Env extends Cloudflare.Env {}